@@ -2,3 +2,24 @@ export * from './src/MessageBoxClient.js'
 export * from './src/PeerPayClient.js'
 export * from './src/types.js'
 export * from './src/RemittanceAdapter.js'
+export * from './src/ReconnectionManager.js'
+export * from './src/MessageSubscription.js'
+export * from './src/MessageOutbox.js'
+export * from './src/OutboxStores.js'
+export * from './src/MessageOrdering.js'
+export * from './src/MessageStore.js'
+export * from './src/MessageSyncEngine.js'
+export * from './src/ConversationClient.js'
+export * from './src/MessageEnvelope.js'
+export * from './src/MessageBoxRegistry.js'
+export * from './src/AttachmentClient.js'
+export * from './src/MessageReceipts.js'
+export * from './src/PresenceClient.js'
+export * from './src/MessageControl.js'
+export * from './src/GroupClient.js'
+export * from './src/GroupStores.js'
+export * from './src/SealedSender.js'
+export * from './src/ReplayCaches.js'
+export * from './src/ContactBook.js'
+export * from './src/ContactStores.js'
+export * from './src/IdentityResolvers.js'
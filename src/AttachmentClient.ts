@@ -0,0 +1,332 @@
+/**
+ * AttachmentClient - Chunked transfer of large binary payloads over MessageBoxClient
+ *
+ * A message body has to fit into a single POST, so files are sent as a manifest followed
+ * by chunk messages. Both are `MessageEnvelope` bodies and go through `sendMessage()`, so
+ * every chunk is encrypted to the recipient with the `messagebox` protocol like any other
+ * message. The manifest lists the SHA-256 hash of every chunk and of the whole payload.
+ *
+ * Receiving syncs the attachment box into a `MessageStore` (acknowledging on the server),
+ * verifies each chunk against the manifest and reassembles the payload once all chunks are
+ * present. Verified chunks stay in the store, so an interrupted download resumes where it
+ * stopped; with a `FileMessageStore` that also holds across restarts.
+ *
+ * @example
+ * ```typescript
+ * const attachments = new AttachmentClient(client)
+ * const transfer = await attachments.send({ recipient: bobKey, data: fileBytes, name: 'photo.jpg' })
+ *
+ * // On Bob's side
+ * const [pending] = await attachments.listAttachments()
+ * const { data } = await attachments.receive(pending.manifest.attachmentId, {
+ *   onProgress: p => console.log(`${p.completedChunks}/${p.totalChunks}`)
+ * })
+ * ```
+ */
+
+import { Hash, Random, Utils } from '@bsv/sdk'
+import type { MessageBoxClient } from './MessageBoxClient.js'
+import { MemoryMessageStore } from './MessageStore.js'
+import { MessageSyncEngine, MessageSyncResult } from './MessageSyncEngine.js'
+import * as Logger from './Utils/logger.js'
+import {
+  AttachmentChunk,
+  AttachmentManifest,
+  AttachmentProgress,
+  AttachmentStatus,
+  AttachmentTransfer,
+  MessageStore,
+  ReceivedAttachment,
+  StoredMessage
+} from './types.js'
+
+export const ATTACHMENT_MANIFEST_CONTENT_TYPE = 'application/vnd.messagebox.attachment-manifest+json'
+export const ATTACHMENT_CHUNK_CONTENT_TYPE = 'application/vnd.messagebox.attachment-chunk+json'
+
+const DEFAULT_ATTACHMENT_MESSAGEBOX = 'attachments'
+const DEFAULT_CHUNK_SIZE = 64 * 1024
+const DEFAULT_MAX_CHUNK_SIZE = 1024 * 1024
+
+export interface AttachmentClientOptions {
+  /** Message box used for manifests and chunks. Default: `'attachments'`. */
+  messageBox?: string
+  /** Bytes per chunk before encryption. Default: 64 KiB. */
+  chunkSize?: number
+  /** Received manifests with larger chunks are ignored. Default: 1 MiB. */
+  maxChunkSize?: number
+  /** Keeps received manifests and chunks until they are discarded. Default: a `MemoryMessageStore`. */
+  store?: MessageStore
+  /** Host override forwarded to the underlying client. */
+  host?: string
+}
+
+export class AttachmentClient {
+  readonly messageBox: string
+  readonly store: MessageStore
+  private readonly chunkSize: number
+  private readonly maxChunkSize: number
+  private readonly host?: string
+  private readonly syncEngine: MessageSyncEngine
+
+  /**
+   * @param client - The MessageBoxClient used to send, list and acknowledge messages
+   * @param options - Message box, chunk size, store and host settings
+   */
+  constructor (private readonly client: MessageBoxClient, options: AttachmentClientOptions = {}) {
+    this.messageBox = options.messageBox ?? DEFAULT_ATTACHMENT_MESSAGEBOX
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+    if (!Number.isInteger(this.chunkSize) || this.chunkSize <= 0) {
+      throw new Error('Chunk size must be a positive integer')
+    }
+    this.maxChunkSize = options.maxChunkSize ?? DEFAULT_MAX_CHUNK_SIZE
+    this.store = options.store ?? new MemoryMessageStore()
+    this.host = options.host
+    this.syncEngine = new MessageSyncEngine(client, this.store, { host: this.host })
+  }
+
+  /**
+   * Sends a payload as a manifest followed by its chunks.
+   *
+   * If sending fails part-way, the thrown error carries a `transfer` property. Call `send()` again
+   * with the same data and `resume: error.transfer` to send only what is missing.
+   *
+   * @returns The completed transfer
+   */
+  async send ({ recipient, data, name, mimeType, onProgress, resume }: {
+    recipient: string
+    data: Uint8Array | number[]
+    name?: string
+    mimeType?: string
+    onProgress?: (progress: AttachmentProgress) => void
+    resume?: AttachmentTransfer
+  }): Promise<AttachmentTransfer> {
+    const bytes = Array.from(data)
+    const chunks = splitIntoChunks(bytes, this.chunkSize)
+
+    if (resume != null && (resume.recipient !== recipient || resume.chunkCount !== chunks.length)) {
+      throw new Error('Resume state does not match this attachment')
+    }
+    const transfer: AttachmentTransfer = resume != null
+      ? { ...resume, sentChunks: [...resume.sentChunks] }
+      : { attachmentId: Utils.toHex(Random(16)), recipient, chunkCount: chunks.length, sentChunks: [] }
+    const { attachmentId } = transfer
+
+    const manifest: AttachmentManifest = {
+      attachmentId,
+      ...(name != null && { name }),
+      ...(mimeType != null && { mimeType }),
+      size: bytes.length,
+      chunkSize: this.chunkSize,
+      chunkCount: chunks.length,
+      hash: Utils.toHex(Hash.sha256(bytes)),
+      chunkHashes: chunks.map(chunk => Utils.toHex(Hash.sha256(chunk)))
+    }
+
+    try {
+      if (transfer.manifestMessageId == null) {
+        const { messageId } = await this.client.sendMessage({
+          recipient,
+          messageBox: this.messageBox,
+          body: manifest,
+          contentType: ATTACHMENT_MANIFEST_CONTENT_TYPE,
+          headers: { 'attachment-id': attachmentId }
+        }, this.host)
+        transfer.manifestMessageId = messageId
+      }
+
+      for (let index = 0; index < chunks.length; index++) {
+        if (transfer.sentChunks.includes(index)) continue
+        const chunk: AttachmentChunk = { attachmentId, index, data: Utils.toBase64(chunks[index]) }
+        await this.client.sendMessage({
+          recipient,
+          messageBox: this.messageBox,
+          body: chunk,
+          contentType: ATTACHMENT_CHUNK_CONTENT_TYPE,
+          headers: { 'attachment-id': attachmentId, 'chunk-index': String(index) }
+        }, this.host)
+        transfer.sentChunks.push(index)
+        onProgress?.(progressOf(manifest, transfer.sentChunks))
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      throw Object.assign(new Error(`Failed to send attachment ${attachmentId}: ${message}`), { transfer })
+    }
+
+    return transfer
+  }
+
+  /**
+   * Fetches new manifests and chunks from the server into the local store and acknowledges them.
+   */
+  async sync (): Promise<MessageSyncResult> {
+    return await this.syncEngine.sync(this.messageBox)
+  }
+
+  /**
+   * Lists the attachments whose manifest has been received, with how many chunks are present.
+   */
+  async listAttachments (): Promise<AttachmentStatus[]> {
+    const stored = await this.store.list(this.messageBox)
+    return stored.flatMap(message => {
+      const manifest = asManifest(message)
+      if (manifest == null || manifest.chunkSize > this.maxChunkSize) return []
+      const receivedChunks = new Set(
+        chunksOf(stored, manifest.attachmentId, message.sender).map(({ chunk }) => chunk.index)
+      ).size
+      return [{ manifest, sender: message.sender, receivedChunks, complete: receivedChunks === manifest.chunkCount }]
+    })
+  }
+
+  /**
+   * Verifies and reassembles an attachment.
+   *
+   * Chunks whose hash does not match the manifest are removed from the store so a re-sent
+   * copy can take their place. If chunks are still missing the call throws an error with a
+   * `missing` property (the missing indexes); call it again later to resume.
+   *
+   * @param options.sync - Sync the box before assembling. Default: true.
+   * @throws {Error} If the manifest is unknown or declares chunks over `maxChunkSize`, chunks are
+   * missing, or the payload hash does not match.
+   */
+  async receive (attachmentId: string, options: {
+    onProgress?: (progress: AttachmentProgress) => void
+    sync?: boolean
+  } = {}): Promise<ReceivedAttachment> {
+    if (options.sync !== false) await this.sync()
+
+    const stored = await this.store.list(this.messageBox)
+    const manifestMessage = stored.find(message => asManifest(message)?.attachmentId === attachmentId)
+    if (manifestMessage == null) {
+      throw new Error(`Attachment ${attachmentId} not found`)
+    }
+    const manifest = asManifest(manifestMessage) as AttachmentManifest
+    const sender = manifestMessage.sender
+    if (manifest.chunkSize > this.maxChunkSize) {
+      throw new Error(`Attachment ${attachmentId} has chunks of ${manifest.chunkSize} bytes, more than the ${this.maxChunkSize} allowed`)
+    }
+
+    const verified = new Map<number, number[]>()
+    const corrupt: string[] = []
+    for (const { messageId, chunk } of chunksOf(stored, attachmentId, sender)) {
+      if (verified.has(chunk.index)) continue
+      const bytes = Utils.toArray(chunk.data, 'base64')
+      if (Utils.toHex(Hash.sha256(bytes)) !== manifest.chunkHashes[chunk.index]) {
+        corrupt.push(messageId)
+        continue
+      }
+      verified.set(chunk.index, bytes)
+      options.onProgress?.(progressOf(manifest, Array.from(verified.keys())))
+    }
+
+    if (corrupt.length > 0) {
+      Logger.warn(`[MB CLIENT] Discarding ${corrupt.length} corrupt chunk(s) of attachment ${attachmentId}`)
+      await this.store.delete(corrupt)
+    }
+
+    if (verified.size < manifest.chunkCount) {
+      const missing = manifest.chunkHashes.map((_, index) => index).filter(index => !verified.has(index))
+      throw Object.assign(
+        new Error(`Attachment ${attachmentId} is incomplete: ${verified.size} of ${manifest.chunkCount} chunks received`),
+        { missing }
+      )
+    }
+
+    // Copied into one buffer: spreading large chunks into an array would overflow the stack
+    const data = new Uint8Array(manifest.size)
+    let offset = 0
+    for (let index = 0; index < manifest.chunkCount; index++) {
+      const chunk = verified.get(index) as number[]
+      if (offset + chunk.length > data.length) break
+      data.set(chunk, offset)
+      offset += chunk.length
+    }
+    if (offset !== data.length || Utils.toHex(Hash.sha256(data)) !== manifest.hash) {
+      throw new Error(`Attachment ${attachmentId} does not match its manifest hash`)
+    }
+
+    return { manifest, sender, data }
+  }
+
+  /**
+   * Removes an attachment's manifest and chunks from the local store.
+   */
+  async discard (attachmentId: string): Promise<void> {
+    const stored = await this.store.list(this.messageBox)
+    const messageIds = stored
+      .filter(message => (asManifest(message) ?? asChunk(message))?.attachmentId === attachmentId)
+      .map(message => message.messageId)
+    await this.store.delete(messageIds)
+  }
+}
+
+function splitIntoChunks (bytes: number[], chunkSize: number): number[][] {
+  const chunks: number[][] = []
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    chunks.push(bytes.slice(offset, offset + chunkSize))
+  }
+  // An empty payload still gets one (empty) chunk so the manifest has something to verify
+  return chunks.length > 0 ? chunks : [[]]
+}
+
+function progressOf (manifest: AttachmentManifest, completed: number[]): AttachmentProgress {
+  const completedBytes = completed.reduce(
+    (total, index) => total + Math.min(manifest.chunkSize, manifest.size - index * manifest.chunkSize),
+    0
+  )
+  return {
+    attachmentId: manifest.attachmentId,
+    completedChunks: completed.length,
+    totalChunks: manifest.chunkCount,
+    completedBytes,
+    totalBytes: manifest.size
+  }
+}
+
+function asManifest (message: StoredMessage): AttachmentManifest | undefined {
+  const body = message.body as Partial<AttachmentManifest>
+  if (
+    message.contentType === ATTACHMENT_MANIFEST_CONTENT_TYPE &&
+    typeof body?.attachmentId === 'string' &&
+    Number.isInteger(body.size) &&
+    Number.isInteger(body.chunkSize) &&
+    Number.isInteger(body.chunkCount) &&
+    (body.chunkSize as number) > 0 &&
+    (body.size as number) >= 0 &&
+    (body.size as number) <= (body.chunkSize as number) * (body.chunkCount as number) &&
+    typeof body.hash === 'string' &&
+    Array.isArray(body.chunkHashes) &&
+    body.chunkHashes.length === body.chunkCount
+  ) {
+    return body as AttachmentManifest
+  }
+  return undefined
+}
+
+function asChunk (message: StoredMessage): AttachmentChunk | undefined {
+  const body = message.body as Partial<AttachmentChunk>
+  if (
+    message.contentType === ATTACHMENT_CHUNK_CONTENT_TYPE &&
+    typeof body?.attachmentId === 'string' &&
+    Number.isInteger(body.index) &&
+    typeof body.data === 'string'
+  ) {
+    return body as AttachmentChunk
+  }
+  return undefined
+}
+
+/**
+ * Chunks of an attachment from its manifest's sender, so nobody else can inject data.
+ */
+function chunksOf (
+  stored: StoredMessage[],
+  attachmentId: string,
+  sender: string
+): Array<{ messageId: string, chunk: AttachmentChunk }> {
+  return stored.flatMap(message => {
+    const chunk = asChunk(message)
+    return chunk?.attachmentId === attachmentId && message.sender === sender
+      ? [{ messageId: message.messageId, chunk }]
+      : []
+  })
+}
@@ -0,0 +1,232 @@
+/**
+ * ContactBook - Local names and trust for the identity keys a client deals with
+ *
+ * Saved contacts give identity keys a petname, tags, a preferred host and application settings.
+ * Petnames are pinned: once a petname names a key, `addContact()` refuses to move it to another
+ * key, so `resolve('alice')` cannot silently start pointing somewhere else.
+ *
+ * The book also trusts on first use: the first message from any identity records when it was
+ * first seen, saved or not. With the client's `contacts` option every received message gets the
+ * sender's `contact`, and `unknownSender` when they are not a saved contact. Messages to a contact
+ * with a `preferredHost` are sent there instead of the host its advertisements name.
+ *
+ * Seeing a sender again only rewrites the store once `lastSeenAt` has moved on by
+ * `lastSeenResolution`, and only the `maxUnknownSenders` most recently seen strangers are kept.
+ *
+ * @example
+ * ```typescript
+ * const contacts = new ContactBook({ store: new FileContactStore('./contacts.json') })
+ * await contacts.addContact({ identityKey: bobKey, petname: 'bob', tags: ['team'] })
+ * const client = new MessageBoxClient({ walletClient, contacts })
+ *
+ * await contacts.setTagPermission(client, { tag: 'team', messageBox: 'inbox' })
+ * const messages = await client.listMessages({ messageBox: 'inbox' })
+ * const strangers = messages.filter(message => message.unknownSender === true)
+ * ```
+ */
+
+import type { MessageBoxClient } from './MessageBoxClient.js'
+import { MemoryContactStore } from './ContactStores.js'
+import * as Logger from './Utils/logger.js'
+import { Contact, ContactStore, PeerMessage } from './types.js'
+
+const IDENTITY_KEY_PATTERN = /^0[23][0-9a-fA-F]{64}$/
+const DEFAULT_LAST_SEEN_RESOLUTION = 60 * 1000
+const DEFAULT_MAX_UNKNOWN_SENDERS = 1000
+
+export interface ContactBookOptions {
+  /** Where contacts are kept. Default: a `MemoryContactStore`. */
+  store?: ContactStore
+  /** How far (ms) `lastSeenAt` must move on before it is written again. Default: one minute. */
+  lastSeenResolution?: number
+  /**
+   * How many senders that are not saved contacts are remembered. Beyond that the one seen longest
+   * ago is forgotten. Default: 1000.
+   */
+  maxUnknownSenders?: number
+}
+
+/**
+ * The fields of a contact its owner chooses.
+ */
+export type ContactDetails = Partial<Pick<Contact, 'petname' | 'tags' | 'preferredHost' | 'settings'>>
+
+export interface TagPermissionParams {
+  tag: string
+  messageBox: string
+  /** Fee for contacts with the tag: 0 always allows them, -1 blocks them. Default: 0. */
+  recipientFee?: number
+}
+
+export class ContactBook {
+  private readonly store: ContactStore
+  private readonly lastSeenResolution: number
+  private readonly maxUnknownSenders: number
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor ({
+    store = new MemoryContactStore(),
+    lastSeenResolution = DEFAULT_LAST_SEEN_RESOLUTION,
+    maxUnknownSenders = DEFAULT_MAX_UNKNOWN_SENDERS
+  }: ContactBookOptions = {}) {
+    this.store = store
+    this.lastSeenResolution = lastSeenResolution
+    this.maxUnknownSenders = maxUnknownSenders
+  }
+
+  /**
+   * Saves an identity as a contact, or updates a saved one. When it was seen before, its
+   * `firstSeenAt` is kept.
+   *
+   * @throws {Error} If the petname is already pinned to another identity key.
+   */
+  async addContact ({ identityKey, ...details }: ContactDetails & { identityKey: string }): Promise<Contact> {
+    return await this.serialized(async () => {
+      const existing = await this.store.get(identityKey)
+      const contact: Contact = {
+        ...(existing ?? { identityKey, tags: [], settings: {}, firstSeenAt: Date.now() }),
+        known: true
+      }
+      return await this.save(contact, details)
+    })
+  }
+
+  /**
+   * Changes details of a saved contact. Pass `petname: undefined` or `preferredHost: undefined`
+   * to clear them.
+   *
+   * @throws {Error} If the identity is not a saved contact or the petname is pinned to another key.
+   */
+  async updateContact (identityKey: string, details: ContactDetails): Promise<Contact> {
+    return await this.serialized(async () => {
+      const existing = await this.store.get(identityKey)
+      if (existing?.known !== true) {
+        throw new Error(`Unknown contact: ${identityKey}`)
+      }
+      return await this.save(existing, details)
+    })
+  }
+
+  /**
+   * Forgets an identity entirely, including when it was first seen.
+   */
+  async removeContact (identityKey: string): Promise<void> {
+    await this.serialized(async () => await this.store.delete(identityKey))
+  }
+
+  /**
+   * Returns the entry for an identity, saved or only seen.
+   */
+  async getContact (identityKey: string): Promise<Contact | undefined> {
+    return await this.store.get(identityKey)
+  }
+
+  /**
+   * Returns the saved contacts, optionally only those with a tag.
+   */
+  async listContacts ({ tag }: { tag?: string } = {}): Promise<Contact[]> {
+    const contacts = await this.store.list()
+    return contacts.filter(contact => contact.known && (tag == null || contact.tags.includes(tag)))
+  }
+
+  /**
+   * Turns a petname into the identity key it is pinned to. Identity keys are returned as they are.
+   *
+   * @throws {Error} If the value is neither a known petname nor an identity key.
+   */
+  async resolve (petnameOrKey: string): Promise<string> {
+    const contact = await this.findByPetname(petnameOrKey)
+    if (contact != null) return contact.identityKey
+    if (IDENTITY_KEY_PATTERN.test(petnameOrKey)) return petnameOrKey
+    throw new Error(`Unknown contact: ${petnameOrKey}`)
+  }
+
+  /**
+   * Records that a message from an identity was seen, remembering the first time. A known
+   * identity is only written back when its stored `lastSeenAt` is `lastSeenResolution` old.
+   */
+  async observe (identityKey: string, at = Date.now()): Promise<Contact> {
+    return await this.serialized(async () => {
+      const existing = await this.store.get(identityKey)
+      if (existing != null) {
+        const contact: Contact = { ...existing, lastSeenAt: at }
+        if (existing.lastSeenAt == null || at - existing.lastSeenAt >= this.lastSeenResolution) {
+          await this.store.put(contact)
+        }
+        return contact
+      }
+
+      Logger.log(`[MB CLIENT] First message from ${identityKey}`)
+      const contact: Contact = { identityKey, known: false, tags: [], settings: {}, firstSeenAt: at, lastSeenAt: at }
+      await this.store.put(contact)
+      await this.forgetOldestUnknown()
+      return contact
+    })
+  }
+
+  /**
+   * Observes the sender of each message and sets its `contact` and `unknownSender`.
+   */
+  async annotate (messages: PeerMessage[]): Promise<void> {
+    for (const message of messages) {
+      const contact = await this.observe(message.sender)
+      message.contact = contact
+      message.unknownSender = !contact.known
+    }
+  }
+
+  /**
+   * Sets the permission for a message box for every saved contact with a tag, e.g. to let
+   * everyone tagged `team` message for free. Contacts tagged later need another call.
+   *
+   * @returns The identity keys the permission was set for.
+   */
+  async setTagPermission (client: MessageBoxClient, { tag, messageBox, recipientFee = 0 }: TagPermissionParams, overrideHost?: string): Promise<string[]> {
+    const contacts = await this.listContacts({ tag })
+    for (const contact of contacts) {
+      await client.setMessageBoxPermission({ messageBox, sender: contact.identityKey, recipientFee }, overrideHost)
+    }
+    return contacts.map(contact => contact.identityKey)
+  }
+
+  /**
+   * Drops the senders seen longest ago while more than `maxUnknownSenders` strangers are kept.
+   */
+  private async forgetOldestUnknown (): Promise<void> {
+    const unknown = (await this.store.list()).filter(contact => !contact.known)
+    if (unknown.length <= this.maxUnknownSenders) return
+    unknown.sort((a, b) => (a.lastSeenAt ?? a.firstSeenAt) - (b.lastSeenAt ?? b.firstSeenAt))
+    for (const contact of unknown.slice(0, unknown.length - this.maxUnknownSenders)) {
+      await this.store.delete(contact.identityKey)
+    }
+  }
+
+  private async findByPetname (petname: string): Promise<Contact | undefined> {
+    const contacts = await this.store.list()
+    return contacts.find(contact => contact.known && contact.petname === petname)
+  }
+
+  private async save (contact: Contact, details: ContactDetails): Promise<Contact> {
+    const updated: Contact = { ...contact }
+    if ('petname' in details) {
+      const petname = details.petname?.trim()
+      if (petname === '') throw new Error('Petname cannot be empty')
+      const holder = petname != null ? await this.findByPetname(petname) : undefined
+      if (holder != null && holder.identityKey !== contact.identityKey) {
+        throw new Error(`Petname "${petname as string}" is already pinned to ${holder.identityKey}`)
+      }
+      updated.petname = petname
+    }
+    if (details.tags != null) updated.tags = Array.from(new Set(details.tags))
+    if ('preferredHost' in details) updated.preferredHost = details.preferredHost
+    if (details.settings != null) updated.settings = { ...details.settings }
+    await this.store.put(updated)
+    return updated
+  }
+
+  private async serialized<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(run)
+    this.queue = result.catch(() => {})
+    return await result
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Storage backends for `ContactBook`.
+ *
+ * - `MemoryContactStore` keeps contacts for the lifetime of the process.
+ * - `FileContactStore` persists contacts to a JSON file (Node.js only).
+ */
+
+import { Contact, ContactStore } from './types.js'
+import { readJsonFile, writeJsonFile } from './Utils/jsonFile.js'
+
+function copy (contact: Contact): Contact {
+  return { ...contact, tags: [...contact.tags], settings: { ...contact.settings } }
+}
+
+export class MemoryContactStore implements ContactStore {
+  private readonly contacts: Map<string, Contact> = new Map()
+
+  async get (identityKey: string): Promise<Contact | undefined> {
+    const contact = this.contacts.get(identityKey)
+    return contact != null ? copy(contact) : undefined
+  }
+
+  async put (contact: Contact): Promise<void> {
+    this.contacts.set(contact.identityKey, copy(contact))
+  }
+
+  async delete (identityKey: string): Promise<void> {
+    this.contacts.delete(identityKey)
+  }
+
+  async list (): Promise<Contact[]> {
+    return Array.from(this.contacts.values(), copy)
+  }
+}
+
+/**
+ * Keeps all contacts in a single JSON file. The file is loaded on first use and rewritten
+ * after every change; writes are serialized so concurrent updates cannot interleave.
+ */
+export class FileContactStore implements ContactStore {
+  private readonly memory = new MemoryContactStore()
+  private loaded?: Promise<void>
+  private writing: Promise<void> = Promise.resolve()
+
+  /**
+   * @param {string} filePath - Path of the JSON file. It is created on the first write.
+   */
+  constructor (private readonly filePath: string) {}
+
+  async get (identityKey: string): Promise<Contact | undefined> {
+    await this.load()
+    return await this.memory.get(identityKey)
+  }
+
+  async put (contact: Contact): Promise<void> {
+    await this.load()
+    await this.memory.put(contact)
+    await this.save()
+  }
+
+  async delete (identityKey: string): Promise<void> {
+    await this.load()
+    await this.memory.delete(identityKey)
+    await this.save()
+  }
+
+  async list (): Promise<Contact[]> {
+    await this.load()
+    return await this.memory.list()
+  }
+
+  private async load (): Promise<void> {
+    if (this.loaded == null) {
+      this.loaded = (async () => {
+        const contacts = await readJsonFile<Contact[]>(this.filePath, [])
+        for (const contact of contacts) {
+          await this.memory.put(contact)
+        }
+      })()
+    }
+    await this.loaded
+  }
+
+  private async save (): Promise<void> {
+    const write = this.writing.then(async () => {
+      await writeJsonFile(this.filePath, await this.memory.list())
+    })
+    // A failed write must not block later ones; the caller still sees the error
+    this.writing = write.catch(() => {})
+    await write
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * ConversationClient - Conversations, threads and replies on top of MessageBoxClient
+ *
+ * Message boxes are flat. This client sends each message in a `MessageEnvelope` whose
+ * headers carry the thread (`thread-id`), the message replied to (`in-reply-to`) and the
+ * send time (`sent-at`), keeps a local copy of both sent and received messages in a
+ * `MessageStore`, and groups them by counterparty and thread.
+ *
+ * Received messages are pulled with `sync()`, which stores and acknowledges them through a
+ * `MessageSyncEngine`. Messages that were not sent through a ConversationClient still show
+ * up, each as its own single-message thread.
+ *
+ * @example
+ * ```typescript
+ * const conversations = new ConversationClient(client)
+ * const first = await conversations.send({ recipient: bobKey, body: 'Lunch tomorrow?' })
+ *
+ * await conversations.sync()
+ * const thread = await conversations.getThread(first.threadId)
+ * await conversations.reply(thread[thread.length - 1], 'Noon works')
+ * ```
+ */
+
+import { Random, Utils } from '@bsv/sdk'
+import type { MessageBoxClient } from './MessageBoxClient.js'
+import { MemoryMessageStore } from './MessageStore.js'
+import { MessageSyncEngine, MessageSyncResult } from './MessageSyncEngine.js'
+import { compareMessages } from './MessageOrdering.js'
+import {
+  Conversation,
+  ConversationMessage,
+  MessageStore,
+  StoredMessage
+} from './types.js'
+
+const DEFAULT_CONVERSATION_MESSAGEBOX = 'conversations'
+
+/** Envelope headers used for conversation metadata. */
+export const THREAD_ID_HEADER = 'thread-id'
+export const IN_REPLY_TO_HEADER = 'in-reply-to'
+export const SENT_AT_HEADER = 'sent-at'
+
+export interface ConversationClientOptions {
+  /** Message box used for conversation traffic. Default: `'conversations'`. */
+  messageBox?: string
+  /** Local copy of sent and received messages. Default: a `MemoryMessageStore`. */
+  store?: MessageStore
+  /** Host override forwarded to the underlying client. */
+  host?: string
+}
+
+export class ConversationClient {
+  readonly messageBox: string
+  readonly store: MessageStore
+  private readonly host?: string
+  private readonly syncEngine: MessageSyncEngine
+
+  /**
+   * @param client - The MessageBoxClient used to send, list and acknowledge messages
+   * @param options - Message box, store and host settings
+   */
+  constructor (private readonly client: MessageBoxClient, options: ConversationClientOptions = {}) {
+    this.messageBox = options.messageBox ?? DEFAULT_CONVERSATION_MESSAGEBOX
+    this.store = options.store ?? new MemoryMessageStore()
+    this.host = options.host
+    this.syncEngine = new MessageSyncEngine(client, this.store, { host: this.host })
+  }
+
+  /**
+   * Sends a message, starting a new thread unless `threadId` is given.
+   *
+   * @returns The sent message as it is recorded locally
+   */
+  async send ({ recipient, body, threadId, inReplyTo }: {
+    recipient: string
+    body: string | Record<string, any>
+    threadId?: string
+    inReplyTo?: string
+  }): Promise<ConversationMessage> {
+    const sentAt = Date.now()
+    // sent-at also keeps identical replies distinct, since message IDs are derived from the body
+    const headers: Record<string, string> = {
+      [THREAD_ID_HEADER]: threadId ?? Utils.toHex(Random(16)),
+      ...(inReplyTo != null && { [IN_REPLY_TO_HEADER]: inReplyTo }),
+      [SENT_AT_HEADER]: String(sentAt)
+    }
+
+    const { messageId } = await this.client.sendMessage({
+      recipient,
+      messageBox: this.messageBox,
+      body,
+      headers
+    }, this.host)
+
+    const createdAt = new Date(sentAt).toISOString()
+    await this.store.put(this.messageBox, [{
+      messageId,
+      sender: await this.client.getIdentityKey(),
+      recipient,
+      body,
+      headers,
+      created_at: createdAt,
+      updated_at: createdAt,
+      acknowledged: true
+    }])
+
+    return toConversationMessage((await this.store.get(messageId)) as StoredMessage)
+  }
+
+  /**
+   * Replies to a message in its thread.
+   */
+  async reply (message: ConversationMessage, body: string | Record<string, any>): Promise<ConversationMessage> {
+    return await this.send({
+      recipient: message.counterparty,
+      body,
+      threadId: message.threadId,
+      inReplyTo: message.messageId
+    })
+  }
+
+  /**
+   * Fetches new messages from the server into the local store and acknowledges them.
+   */
+  async sync (): Promise<MessageSyncResult> {
+    return await this.syncEngine.sync(this.messageBox)
+  }
+
+  /**
+   * Lists one summary per counterparty, most recently active first.
+   */
+  async listConversations (): Promise<Conversation[]> {
+    const byCounterparty = new Map<string, ConversationMessage[]>()
+    for (const message of await this.listAll()) {
+      const messages = byCounterparty.get(message.counterparty) ?? []
+      messages.push(message)
+      byCounterparty.set(message.counterparty, messages)
+    }
+
+    return Array.from(byCounterparty, ([counterparty, messages]) => {
+      // Messages are oldest-first, so walking backwards yields threads by latest activity
+      const threadIds = Array.from(new Set(messages.map(message => message.threadId).reverse()))
+      return {
+        counterparty,
+        threadIds,
+        lastMessage: messages[messages.length - 1],
+        messageCount: messages.length
+      }
+    }).sort((a, b) => compareMessages(a.lastMessage, b.lastMessage, { direction: 'desc' }))
+  }
+
+  /**
+   * Returns the messages of a thread, oldest first.
+   */
+  async getThread (threadId: string): Promise<ConversationMessage[]> {
+    return (await this.listAll()).filter(message => message.threadId === threadId)
+  }
+
+  private async listAll (): Promise<ConversationMessage[]> {
+    const myIdentityKey = await this.client.getIdentityKey()
+    const stored = await this.store.list(this.messageBox)
+    return stored.map(message => toConversationMessage(message, myIdentityKey))
+  }
+}
+
+function toConversationMessage (message: StoredMessage, myIdentityKey?: string): ConversationMessage {
+  const headers = message.headers ?? {}
+  const outgoing = message.recipient != null || message.sender === myIdentityKey
+  return {
+    messageId: message.messageId,
+    threadId: headers[THREAD_ID_HEADER] ?? message.messageId,
+    ...(headers[IN_REPLY_TO_HEADER] != null && { inReplyTo: headers[IN_REPLY_TO_HEADER] }),
+    counterparty: outgoing ? message.recipient ?? message.sender : message.sender,
+    direction: outgoing ? 'outgoing' : 'incoming',
+    body: message.body,
+    created_at: message.created_at
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * GroupClient - Group messaging with managed membership on top of MessageBoxClient
+ *
+ * A group has an ID, an owner (its creator) and a member list, kept in a `GroupStore` by every
+ * member. Group messages are sent to each current member separately with `sendMessage()`, so
+ * every copy is encrypted to its recipient, and carry the group in the `group-id` envelope header.
+ *
+ * Membership changes are `GroupUpdate`s signed with the `messagebox group` protocol and sent to
+ * every member they affect. Only the owner may create a group and add or remove members; any
+ * member may leave. Owner updates carry the full member list and an increasing version, so a
+ * member who missed one catches up with the next. Receivers ignore updates that are badly
+ * signed, not from the owner, or older than what they have, and messages from non-members.
+ * Messages for a group this client does not know are left on the server unacknowledged for up to
+ * `unknownGroupTimeout`, since the update announcing the group may still be on its way. Groups this
+ * client left or was removed from are remembered, and their traffic is acknowledged and dropped.
+ *
+ * @example
+ * ```typescript
+ * const groups = new GroupClient(client)
+ * const team = await groups.createGroup({ name: 'Team', members: [bobKey, carolKey] })
+ * await groups.sendToGroup(team.groupId, 'Standup in 5')
+ *
+ * // On Bob's side
+ * const messages = await groups.sync()
+ * const members = await groups.getGroupMembers(messages[0].groupId)
+ * ```
+ */
+
+import { OriginatorDomainNameStringUnder250Bytes, Random, Utils, WalletInterface, WalletProtocol } from '@bsv/sdk'
+import type { MessageBoxClient } from './MessageBoxClient.js'
+import { MemoryGroupStore } from './GroupStores.js'
+import * as Logger from './Utils/logger.js'
+import { parseJsonBody } from './Utils/messageBody.js'
+import { Group, GroupAction, GroupMessage, GroupSendResult, GroupStore, GroupUpdate, PeerMessage } from './types.js'
+
+export const GROUP_UPDATE_CONTENT_TYPE = 'application/vnd.messagebox.group-update+json'
+export const GROUP_ID_HEADER = 'group-id'
+export const GROUP_PROTOCOL_ID: WalletProtocol = [1, 'messagebox group']
+
+const DEFAULT_GROUP_MESSAGEBOX = 'groups'
+const DEFAULT_UNKNOWN_GROUP_TIMEOUT = 24 * 60 * 60 * 1000
+// Envelope header that keeps identical messages distinct, since message IDs are derived from the body
+const SENT_AT_HEADER = 'sent-at'
+
+export interface GroupClientOptions {
+  /** Signs and verifies membership changes. Default: the MessageBoxClient's wallet. */
+  walletClient?: WalletInterface
+  /** Default: the MessageBoxClient's originator. */
+  originator?: OriginatorDomainNameStringUnder250Bytes
+  /** Message box used for group traffic. Default: `'groups'`. */
+  messageBox?: string
+  /** Where groups are kept. Default: a `MemoryGroupStore`. */
+  store?: GroupStore
+  /** Host override forwarded to the underlying client. */
+  host?: string
+  /**
+   * How long (ms) after it was sent a message for an unknown group is kept on the server before
+   * it is acknowledged and dropped. Default: one day.
+   */
+  unknownGroupTimeout?: number
+}
+
+/**
+ * The bytes a group update's signature covers.
+ */
+export function groupUpdateSigningData ({ groupId, action, name, owner, members, version, timestamp }: Omit<GroupUpdate, 'signature'>): number[] {
+  return Utils.toArray(JSON.stringify({ groupId, action, name: name ?? null, owner, members, version, timestamp }), 'utf8')
+}
+
+/**
+ * Returns true if the value has the shape of a `GroupUpdate`.
+ */
+export function isGroupUpdate (value: unknown): value is GroupUpdate {
+  const candidate = value as Partial<GroupUpdate>
+  return (
+    candidate != null &&
+    typeof candidate === 'object' &&
+    typeof candidate.groupId === 'string' &&
+    ['create', 'add', 'remove', 'leave'].includes(candidate.action as string) &&
+    (candidate.name == null || typeof candidate.name === 'string') &&
+    typeof candidate.owner === 'string' &&
+    Array.isArray(candidate.members) &&
+    candidate.members.every(member => typeof member === 'string') &&
+    typeof candidate.version === 'number' &&
+    typeof candidate.timestamp === 'number' &&
+    typeof candidate.signature === 'string'
+  )
+}
+
+export class GroupClient {
+  readonly messageBox: string
+  readonly store: GroupStore
+  private readonly host?: string
+  private readonly unknownGroupTimeout: number
+  private readonly walletClient: WalletInterface
+  private readonly originator?: OriginatorDomainNameStringUnder250Bytes
+  private queue: Promise<unknown> = Promise.resolve()
+
+  /**
+   * @param client - The MessageBoxClient used to send, list and acknowledge messages
+   * @param options - Wallet, message box, store and host settings
+   */
+  constructor (private readonly client: MessageBoxClient, options: GroupClientOptions = {}) {
+    this.walletClient = options.walletClient ?? client.getWalletClient()
+    this.originator = options.originator ?? client.getOriginator()
+    this.messageBox = options.messageBox ?? DEFAULT_GROUP_MESSAGEBOX
+    this.store = options.store ?? new MemoryGroupStore()
+    this.host = options.host
+    this.unknownGroupTimeout = options.unknownGroupTimeout ?? DEFAULT_UNKNOWN_GROUP_TIMEOUT
+  }
+
+  /**
+   * Creates a group owned by this client and announces it to the members.
+   */
+  async createGroup ({ name, members }: { name?: string, members: string[] }): Promise<Group> {
+    const me = await this.client.getIdentityKey()
+    const group: Group = {
+      groupId: Utils.toHex(Random(16)),
+      ...(name != null && { name }),
+      owner: me,
+      members: Array.from(new Set([me, ...members])),
+      version: 1,
+      updatedAt: Date.now()
+    }
+    if (group.members.length < 2) {
+      throw new Error('A group needs at least one member besides its owner')
+    }
+    await this.serialized(async () => await this.store.put(group))
+    await this.announce(group, 'create', othersIn(group, me))
+    return group
+  }
+
+  /**
+   * Adds members to a group this client owns. New members receive the full member list.
+   */
+  async addMembers (groupId: string, members: string[]): Promise<Group> {
+    return await this.serialized(async () => {
+      const { group, me } = await this.ownedGroup(groupId)
+      const added = Array.from(new Set(members)).filter(member => !group.members.includes(member))
+      if (added.length === 0) return group
+
+      const next = { ...group, members: [...group.members, ...added], version: group.version + 1, updatedAt: Date.now() }
+      await this.store.put(next)
+      await this.announce(next, 'add', othersIn(next, me))
+      return next
+    })
+  }
+
+  /**
+   * Removes members from a group this client owns. The removed members are told, so they drop
+   * the group, and stop receiving its messages.
+   */
+  async removeMembers (groupId: string, members: string[]): Promise<Group> {
+    return await this.serialized(async () => {
+      const { group, me } = await this.ownedGroup(groupId)
+      if (members.includes(me)) {
+        throw new Error('Use leaveGroup() to leave a group')
+      }
+      const removed = group.members.filter(member => members.includes(member))
+      if (removed.length === 0) return group
+
+      const next = { ...group, members: group.members.filter(member => !removed.includes(member)), version: group.version + 1, updatedAt: Date.now() }
+      await this.store.put(next)
+      await this.announce(next, 'remove', [...othersIn(next, me), ...removed])
+      return next
+    })
+  }
+
+  /**
+   * Leaves a group. Only a `left` record is kept, so messages still on their way are dropped.
+   */
+  async leaveGroup (groupId: string): Promise<void> {
+    await this.serialized(async () => {
+      const group = await this.requireGroup(groupId)
+      const me = await this.client.getIdentityKey()
+      const remaining = { ...group, members: othersIn(group, me) }
+      await this.announce(remaining, 'leave', remaining.members)
+      await this.store.put({ ...remaining, updatedAt: Date.now(), left: true })
+    })
+  }
+
+  /**
+   * Lists the groups this client is a member of.
+   */
+  async listGroups (): Promise<Group[]> {
+    return (await this.store.list()).filter(group => group.left !== true)
+  }
+
+  /**
+   * Returns the current members of a group, including this client.
+   */
+  async getGroupMembers (groupId: string): Promise<string[]> {
+    return (await this.requireGroup(groupId)).members
+  }
+
+  /**
+   * Sends a message to every other current member, encrypted to each of them.
+   */
+  async sendToGroup (groupId: string, body: string | Record<string, any>): Promise<GroupSendResult> {
+    const group = await this.requireGroup(groupId)
+    const headers = { [GROUP_ID_HEADER]: groupId, [SENT_AT_HEADER]: String(Date.now()) }
+    return await this.sendEach(othersIn(group, await this.client.getIdentityKey()), async recipient =>
+      await this.client.sendMessage({ recipient, messageBox: this.messageBox, body, headers }, this.host)
+    )
+  }
+
+  /**
+   * Fetches the group box, applies membership changes and acknowledges what it handled. Messages
+   * that could not be decrypted, or that belong to a group not known yet, stay on the server.
+   *
+   * @returns The group messages received from current members, oldest first
+   */
+  async sync (): Promise<GroupMessage[]> {
+    const listed = await this.client.listMessages({ messageBox: this.messageBox, host: this.host })
+    const received: GroupMessage[] = []
+    const handled: string[] = []
+    for (const message of listed) {
+      if (message.decryptFailed === true) continue
+      const { groupMessage, acknowledge } = await this.receive(message)
+      if (groupMessage != null) received.push(groupMessage)
+      if (acknowledge) handled.push(message.messageId)
+    }
+    if (handled.length > 0) {
+      await this.client.acknowledgeMessage({ messageIds: handled, host: this.host })
+    }
+    return received
+  }
+
+  /**
+   * Handles group traffic as it arrives over the WebSocket. Membership changes are applied and
+   * messages are acknowledged as in `sync()`; `onMessage` sees the group messages from current members.
+   */
+  async listen (onMessage: (message: GroupMessage) => void): Promise<void> {
+    await this.client.listenForLiveMessages({
+      messageBox: this.messageBox,
+      overrideHost: this.host,
+      onMessage: message => {
+        void (async () => {
+          if (message.decryptFailed === true) return
+          const { groupMessage, acknowledge } = await this.receive(message)
+          if (!acknowledge) return
+          try {
+            await this.client.acknowledgeMessage({ messageIds: [message.messageId], host: this.host })
+          } catch (error) {
+            Logger.error(`[MB CLIENT ERROR] Failed to acknowledge group message ${message.messageId}:`, error)
+          }
+          if (groupMessage != null) onMessage(groupMessage)
+        })()
+      }
+    })
+  }
+
+  /**
+   * Applies an update or checks a group message. `acknowledge` is false for recent messages of
+   * groups this client does not know, which are kept on the server.
+   */
+  private async receive (message: PeerMessage): Promise<{ groupMessage?: GroupMessage, acknowledge: boolean }> {
+    return await this.serialized(async () => {
+      if (message.contentType === GROUP_UPDATE_CONTENT_TYPE) {
+        await this.applyUpdate(message)
+        return { acknowledge: true }
+      }
+      const groupId = message.headers?.[GROUP_ID_HEADER]
+      const group = groupId != null ? await this.store.get(groupId) : undefined
+      if (groupId != null && group == null) {
+        if (Date.now() - Date.parse(message.created_at) > this.unknownGroupTimeout) {
+          Logger.warn(`[MB CLIENT] Dropping group message ${message.messageId} for group ${groupId}, which never became known`)
+          return { acknowledge: true }
+        }
+        Logger.warn(`[MB CLIENT] Leaving group message ${message.messageId} for unknown group ${groupId} on the server`)
+        return { acknowledge: false }
+      }
+      if (group?.left === true) {
+        Logger.log(`[MB CLIENT] Dropping group message ${message.messageId} for group ${group.groupId}, which this client left`)
+        return { acknowledge: true }
+      }
+      if (group == null || !group.members.includes(message.sender)) {
+        Logger.warn(`[MB CLIENT] Ignoring group message ${message.messageId} from someone who is not a member`)
+        return { acknowledge: true }
+      }
+      const groupMessage = { groupId: group.groupId, messageId: message.messageId, sender: message.sender, body: message.body, created_at: message.created_at }
+      return { groupMessage, acknowledge: true }
+    })
+  }
+
+  private async applyUpdate (message: PeerMessage): Promise<void> {
+    const update = typeof message.body === 'string' ? parseJsonBody(message.body) : message.body
+    if (!isGroupUpdate(update) || !(await this.verify(update, message.sender))) {
+      Logger.warn(`[MB CLIENT] Ignoring malformed or badly signed group update ${message.messageId}`)
+      return
+    }
+    const existing = await this.store.get(update.groupId)
+
+    if (update.action === 'leave') {
+      if (existing?.members.includes(message.sender) === true) {
+        await this.store.put({ ...existing, members: existing.members.filter(member => member !== message.sender), updatedAt: update.timestamp })
+      }
+      return
+    }
+    if (update.owner !== message.sender || (existing != null && (existing.owner !== message.sender || update.version <= existing.version))) {
+      Logger.warn(`[MB CLIENT] Ignoring ${update.action} update for group ${update.groupId} that is stale or not from its owner`)
+      return
+    }
+    // Updates the owner sent before this client left must not bring the group back
+    if (existing?.left === true && update.timestamp <= existing.updatedAt) {
+      Logger.log(`[MB CLIENT] Ignoring ${update.action} update for group ${update.groupId}, which this client left`)
+      return
+    }
+    // A member removed by the owner keeps a `left` record; a later update that adds them back replaces it
+    const removed = !update.members.includes(await this.client.getIdentityKey())
+    await this.store.put({
+      groupId: update.groupId,
+      ...(update.name != null && { name: update.name }),
+      owner: update.owner,
+      members: update.members,
+      version: update.version,
+      updatedAt: update.timestamp,
+      ...(removed && { left: true })
+    })
+  }
+
+  private async verify (update: GroupUpdate, sender: string): Promise<boolean> {
+    try {
+      const { valid } = await this.walletClient.verifySignature({
+        data: groupUpdateSigningData(update),
+        signature: Utils.toArray(update.signature, 'hex'),
+        protocolID: GROUP_PROTOCOL_ID,
+        keyID: '1',
+        counterparty: sender
+      }, this.originator)
+      return valid
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Signs the membership change for each recipient and sends it. Failed deliveries are logged;
+   * the member catches up with the owner's next update.
+   */
+  private async announce (group: Group, action: GroupAction, recipients: string[]): Promise<void> {
+    const timestamp = Date.now()
+    const unsigned: Omit<GroupUpdate, 'signature'> = {
+      groupId: group.groupId,
+      action,
+      ...(group.name != null && { name: group.name }),
+      owner: group.owner,
+      members: group.members,
+      version: group.version,
+      timestamp
+    }
+    const { failed } = await this.sendEach(recipients, async recipient => {
+      const { signature } = await this.walletClient.createSignature({
+        data: groupUpdateSigningData(unsigned),
+        protocolID: GROUP_PROTOCOL_ID,
+        keyID: '1',
+        counterparty: recipient
+      }, this.originator)
+      return await this.client.sendMessage({
+        recipient,
+        messageBox: this.messageBox,
+        body: { ...unsigned, signature: Utils.toHex(signature) },
+        contentType: GROUP_UPDATE_CONTENT_TYPE
+      }, this.host)
+    })
+    for (const { recipient, error } of failed) {
+      Logger.warn(`[MB CLIENT] Failed to send ${action} update for group ${group.groupId} to ${recipient}: ${error}`)
+    }
+  }
+
+  private async sendEach (recipients: string[], send: (recipient: string) => Promise<{ messageId: string }>): Promise<GroupSendResult> {
+    const result: GroupSendResult = { sent: [], failed: [] }
+    await Promise.all(recipients.map(async recipient => {
+      try {
+        const { messageId } = await send(recipient)
+        result.sent.push({ recipient, messageId })
+      } catch (error) {
+        result.failed.push({ recipient, error: error instanceof Error ? error.message : String(error) })
+      }
+    }))
+    return result
+  }
+
+  private async requireGroup (groupId: string): Promise<Group> {
+    const group = await this.store.get(groupId)
+    if (group == null || group.left === true) {
+      throw new Error(`Unknown group ${groupId}`)
+    }
+    return group
+  }
+
+  private async ownedGroup (groupId: string): Promise<{ group: Group, me: string }> {
+    const group = await this.requireGroup(groupId)
+    const me = await this.client.getIdentityKey()
+    if (group.owner !== me) {
+      throw new Error('Only the group owner can change its members')
+    }
+    return { group, me }
+  }
+
+  /**
+   * Runs store read-modify-write steps one at a time, so concurrent changes cannot overwrite each other.
+   */
+  private async serialized<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(run)
+    this.queue = result.catch(() => {})
+    return await result
+  }
+}
+
+function othersIn (group: Group, me: string): string[] {
+  return group.members.filter(member => member !== me)
+}
@@ -0,0 +1,88 @@
+/**
+ * Storage backends for `GroupClient`.
+ *
+ * - `MemoryGroupStore` keeps groups for the lifetime of the process.
+ * - `FileGroupStore` persists groups to a JSON file (Node.js only).
+ */
+
+import { Group, GroupStore } from './types.js'
+import { readJsonFile, writeJsonFile } from './Utils/jsonFile.js'
+
+export class MemoryGroupStore implements GroupStore {
+  private readonly groups: Map<string, Group> = new Map()
+
+  async get (groupId: string): Promise<Group | undefined> {
+    const group = this.groups.get(groupId)
+    return group != null ? { ...group, members: [...group.members] } : undefined
+  }
+
+  async put (group: Group): Promise<void> {
+    this.groups.set(group.groupId, { ...group, members: [...group.members] })
+  }
+
+  async delete (groupId: string): Promise<void> {
+    this.groups.delete(groupId)
+  }
+
+  async list (): Promise<Group[]> {
+    return Array.from(this.groups.values(), group => ({ ...group, members: [...group.members] }))
+  }
+}
+
+/**
+ * Keeps all groups in a single JSON file. The file is loaded on first use and rewritten
+ * after every change; writes are serialized so concurrent updates cannot interleave.
+ */
+export class FileGroupStore implements GroupStore {
+  private readonly memory = new MemoryGroupStore()
+  private loaded?: Promise<void>
+  private writing: Promise<void> = Promise.resolve()
+
+  /**
+   * @param {string} filePath - Path of the JSON file. It is created on the first write.
+   */
+  constructor (private readonly filePath: string) {}
+
+  async get (groupId: string): Promise<Group | undefined> {
+    await this.load()
+    return await this.memory.get(groupId)
+  }
+
+  async put (group: Group): Promise<void> {
+    await this.load()
+    await this.memory.put(group)
+    await this.save()
+  }
+
+  async delete (groupId: string): Promise<void> {
+    await this.load()
+    await this.memory.delete(groupId)
+    await this.save()
+  }
+
+  async list (): Promise<Group[]> {
+    await this.load()
+    return await this.memory.list()
+  }
+
+  private async load (): Promise<void> {
+    if (this.loaded == null) {
+      this.loaded = (async () => {
+        const groups = await readJsonFile<Group[]>(this.filePath, [])
+        for (const group of groups) {
+          await this.memory.put(group)
+        }
+      })()
+    }
+    await this.loaded
+  }
+
+  private async save (): Promise<void> {
+    const write = this.writing.then(async () => {
+      await writeJsonFile(this.filePath, await this.memory.list())
+    })
+    // A failed write must not block later ones; the caller still sees the error
+    this.writing = write.catch(() => {})
+    await write
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Identity resolvers for the client's `identities` option.
+ *
+ * - `CertificateIdentityResolver` discovers the identity certificates revealed for a key through
+ *   the wallet and reads them with the SDK's `IdentityClient`.
+ * - `StaticIdentityResolver` answers from a fixed list, for tests and local development.
+ * - `CachedIdentityResolver` wraps either and remembers answers for a while.
+ */
+
+import { IdentityClient, KNOWN_IDENTITY_TYPES, OriginatorDomainNameStringUnder250Bytes, WalletInterface } from '@bsv/sdk'
+import { setBounded } from './Utils/boundedMap.js'
+import { IdentityResolver, SenderIdentity } from './types.js'
+
+const DEFAULT_CACHE_TTL = 60 * 60 * 1000
+const CACHE_LIMIT = 1000
+
+export class CertificateIdentityResolver implements IdentityResolver {
+  constructor (
+    private readonly wallet: WalletInterface,
+    private readonly originator?: OriginatorDomainNameStringUnder250Bytes
+  ) {}
+
+  /**
+   * Shows the attributes certified by the most trusted certifier, plus the address of any
+   * revealed email certificate.
+   *
+   * @returns `undefined` if no certificates were revealed for the key.
+   */
+  async resolve (identityKey: string): Promise<SenderIdentity | undefined> {
+    const { certificates } = await this.wallet.discoverByIdentityKey({ identityKey, limit: 10 }, this.originator)
+    if (certificates.length === 0) return undefined
+
+    const [best] = [...certificates].sort((a, b) => b.certifierInfo.trust - a.certifierInfo.trust)
+    const displayable = IdentityClient.parseIdentity(best)
+    const email = certificates.find(certificate => certificate.type === KNOWN_IDENTITY_TYPES.emailCert)?.decryptedFields.email
+    return {
+      identityKey,
+      name: displayable.name,
+      ...(displayable.avatarURL !== '' && { avatarURL: displayable.avatarURL }),
+      ...(email != null && { email }),
+      certifier: best.certifierInfo.name,
+      badgeLabel: displayable.badgeLabel,
+      badgeIconURL: displayable.badgeIconURL
+    }
+  }
+}
+
+export class StaticIdentityResolver implements IdentityResolver {
+  private readonly identities: Map<string, SenderIdentity>
+
+  constructor (identities: SenderIdentity[]) {
+    this.identities = new Map(identities.map(identity => [identity.identityKey, identity]))
+  }
+
+  async resolve (identityKey: string): Promise<SenderIdentity | undefined> {
+    const identity = this.identities.get(identityKey)
+    return identity != null ? { ...identity } : undefined
+  }
+}
+
+/**
+ * Remembers what another resolver said about each key for `ttl` ms, including that it found
+ * nothing. Concurrent lookups of one key share a request; failed lookups are not remembered.
+ */
+export class CachedIdentityResolver implements IdentityResolver {
+  private readonly entries: Map<string, { identity: Promise<SenderIdentity | undefined>, expiresAt: number }> = new Map()
+
+  /**
+   * @param {IdentityResolver} resolver - The resolver to ask on a cache miss.
+   * @param {number} [ttl=3600000] - How long (ms) an answer is kept.
+   */
+  constructor (private readonly resolver: IdentityResolver, private readonly ttl = DEFAULT_CACHE_TTL) {}
+
+  async resolve (identityKey: string): Promise<SenderIdentity | undefined> {
+    const cached = this.entries.get(identityKey)
+    if (cached != null && cached.expiresAt > Date.now()) return await cached.identity
+
+    const identity = this.resolver.resolve(identityKey)
+    setBounded(this.entries, identityKey, { identity, expiresAt: Date.now() + this.ttl }, CACHE_LIMIT)
+    identity.catch(() => {
+      if (this.entries.get(identityKey)?.identity === identity) this.entries.delete(identityKey)
+    })
+    return await identity
+  }
+
+  /**
+   * Forgets one key, or everything.
+   */
+  clear (identityKey?: string): void {
+    if (identityKey != null) {
+      this.entries.delete(identityKey)
+    } else {
+      this.entries.clear()
+    }
+  }
+}
@@ -36,6 +36,8 @@ import {
   CreateActionOutput,
   WalletInterface,
   ProtoWallet,
+  CompletedProtoWallet,
+  PrivateKey,
   InternalizeOutput,
   Random,
   OriginatorDomainNameStringUnder250Bytes,
@@ -43,7 +45,33 @@ import {
 } from '@bsv/sdk'
 import { AuthSocketClient } from '@bsv/authsocket-client'
 import * as Logger from './Utils/logger.js'
-import { AcknowledgeMessageParams, AdvertisementToken, EncryptedMessage, ListMessagesParams, MessageBoxClientOptions, Payment, PeerMessage, SendMessageParams, SendMessageResponse, DeviceRegistrationParams, DeviceRegistrationResponse, RegisteredDevice, ListDevicesResponse } from './types.js'
+import { CatchUpStream } from './Utils/catchUpStream.js'
+import { selectMessagePage } from './Utils/messagePaging.js'
+import { encryptedPayload, LEGACY_KEY_ID, parseJsonBody, serializeBody, unwrapStoredBody } from './Utils/messageBody.js'
+import { applyEnvelope, compressEnvelope, createEnvelope, decodeEnvelope, encodeEnvelope, ENVELOPE_SIGNATURE_PROTOCOL_ID, envelopeSigningData, inflateEnvelope, isMessageExpired, MessageEnvelope } from './MessageEnvelope.js'
+import { MessageBoxRegistry, TypedMessageBox } from './MessageBoxRegistry.js'
+import { DEFAULT_MAX_INFLATED_SIZE } from './Utils/compression.js'
+import {
+  RECEIPT_CONTENT_TYPE,
+  RECEIPT_PROTOCOL_ID,
+  RECEIPT_REQUESTED_HEADER,
+  RECEIPTS_MESSAGEBOX,
+  ReceiptTracker,
+  isMessageReceipt,
+  receiptSigningData,
+  requestsReceipt
+} from './MessageReceipts.js'
+import { CONTROL_CONTENT_TYPE, CONTROL_PROTOCOL_ID, controlSigningData, isMessageControl } from './MessageControl.js'
+import { setBounded } from './Utils/boundedMap.js'
+import { padBody, PaddingPolicy, resolvePadding } from './Utils/padding.js'
+import { isSealedSenderPayload, SEALED_SENDER_MARKER, SEALED_SENDER_PROTOCOL_ID, sealedSenderSigningData } from './SealedSender.js'
+import { MemoryReplayCache } from './ReplayCaches.js'
+import type { ContactBook } from './ContactBook.js'
+import { CachedIdentityResolver, CertificateIdentityResolver } from './IdentityResolvers.js'
+import { AcknowledgeMessageParams, AdvertisementToken, ConnectionState, ListMessagesParams, MessageBoxClientOptions, Payment, PeerMessage, SendMessageParams, SendMessageResponse, DeviceRegistrationParams, DeviceRegistrationResponse, RegisteredDevice, ListDevicesResponse, SubscribeOptions, MessagePage, PayloadValidator, BoxDefinitionOptions, CompressionFormat, CompressionOptions, DeliveryStatus, EphemeralSignal, KeyRotationOptions, MessageControl, MessageReceipt, OutboxEntry, ReceiptStatus, ReceivedReceipt, ReplayProtectionOptions, SenderIdentity } from './types.js'
+import { ReconnectionManager } from './ReconnectionManager.js'
+import { MessageSubscription } from './MessageSubscription.js'
+import { MessageOutbox, OutboxSubmission } from './MessageOutbox.js'
 import {
   SetMessageBoxPermissionParams,
   GetMessageBoxPermissionParams,
@@ -58,6 +86,17 @@ import {
 
 const DEFAULT_MAINNET_HOST = 'https://message-box-us-1.bsvb.tech'
 const DEFAULT_TESTNET_HOST = DEFAULT_MAINNET_HOST
+// How many recently sent and received messages are remembered for edits and retractions
+const RECENT_MESSAGE_LIMIT = 1000
+// How long (ms) a listing is reused for the later pages of a cursor chain, and how many chains are kept
+const LISTING_SNAPSHOT_TTL = 60 * 1000
+const LISTING_SNAPSHOT_LIMIT = 16
+// Message box rooms start with an identity key, so rooms with this prefix cannot collide with them
+const EPHEMERAL_ROOM_PREFIX = 'ephemeral:'
+
+function ephemeralRoomId(identityKey: string, channel: string): string {
+  return `${EPHEMERAL_ROOM_PREFIX}${identityKey}:${channel}`
+}
 
 /**
  * @class MessageBoxClient
@@ -69,9 +108,11 @@ const DEFAULT_TESTNET_HOST = DEFAULT_MAINNET_HOST
  * - Identity-authenticated message transport (BRC-2)
  * - AES-256-GCM end-to-end encryption with BRC-42/BRC-43 key derivation
  * - HMAC-based message ID generation for deduplication
- * - Live WebSocket messaging with room-based subscription management
+ * - Live WebSocket messaging with room-based subscription management, as callbacks or async iterables
+ * - Optional automatic reconnection with exponential backoff and room restoration
  * - Overlay network discovery and host advertisement broadcasting (SHIP protocol)
  * - Fallback to HTTP messaging when WebSocket is unavailable
+ * - Optional persistent outbox that retries undelivered messages
  *
  * **Important:**
  * The MessageBoxClient automatically calls `await init()` if needed.
@@ -98,6 +139,37 @@ export class MessageBoxClient {
   private initialized = false
   private socketAuthenticated = false
   private connectionInitPromise?: Promise<void>
+  private socketHost?: string
+  private connectionState: ConnectionState = 'closed'
+  private readonly connectionStateListeners: Set<(state: ConnectionState) => void> = new Set()
+  private readonly socketListeners: Map<string, Set<(data: any) => void>> = new Map()
+  private readonly reconnectionManager?: ReconnectionManager
+  /** Persistent outbox used by `sendMessage()` when the `outbox` option is enabled. */
+  public readonly outbox?: MessageOutbox
+  /** Payload validators for boxes declared with `defineBox()`, and their quarantine store. */
+  public readonly boxes: MessageBoxRegistry
+  private readonly compression?: Required<CompressionOptions>
+  private readonly maxInflatedSize: number
+  private readonly receipts: ReceiptTracker = new ReceiptTracker()
+  private readonly sendsReceipts: boolean
+  private readonly keyRotation?: Required<KeyRotationOptions>
+  private readonly padding?: PaddingPolicy
+  private readonly sealsSender: boolean
+  private readonly signsPlaintext: boolean
+  /** Where recently sent messages went, so `editMessage()` and `retractMessage()` can follow them. */
+  private readonly sentMessages: Map<string, Pick<OutboxEntry, 'recipient' | 'messageBox' | 'host'>> = new Map()
+  /** Senders of recently received messages, to check who may edit or retract them. */
+  private readonly seenSenders: Map<string, string> = new Map()
+  private readonly replayProtection?: Required<ReplayProtectionOptions>
+  /** Replay cache keys of the nonces of recently received messages, recorded when they are acknowledged. */
+  private readonly seenNonces: Map<string, string> = new Map()
+  /** Annotates received messages with their sender's contact and supplies preferred hosts. */
+  public readonly contacts?: ContactBook
+  private readonly identityResolver?: CachedIdentityResolver
+  /** One-time keys of sealed messages awaiting delivery, by messageId. Never written to the outbox store. */
+  private readonly sealingKeys: Map<string, PrivateKey> = new Map()
+  /** Merged listings of recent cursor chains, keyed by box, host and the cursor that continues them. */
+  private readonly listingSnapshots: Map<string, { messages: PeerMessage[], expiresAt: number }> = new Map()
   protected originator?: OriginatorDomainNameStringUnder250Bytes
   /**
    * @constructor
@@ -106,6 +178,16 @@ export class MessageBoxClient {
    * @param {WalletInterface} options.walletClient - Wallet instance used for authentication, signing, and encryption.
    * @param {boolean} [options.enableLogging=false] - Whether to enable detailed debug logging to the console.
    * @param {'local' | 'mainnet' | 'testnet'} [options.networkPreset='mainnet'] - Overlay network preset used for routing and advertisement lookup.
+   * @param {boolean | ReconnectOptions} [options.reconnect=false] - Enables automatic WebSocket reconnection with exponential backoff.
+   * @param {boolean | OutboxOptions} [options.outbox=false] - Queues messages that cannot be delivered yet and retries them with backoff.
+   * @param {MessageStore} [options.quarantineStore] - Keeps received messages quarantined by `defineBox()` validators.
+   * @param {boolean | CompressionOptions} [options.compression=false] - Compresses large bodies before encryption by default.
+   * @param {number} [options.maxInflatedSize=16777216] - Largest size a received compressed body may inflate to.
+   * @param {boolean} [options.receipts=false] - Sends signed delivery and read receipts for messages that request them.
+   * @param {boolean} [options.signPlaintext=false] - Signs every `skipEncryption` body, not only those sent as envelopes.
+   * @param {boolean | ReplayProtectionOptions} [options.replayProtection=false] - Drops messages that were already processed or are stale.
+   * @param {ContactBook} [options.contacts] - Sets `contact` on received messages and routes to contacts' preferred hosts.
+   * @param {boolean | IdentityResolutionOptions} [options.identities=false] - Sets `senderIdentity` on received messages from identity certificates.
    *
    * @description
    * Constructs a new MessageBoxClient.
@@ -129,7 +211,20 @@ export class MessageBoxClient {
       walletClient,
       enableLogging = false,
       networkPreset = 'mainnet',
-      originator = undefined
+      originator = undefined,
+      reconnect = false,
+      outbox = false,
+      quarantineStore,
+      compression = false,
+      maxInflatedSize = DEFAULT_MAX_INFLATED_SIZE,
+      receipts = false,
+      keyRotation = false,
+      padding = false,
+      sealedSender = false,
+      signPlaintext = false,
+      replayProtection = false,
+      contacts,
+      identities = false
     } = options
 
     const defaultHost =
@@ -147,6 +242,61 @@ export class MessageBoxClient {
       networkPreset
     })
 
+    if (reconnect !== false) {
+      this.reconnectionManager = new ReconnectionManager(reconnect === true ? {} : reconnect)
+    }
+
+    if (outbox !== false) {
+      this.outbox = new MessageOutbox(async (entry) => await this.postMessage(entry), outbox === true ? {} : outbox)
+    }
+
+    this.boxes = new MessageBoxRegistry(quarantineStore)
+
+    if (compression !== false) {
+      const { format = 'gzip', minSize = 1024 } = compression === true ? {} : compression
+      this.compression = { format, minSize }
+    }
+    if (!(maxInflatedSize > 0)) {
+      throw new Error('maxInflatedSize must be a positive number')
+    }
+    this.maxInflatedSize = maxInflatedSize
+
+    this.sendsReceipts = receipts
+
+    if (keyRotation !== false) {
+      const { mode = 'message', epochLength = 24 * 60 * 60 * 1000 } = keyRotation === true ? {} : keyRotation
+      if (!(epochLength > 0)) {
+        throw new Error('Key rotation epochLength must be a positive number of milliseconds')
+      }
+      this.keyRotation = { mode, epochLength }
+    }
+
+    if (padding !== false) {
+      this.padding = resolvePadding(padding)
+    }
+
+    this.sealsSender = sealedSender
+    this.signsPlaintext = signPlaintext
+
+    if (replayProtection !== false) {
+      const {
+        cache = new MemoryReplayCache(),
+        maxAge = 7 * 24 * 60 * 60 * 1000,
+        maxClockSkew = 5 * 60 * 1000
+      } = replayProtection === true ? {} : replayProtection
+      if (!(maxAge > 0) || !(maxClockSkew >= 0)) {
+        throw new Error('Replay protection maxAge must be positive and maxClockSkew not negative')
+      }
+      this.replayProtection = { cache, maxAge, maxClockSkew }
+    }
+
+    this.contacts = contacts
+
+    if (identities !== false) {
+      const { resolver = new CertificateIdentityResolver(this.walletClient, originator), cacheTtl } = identities === true ? {} : identities
+      this.identityResolver = new CachedIdentityResolver(resolver, cacheTtl)
+    }
+
     if (enableLogging) {
       Logger.enable()
     }
@@ -193,6 +343,9 @@ export class MessageBoxClient {
     // Verify wallet is reachable
     await this.getIdentityKey()
     this.initialized = true
+
+    // Resume delivery of anything a previous run left in a persistent outbox
+    await this.outbox?.start()
   }
 
   /**
@@ -223,6 +376,68 @@ export class MessageBoxClient {
     return this.joinedRooms
   }
 
+  /**
+   * @method resolveIdentity
+   * @param {string} identityKey - Any identity key, e.g. a message's `sender`.
+   * @returns {Promise<SenderIdentity | undefined>} Its certified attributes, or `undefined` if none were found.
+   *
+   * @description
+   * Looks up who an identity key belongs to with the resolver of the `identities` option.
+   * Answers are cached, so inbox UIs can call this freely.
+   *
+   * @throws {Error} If the client was created without the `identities` option, or the lookup fails.
+   */
+  async resolveIdentity(identityKey: string): Promise<SenderIdentity | undefined> {
+    if (this.identityResolver == null) {
+      throw new Error('Identity resolution is not enabled; create the client with the `identities` option')
+    }
+    return await this.identityResolver.resolve(identityKey)
+  }
+
+  /**
+   * @method attachSenderIdentities
+   * @private
+   * @description
+   * Sets `senderIdentity` on received messages, resolving each sender once. Failed lookups are
+   * logged and leave the messages without one.
+   */
+  private async attachSenderIdentities(messages: PeerMessage[]): Promise<void> {
+    const resolver = this.identityResolver
+    if (resolver == null) return
+    const senders = Array.from(new Set(messages.map(message => message.sender)))
+    const identities = new Map<string, SenderIdentity | undefined>()
+    await this.mapWithConcurrency(senders, 4, async (sender) => {
+      try {
+        identities.set(sender, await resolver.resolve(sender))
+      } catch (error) {
+        Logger.warn(`[MB CLIENT] Could not resolve the identity of ${sender}:`, error)
+      }
+      return null
+    })
+    for (const message of messages) {
+      const identity = identities.get(message.sender)
+      if (identity != null) message.senderIdentity = identity
+    }
+  }
+
+  /**
+   * @method getWalletClient
+   * @returns {WalletInterface} The wallet this client authenticates, signs and encrypts with.
+   * @description
+   * Lets helpers built on the client, such as `GroupClient`, sign as the same identity.
+   */
+  getWalletClient(): WalletInterface {
+    return this.walletClient
+  }
+
+  /**
+   * @method getOriginator
+   * @returns {OriginatorDomainNameStringUnder250Bytes | undefined} The originator passed to wallet calls.
+   */
+  getOriginator(): OriginatorDomainNameStringUnder250Bytes | undefined {
+    return this.originator
+  }
+
   /**
  * @method getIdentityKey
  * @param {string} [originator] - Optional originator to use for identity key lookup
@@ -263,6 +478,150 @@ export class MessageBoxClient {
     return this.socket
   }
 
+  /**
+   * @method getConnectionState
+   * @returns {ConnectionState} The current state of the live WebSocket connection.
+   * @description
+   * Returns one of `connecting`, `authenticated`, `reconnecting` or `closed`.
+   * Use `onConnectionStateChange()` to be notified when it changes.
+   */
+  public getConnectionState(): ConnectionState {
+    return this.connectionState
+  }
+
+  /**
+   * @method onConnectionStateChange
+   * @param {function} listener - Called with the new state every time the connection state changes.
+   * @returns {() => void} A function that removes the listener.
+   *
+   * @description
+   * Subscribes to WebSocket connection state transitions. This is intended for UIs that need to
+   * show when live messaging is offline or recovering.
+   *
+   * @example
+   * const off = client.onConnectionStateChange(state => {
+   *   setOfflineBanner(state !== 'authenticated')
+   * })
+   * // later
+   * off()
+   */
+  public onConnectionStateChange(listener: (state: ConnectionState) => void): () => void {
+    this.connectionStateListeners.add(listener)
+    return () => {
+      this.connectionStateListeners.delete(listener)
+    }
+  }
+
+  /**
+   * @method setConnectionState
+   * @private
+   * @description
+   * Records a connection state transition and notifies listeners. Listener errors are logged
+   * and never interrupt the connection flow.
+   */
+  private setConnectionState(state: ConnectionState): void {
+    if (this.connectionState === state) return
+    Logger.log(`[MB CLIENT] Connection state: ${this.connectionState} -> ${state}`)
+    this.connectionState = state
+    for (const listener of Array.from(this.connectionStateListeners)) {
+      try {
+        listener(state)
+      } catch (error) {
+        Logger.error('[MB CLIENT ERROR] Connection state listener threw:', error)
+      }
+    }
+  }
+
+  /**
+   * @method addSocketListener
+   * @private
+   * @param {string} eventName - The socket event to listen for (e.g. `sendMessage-${roomId}`).
+   * @param {function} handler - Invoked with the event payload.
+   * @returns {() => void} A function that removes the handler.
+   *
+   * @description
+   * Registers a socket event handler with the client rather than with a specific socket instance.
+   * Each socket the client creates gets a single dispatcher per event name, so handlers survive
+   * reconnection and can be removed even though `AuthSocketClient` has no `off()`.
+   */
+  private addSocketListener(eventName: string, handler: (data: any) => void): () => void {
+    let handlers = this.socketListeners.get(eventName)
+    if (handlers == null) {
+      handlers = new Set()
+      this.socketListeners.set(eventName, handlers)
+      if (this.socket != null) {
+        this.attachSocketDispatcher(this.socket, eventName)
+      }
+    }
+    handlers.add(handler)
+    const registered = handlers
+    return () => {
+      registered.delete(handler)
+    }
+  }
+
+  private attachSocketDispatcher(socket: ReturnType<typeof AuthSocketClient>, eventName: string): void {
+    socket.on(eventName, (data) => {
+      const handlers = this.socketListeners.get(eventName)
+      if (handlers == null) return
+      for (const handler of Array.from(handlers)) {
+        handler(data)
+      }
+    })
+  }
+
+  /**
+   * @method restoreJoinedRooms
+   * @private
+   * @description
+   * Re-emits `joinRoom` for every tracked room. The server forgets room membership when a
+   * socket drops, so this runs each time a socket finishes authenticating.
+   */
+  private restoreJoinedRooms(): void {
+    this.joinedRooms.forEach(roomId => {
+      Logger.log(`[MB CLIENT] Re-joining WebSocket room: ${roomId}`)
+      this.socket?.emit('joinRoom', roomId)
+    })
+  }
+
+  /**
+   * @method handleSocketDisconnect
+   * @private
+   * @param {boolean} wasAuthenticated - Whether the dropped socket had completed authentication.
+   * @description
+   * Reacts to an unexpected disconnect of the active socket. When reconnection is enabled and the
+   * socket had been authenticated, a backoff loop rebuilds the connection and restores rooms.
+   */
+  private handleSocketDisconnect(wasAuthenticated: boolean): void {
+    if (this.reconnectionManager == null) {
+      this.setConnectionState('closed')
+      return
+    }
+
+    // A failed attempt inside an active reconnection loop is retried by the loop itself
+    if (!wasAuthenticated && this.connectionState !== 'reconnecting') {
+      this.setConnectionState('closed')
+      return
+    }
+
+    this.setConnectionState('reconnecting')
+    this.reconnectionManager.start(async () => {
+      try {
+        await this.initializeConnection(this.socketHost)
+      } catch (error) {
+        // Discard the half-open socket so the next attempt starts from scratch
+        const staleSocket = this.socket
+        this.socket = undefined
+        this.socketAuthenticated = false
+        staleSocket?.disconnect()
+        throw error
+      }
+    }, () => {
+      Logger.warn('[MB CLIENT] Giving up on WebSocket reconnection')
+      this.setConnectionState('closed')
+    })
+  }
+
   /**
    * @method initializeConnection
    * @param {string} [originator] - Optional originator to use for authentication.
@@ -315,7 +674,12 @@ export class MessageBoxClient {
       if (typeof targetHost !== 'string' || targetHost.trim() === '') {
         throw new Error('Cannot initialize WebSocket: No valid host provided')
       }
-      this.socket = AuthSocketClient(targetHost, { wallet: this.walletClient, originator: this.originator })
+      const socket = AuthSocketClient(targetHost, { wallet: this.walletClient, originator: this.originator })
+      this.socket = socket
+      this.socketHost = targetHost
+      if (this.connectionState !== 'reconnecting') {
+        this.setConnectionState('connecting')
+      }
 
       this.socket.on('connect', () => {
         Logger.log('[MB CLIENT] Connected to WebSocket.')
@@ -332,6 +696,10 @@ export class MessageBoxClient {
       this.socket.on('authenticationSuccess', (data) => {
         Logger.log(`[MB CLIENT] WebSocket authentication successful: ${JSON.stringify(data)}`)
         this.socketAuthenticated = true
+        if (this.socket === socket) {
+          this.restoreJoinedRooms()
+          this.setConnectionState('authenticated')
+        }
       })
 
       // Handle authentication failures
@@ -342,13 +710,24 @@ export class MessageBoxClient {
 
       this.socket.on('disconnect', () => {
         Logger.log('[MB CLIENT] Disconnected from MessageBox server')
+        // Ignore late events from sockets that have already been replaced or closed
+        if (this.socket !== socket) return
+        const wasAuthenticated = this.socketAuthenticated
         this.socket = undefined
         this.socketAuthenticated = false
+        // Stop socket.io from reviving this instance; reconnection always builds a fresh socket
+        socket.disconnect()
+        this.handleSocketDisconnect(wasAuthenticated)
       })
 
       this.socket.on('error', (error) => {
         Logger.error('[MB CLIENT ERROR] WebSocket error:', error)
       })
+
+      // Re-attach live message handlers registered on previous sockets
+      for (const eventName of this.socketListeners.keys()) {
+        this.attachSocketDispatcher(socket, eventName)
+      }
     }
 
     if (this.socket?.connected && !this.socketAuthenticated) {
@@ -373,6 +752,7 @@ export class MessageBoxClient {
           socketAny.off('disconnect', onDisconnectBeforeAuth)
         }
         this.connectionInitPromise = undefined
+        this.setConnectionState('authenticated')
         Logger.log('[MB CLIENT] WebSocket fully authenticated and ready!')
         resolve()
       }
@@ -390,6 +770,9 @@ export class MessageBoxClient {
           socketAny.off('disconnect', onDisconnectBeforeAuth)
         }
         this.connectionInitPromise = undefined
+        if (this.connectionState !== 'reconnecting') {
+          this.setConnectionState('closed')
+        }
         reject(error)
       }
 
@@ -441,6 +824,7 @@ export class MessageBoxClient {
    *
    * If no advertisements are found, or if resolution fails, the client will fall back
    * to its own configured `host`. This allows seamless operation in both overlay and non-overlay environments.
+   * A `preferredHost` saved for the identity in the client's `contacts` takes precedence over both.
    *
    * This method guarantees a non-null return value and should be used directly when routing messages.
    *
@@ -448,6 +832,8 @@ export class MessageBoxClient {
    * const host = await resolveHostForRecipient('028d...') // → returns either overlay host or this.host
    */
   async resolveHostForRecipient(identityKey: string): Promise<string> {
+    const preferredHost = (await this.contacts?.getContact(identityKey))?.preferredHost
+    if (preferredHost != null) return preferredHost
     const advertisementTokens = await this.queryAdvertisements(identityKey, undefined)
     if (advertisementTokens.length === 0) {
       Logger.warn(`[MB CLIENT] No advertisements for ${identityKey}, using default host ${this.host}`)
@@ -564,8 +950,16 @@ export class MessageBoxClient {
       throw new Error('[MB CLIENT ERROR] Identity key is not defined')
     }
 
-    const roomId = `${this.myIdentityKey ?? ''}-${messageBox}`
+    await this.joinRoomId(`${this.myIdentityKey ?? ''}-${messageBox}`)
+  }
 
+  /**
+   * @method joinRoomId
+   * @private
+   * @description
+   * Joins a room by its full ID, once. The socket must already be connected.
+   */
+  private async joinRoomId(roomId: string): Promise<void> {
     if (this.joinedRooms.has(roomId)) {
       Logger.log(`[MB CLIENT] Already joined WebSocket room: ${roomId}`)
       return
@@ -581,12 +975,146 @@ export class MessageBoxClient {
     }
   }
 
+  /**
+   * @method defineBox
+   * @param {string} messageBox - The message box name.
+   * @param {PayloadValidator<T>} validator - Runtime check for the box's payloads; a type guard can be passed as-is.
+   * @param {BoxDefinitionOptions} [options] - `onInvalid`: `'reject'` (default) or `'quarantine'`.
+   * @returns {TypedMessageBox<T>} A typed handle for sending to, listing and listening on the box.
+   *
+   * @description
+   * Declares the payload schema of a message box. The client then enforces it everywhere:
+   *
+   * - `sendMessage()`, `sendLiveMessage()` and `sendMesagetoRecepients()` throw for payloads that fail validation.
+   * - `listMessages()`, `listMessagesPage()`, live listeners and subscriptions drop received messages that fail
+   *   validation. They are acknowledged on the server and, with `onInvalid: 'quarantine'`, first copied to the
+   *   client's quarantine store (see `TypedMessageBox.listQuarantined()`).
+   *
+   * String bodies are parsed as JSON before validation. Because invalid messages are removed after a page
+   * is selected, a page can hold fewer than `limit` messages.
+   *
+   * @example
+   * const orders = client.defineBox<OrderEvent>('orders', isOrderEvent, { onInvalid: 'quarantine' })
+   * await orders.send({ recipient, body: { sku: 'A1', quantity: 2 } })
+   * const events = await orders.list()
+   */
+  defineBox<T>(messageBox: string, validator: PayloadValidator<T>, options?: BoxDefinitionOptions): TypedMessageBox<T> {
+    this.boxes.define(messageBox, validator, options)
+    return new TypedMessageBox<T>(this, messageBox)
+  }
+
+  /**
+   * @method handleInvalidMessages
+   * @private
+   * @description
+   * Applies a box's `onInvalid` policy to received messages that failed validation: quarantined
+   * messages are stored first, then all of them are acknowledged so they are not delivered again.
+   * Failures are logged; the messages stay on the server and are screened again on the next read.
+   */
+  private async handleInvalidMessages(messageBox: string, messages: PeerMessage[], host?: string): Promise<void> {
+    const policy = this.boxes.policyFor(messageBox)
+    Logger.warn(`[MB CLIENT] ${policy === 'quarantine' ? 'Quarantining' : 'Rejecting'} ${messages.length} invalid message(s) in ${messageBox}`)
+    try {
+      if (policy === 'quarantine') {
+        await this.boxes.quarantine.put(messageBox, messages)
+      }
+      await this.acknowledgeMessage({ messageIds: messages.map(message => message.messageId), host })
+    } catch (error) {
+      Logger.error(`[MB CLIENT ERROR] Failed to ${policy} invalid messages in ${messageBox}:`, error)
+    }
+  }
+
+  /**
+   * @method acknowledgeDroppedMessages
+   * @private
+   * @description
+   * Acknowledges received messages that are dropped instead of delivered, because their `expiresAt`
+   * has passed or they are replays, so they are not delivered again.
+   * Failures are logged; the messages stay on the server and are dropped again on the next read.
+   */
+  private async acknowledgeDroppedMessages(messageBox: string, messages: PeerMessage[], reason: 'expired' | 'replayed', host?: string): Promise<void> {
+    Logger.log(`[MB CLIENT] Dropping ${messages.length} ${reason} message(s) in ${messageBox}`)
+    try {
+      await this.acknowledgeMessage({ messageIds: messages.map(message => message.messageId), host })
+    } catch (error) {
+      Logger.error(`[MB CLIENT ERROR] Failed to acknowledge ${reason} messages in ${messageBox}:`, error)
+    }
+  }
+
+  /**
+   * @method isReplay
+   * @private
+   * @description
+   * Under `replayProtection`, tells whether a received message must not be handled: its ID or
+   * nonce belongs to a message that was already acknowledged. A failing cache is logged and lets
+   * the message through.
+   */
+  private async isReplay(message: PeerMessage): Promise<boolean> {
+    if (this.replayProtection == null) return false
+    const { cache } = this.replayProtection
+    try {
+      const nonceKey = this.replayNonceKey(message)
+      if (await cache.has(message.messageId) || (nonceKey != null && await cache.has(nonceKey))) {
+        Logger.warn(`[MB CLIENT] Message ${message.messageId} was already processed`)
+        return true
+      }
+    } catch (error) {
+      Logger.error('[MB CLIENT ERROR] Failed to check the replay cache:', error)
+    }
+    return false
+  }
+
+  /**
+   * @method markStale
+   * @private
+   * @description
+   * Under `replayProtection`, flags a message whose `sentAt` lies outside the freshness window as
+   * `stale`. It was never seen, so it may be a message left unread for a long time; it is delivered
+   * and stays on the server rather than being dropped, and its payment is still accepted.
+   */
+  private markStale(message: PeerMessage): void {
+    if (this.replayProtection == null || message.sentAt == null) return
+    const { maxAge, maxClockSkew } = this.replayProtection
+    if (message.sentAt < Date.now() - maxAge || message.sentAt > Date.now() + maxClockSkew) {
+      Logger.warn(`[MB CLIENT] Message ${message.messageId} was sent at ${message.sentAt}, outside the freshness window`)
+      message.stale = true
+    }
+  }
+
+  /**
+   * @method replayNonceKey
+   * @private
+   * @description
+   * The replay cache key of a message's nonce. Nonces are only unique per sender.
+   */
+  private replayNonceKey(message: PeerMessage): string | undefined {
+    return message.nonce != null ? `nonce:${message.sender}:${message.nonce}` : undefined
+  }
+
+  /**
+   * @method recordProcessed
+   * @private
+   * @description
+   * Adds acknowledged messages, and the nonces they carried, to the replay cache.
+   * Failures are logged, since the acknowledgement itself succeeded.
+   */
+  private async recordProcessed(messageIds: string[]): Promise<void> {
+    if (this.replayProtection == null) return
+    const nonceKeys = messageIds.flatMap(messageId => this.seenNonces.get(messageId) ?? [])
+    try {
+      await this.replayProtection.cache.add([...messageIds, ...nonceKeys])
+    } catch (error) {
+      Logger.error('[MB CLIENT ERROR] Failed to record processed messages:', error)
+    }
+  }
+
   /**
    * @method listenForLiveMessages
    * @async
    * @param {Object} params - Configuration for the live message listener.
    * @param {function} params.onMessage - A callback function that will be triggered when a new message arrives.
    * @param {string} params.messageBox - The messageBox name (e.g., `payment_inbox`) to listen for.
+   * @param {boolean} [params.catchUp=false] - Also deliver messages stored on the server while the socket was down.
    * @returns {Promise<void>}
    *
    * @description
@@ -599,6 +1127,15 @@ export class MessageBoxClient {
    * - Automatically attempts to parse and decrypt message bodies.
    * - Emits the final message (as a `PeerMessage`) to the supplied `onMessage` handler.
    *
+   * The handler is registered with the client rather than the current socket, so it keeps
+   * receiving messages after an automatic reconnection (see the `reconnect` option).
+   *
+   * When `catchUp` is `true`, the listener also fetches the box over HTTP with `listMessages()`
+   * after the initial join and after every re-join. The backlog is delivered oldest-first,
+   * live messages that arrive meanwhile are held back until it has been delivered, and every
+   * message is de-duplicated by `messageId`, so `onMessage` sees a single stream without gaps.
+   * Bodies are always delivered as strings, as for live messages.
+   *
    * If the incoming message is encrypted, the client decrypts it using AES-256-GCM via
    * ECDH shared secrets derived from identity keys as defined in [BRC-2](https://github.com/bitcoin-sv/BRCs/blob/master/wallet/0002.md).
    * Messages sent by the client to itself are decrypted using `counterparty = 'self'`.
@@ -609,15 +1146,65 @@ export class MessageBoxClient {
    *   onMessage: (msg) => console.log('Received live message:', msg)
    * })
    */
-  async listenForLiveMessages({
+  async listenForLiveMessages(params: {
+    onMessage: (message: PeerMessage) => void
+    messageBox: string
+    overrideHost?: string
+    catchUp?: boolean
+  }): Promise<void> {
+    await this.startLiveListener(params)
+  }
+
+  /**
+   * @method subscribe
+   * @param {string} messageBox - The messageBox name (e.g., `inbox`) to subscribe to.
+   * @param {SubscribeOptions} [options] - Host, catch-up, abort signal and buffering options.
+   * @returns {MessageSubscription} A handle that is both an `AsyncIterable<PeerMessage>` and exposes a `ReadableStream`.
+   *
+   * @description
+   * Pull-based alternative to `listenForLiveMessages()`. The subscription joins the room in the
+   * background and buffers incoming messages (up to `bufferSize`) until the consumer reads them,
+   * either with `for await` or through `subscription.readable`.
+   *
+   * The subscription ends when `unsubscribe()` is called, when `options.signal` aborts, when a
+   * `for await` loop exits early, or when the readable stream is cancelled. Ending it removes the
+   * socket handler and leaves the room, unless another listener still uses that room.
+   * Connection or join failures surface as a rejection from the iterator.
+   *
+   * @example
+   * for await (const msg of client.subscribe('inbox', { signal: controller.signal })) {
+   *   await handle(msg)
+   *   await client.acknowledgeMessage({ messageIds: [msg.messageId] })
+   * }
+   */
+  subscribe(messageBox: string, options: SubscribeOptions = {}): MessageSubscription {
+    const { overrideHost, catchUp, signal, bufferSize, overflow } = options
+    return new MessageSubscription(
+      messageBox,
+      async (push) => await this.startLiveListener({ onMessage: push, messageBox, overrideHost, catchUp }),
+      { signal, bufferSize, overflow }
+    )
+  }
+
+  /**
+   * @method startLiveListener
+   * @private
+   * @returns {Promise<() => Promise<void>>} Stops the listener and leaves the room once it has no other listeners.
+   *
+   * @description
+   * Shared implementation of `listenForLiveMessages()` and `subscribe()`.
+   */
+  private async startLiveListener({
     onMessage,
     messageBox,
-    overrideHost
+    overrideHost,
+    catchUp = false
   }: {
     onMessage: (message: PeerMessage) => void
     messageBox: string
     overrideHost?: string
-  }): Promise<void> {
+    catchUp?: boolean
+  }): Promise<() => Promise<void>> {
     Logger.log(`[MB CLIENT] Setting up listener for WebSocket room: ${messageBox}`)
 
     // Ensure WebSocket connection is established first
@@ -638,49 +1225,100 @@ export class MessageBoxClient {
 
     Logger.log(`[MB CLIENT] Listening for messages in room: ${roomId}`)
 
-    this.socket?.on(`sendMessage-${roomId}`, (message: PeerMessage) => {
+    // With catch-up enabled, live messages are buffered while the backlog is fetched
+    // and everything is funnelled through a single de-duplicating delivery function.
+    const stream = catchUp ? new CatchUpStream(onMessage) : undefined
+    const deliver = stream != null
+      ? (message: PeerMessage) => stream.pushLive(message)
+      : onMessage
+
+    const eventName = `sendMessage-${roomId}`
+    const removeSocketListener = this.addSocketListener(eventName, (message: PeerMessage) => {
       void (async () => {
         Logger.log(`[MB CLIENT] Received message in room ${roomId}:`, message)
 
         try {
-          let parsedBody: unknown = message.body
-
-          if (typeof parsedBody === 'string') {
-            try {
-              parsedBody = JSON.parse(parsedBody)
-            } catch {
-              // Leave it as-is (plain text)
-            }
-          }
+          const parsedBody = typeof message.body === 'string' ? parseJsonBody(message.body) : message.body
+          const encrypted = encryptedPayload(parsedBody)
 
-          if (
-            parsedBody != null &&
-            typeof parsedBody === 'object' &&
-            typeof (parsedBody as any).encryptedMessage === 'string'
-          ) {
+          if (encrypted != null) {
             Logger.log(`[MB CLIENT] Decrypting message from ${String(message.sender)}...`)
-            const decrypted = await this.walletClient.decrypt({
-              protocolID: [1, 'messagebox'],
-              keyID: '1',
-              counterparty: message.sender,
-              ciphertext: Utils.toArray((parsedBody as any).encryptedMessage, 'base64')
-            }, this.originator)
-
-            message.body = Utils.toUTF8(decrypted.plaintext)
+            message.body = await this.decryptMessage(message, encrypted)
           } else {
             Logger.log('[MB CLIENT] Message is not encrypted.')
+            const signed = decodeEnvelope(parsedBody)
+            message.verified = signed?.signature != null && await this.verifyPlaintext(message, messageBox, signed)
             message.body = typeof parsedBody === 'string'
               ? parsedBody
               : (() => { try { return JSON.stringify(parsedBody) } catch { return '[Error: Unstringifiable message]' } })()
           }
+          if (decodeEnvelope(message.body)?.contentEncoding != null) {
+            message.body = JSON.stringify(await inflateEnvelope(message.body, this.maxInflatedSize))
+          }
+          // Live handlers receive string bodies, so object payloads stay serialized
+          applyEnvelope(message, message.body, true)
         } catch (err) {
           Logger.error('[MB CLIENT ERROR] Failed to parse or decrypt live message:', err)
           message.body = '[Error: Failed to decrypt or parse message]'
+          message.decryptFailed = true
+        }
+
+        if (isMessageExpired(message)) {
+          void this.acknowledgeDroppedMessages(messageBox, [message], 'expired', overrideHost)
+          return
+        }
+        if (this.replayProtection != null && await this.isReplay(message)) {
+          void this.acknowledgeDroppedMessages(messageBox, [message], 'replayed', overrideHost)
+          return
+        }
+        this.markStale(message)
+        if (message.contentType === CONTROL_CONTENT_TYPE) {
+          const control = await this.verifyControl(messageBox, message)
+          if (control == null) {
+            void this.rejectControlMessages(messageBox, [message], overrideHost)
+            return
+          }
+          message.control = control
+        } else if (message.decryptFailed !== true && !this.boxes.isValid(messageBox, message.body)) {
+          void this.handleInvalidMessages(messageBox, [message], overrideHost)
+          return
         }
 
-        onMessage(message)
+        if (this.contacts != null) await this.contacts.annotate([message])
+        if (this.identityResolver != null) await this.attachSenderIdentities([message])
+        this.rememberReceived(message)
+        deliver(message)
       })()
     })
+
+    let removeStateListener = (): void => {}
+    if (stream != null) {
+      const runCatchUp = async (): Promise<void> => {
+        await stream.catchUp(async () => {
+          const missed = await this.listMessages({ messageBox, host: overrideHost })
+          // Match the live stream's body shape: listMessages returns parsed JSON, live messages carry strings
+          return missed.map(message => ({
+            ...message,
+            body: typeof message.body === 'string' ? message.body : JSON.stringify(message.body)
+          }))
+        })
+      }
+
+      // Rooms are re-joined on every re-authentication; fetch whatever arrived while we were offline
+      removeStateListener = this.onConnectionStateChange(state => {
+        if (state === 'authenticated') void runCatchUp()
+      })
+
+      await runCatchUp()
+    }
+
+    return async () => {
+      removeSocketListener()
+      removeStateListener()
+      if ((this.socketListeners.get(eventName)?.size ?? 0) === 0) {
+        await this.leaveRoom(messageBox)
+      }
+    }
   }
 
   /**
@@ -696,7 +1334,7 @@ export class MessageBoxClient {
    * - Ensures the WebSocket connection is open and joins the correct room.
    * - Derives a unique message ID using an HMAC of the message body and counterparty identity key.
    * - Encrypts the message body using AES-256-GCM based on the ECDH shared secret between derived keys, per [BRC-2](https://github.com/bitcoin-sv/BRCs/blob/master/wallet/0002.md),
-   *   unless `skipEncryption` is explicitly set to `true`.
+   *   unless `skipEncryption` is explicitly set to `true`. Plaintext envelopes (and, with `signPlaintext`, any plaintext) are signed instead.
    * - Sends the message to a WebSocket room in the format `${recipient}-${messageBox}`.
    * - Waits for acknowledgment (`sendMessageAck-${roomId}`).
    * - If no acknowledgment is received within 10 seconds, falls back to `sendMessage()` over HTTP.
@@ -712,23 +1350,25 @@ export class MessageBoxClient {
    *   body: { amount: 1000 }
    * })
    */
-  async sendLiveMessage({
-    recipient,
-    messageBox,
-    body,
-    messageId,
-    skipEncryption,
-    checkPermissions
-  }: SendMessageParams, overrideHost?: string): Promise<SendMessageResponse> {
+  async sendLiveMessage(message: SendMessageParams, overrideHost?: string): Promise<SendMessageResponse> {
+    const { recipient, messageBox, messageId } = message
     if (recipient == null || recipient.trim() === '') {
       throw new Error('[MB CLIENT ERROR] Recipient identity key is required')
     }
     if (messageBox == null || messageBox.trim() === '') {
       throw new Error('[MB CLIENT ERROR] MessageBox is required')
     }
-    if (body == null || (typeof body === 'string' && body.trim() === '')) {
+    if (message.body == null || (typeof message.body === 'string' && message.body.trim() === '')) {
       throw new Error('[MB CLIENT ERROR] Message body cannot be empty')
     }
+    this.boxes.assertValid(messageBox, message.body)
+    if (message.deliverAt != null || (message.sealedSender ?? this.sealsSender)) {
+      // A scheduled message cannot go out live; it waits in the outbox instead.
+      // A sealed one cannot either, since the socket is authenticated as the sender.
+      return await this.sendMessage(message, overrideHost)
+    }
+    // Wrapped once here; the HTTP fallbacks below go through sendPreparedMessage(), which does not wrap again
+    const body = await this.prepareBody({ ...message, headers: this.headersFor(message), expiresAt: this.resolveExpiry(message) })
 
     // Ensure room is joined before sending
     await this.joinRoom(messageBox, this.originator)
@@ -736,7 +1376,7 @@ export class MessageBoxClient {
     // Fallback to HTTP if WebSocket is not connected
     if (this.socket == null || !this.socket.connected) {
       Logger.warn('[MB CLIENT WARNING] WebSocket not connected, falling back to HTTP')
-      return await this.sendMessage({ recipient, messageBox, body, messageId, skipEncryption, checkPermissions }, overrideHost)
+      return await this.sendPreparedMessage(message, body, overrideHost)
     }
 
     let finalMessageId: string
@@ -756,23 +1396,9 @@ export class MessageBoxClient {
     const roomId = `${recipient}-${messageBox}`
     Logger.log(`[MB CLIENT] Sending WebSocket message to room: ${roomId}`)
 
-    let outgoingBody: string
-    if (skipEncryption === true) {
-      outgoingBody = typeof body === 'string' ? body : JSON.stringify(body)
-    } else {
-      const encryptedMessage = await this.walletClient.encrypt({
-        protocolID: [1, 'messagebox'],
-        keyID: '1',
-        counterparty: recipient,
-        plaintext: Utils.toArray(typeof body === 'string' ? body : JSON.stringify(body), 'utf8')
-      }, this.originator)
-
-      outgoingBody = JSON.stringify({
-        encryptedMessage: Utils.toBase64(encryptedMessage.ciphertext)
-      })
-    }
+    const outgoingBody = await this.encodeBody(message, finalMessageId, body)
 
-    return await new Promise((resolve, reject) => {
+    const response = await new Promise<SendMessageResponse>((resolve, reject) => {
       const ackEvent = `sendMessageAck-${roomId}`
       let handled = false
       let timeoutId: ReturnType<typeof setTimeout> | undefined
@@ -794,16 +1420,7 @@ export class MessageBoxClient {
 
         if (response == null || response.status !== 'success') {
           Logger.warn('[MB CLIENT] WebSocket message failed or returned unexpected response. Falling back to HTTP.')
-          const fallbackMessage: SendMessageParams = {
-            recipient,
-            messageBox,
-            body,
-            messageId: finalMessageId,
-            skipEncryption,
-            checkPermissions
-          }
-
-          this.sendMessage(fallbackMessage, overrideHost)
+          this.sendPreparedMessage({ ...message, messageId: finalMessageId }, body, overrideHost)
             .then(resolve)
             .catch(reject)
         } else {
@@ -835,31 +1452,115 @@ export class MessageBoxClient {
             socketAny.off(ackEvent, ackHandler)
           }
           Logger.warn('[CLIENT] WebSocket acknowledgment timed out, falling back to HTTP')
-          const fallbackMessage: SendMessageParams = {
-            recipient,
-            messageBox,
-            body,
-            messageId: finalMessageId,
-            skipEncryption,
-            checkPermissions
-          }
-
-          this.sendMessage(fallbackMessage, overrideHost)
+          this.sendPreparedMessage({ ...message, messageId: finalMessageId }, body, overrideHost)
             .then(resolve)
             .catch(reject)
         }
       }, 10000)
     })
+
+    this.rememberSent(response.messageId ?? finalMessageId, message, overrideHost)
+    return response
   }
 
   /**
-   * @method leaveRoom
+   * @method sendEphemeral
    * @async
-   * @param {string} messageBox - The name of the WebSocket room to leave (e.g., `payment_inbox`).
-   * @returns {Promise<void>}
+   * @param {Object} params - The signal to send.
+   * @param {string} params.recipient - Identity key of the recipient.
+   * @param {string} params.channel - Channel name, e.g. `presence` or `typing`.
+   * @param {unknown} params.body - JSON-serializable signal content.
+   * @param {string} [overrideHost] - Optional host override for the WebSocket connection.
+   * @returns {Promise<boolean>} False if there was no connected socket to send it on.
    *
    * @description
-   * Leaves a previously joined WebSocket room associated with the authenticated identity key.
+   * Relays a short-lived signal to the recipient's `ephemeral:${recipient}:${channel}` room with the
+   * `sendEphemeral` socket event. Unlike `sendLiveMessage()` the server does not store it, there
+   * is no acknowledgment and no HTTP fallback: a recipient who is not listening right now simply
+   * never sees it. Signals are not encrypted, so keep them to metadata such as presence.
+   *
+   * The MessageBox server must relay `sendEphemeral` itself: it has to emit
+   * `sendEphemeral-${roomId}` to the room with the authenticated `sender` added. Servers without
+   * that handler drop the event silently, and there is no way to detect this from the client.
+   *
+   * @example
+   * await client.sendEphemeral({ recipient: bobKey, channel: 'typing', body: { typing: true } })
+   */
+  async sendEphemeral({ recipient, channel, body }: { recipient: string, channel: string, body: unknown }, overrideHost?: string): Promise<boolean> {
+    if (recipient == null || recipient.trim() === '') {
+      throw new Error('[MB CLIENT ERROR] Recipient identity key is required')
+    }
+    if (channel == null || channel.trim() === '') {
+      throw new Error('[MB CLIENT ERROR] Channel is required')
+    }
+    if (this.socket == null) {
+      await this.initializeConnection(overrideHost)
+    }
+    if (this.socket == null || !this.socket.connected) {
+      Logger.warn(`[MB CLIENT] Dropping ephemeral ${channel} signal: WebSocket not connected`)
+      return false
+    }
+
+    this.socket.emit('sendEphemeral', {
+      roomId: ephemeralRoomId(recipient, channel),
+      message: { body, sentAt: Date.now() }
+    })
+    return true
+  }
+
+  /**
+   * @method listenForEphemeral
+   * @async
+   * @param {Object} params - Listener configuration.
+   * @param {string} params.channel - Channel name to listen on.
+   * @param {function} params.onSignal - Called with each signal from another identity.
+   * @param {string} [params.overrideHost] - Optional host override for the WebSocket connection.
+   * @returns {Promise<() => Promise<void>>} Stops listening and leaves the room once it has no other listeners.
+   *
+   * @description
+   * Joins this identity's `ephemeral:${identityKey}:${channel}` room and delivers signals relayed
+   * by `sendEphemeral()`. Ephemeral rooms are kept apart from message box rooms, so a channel may
+   * share its name with a message box. The listener survives reconnection like
+   * `listenForLiveMessages()`; signals sent while the socket was down are lost by design.
+   * Requires a server that relays `sendEphemeral` (see {@link sendEphemeral}).
+   */
+  async listenForEphemeral({ channel, onSignal, overrideHost }: {
+    channel: string
+    onSignal: (signal: EphemeralSignal) => void
+    overrideHost?: string
+  }): Promise<() => Promise<void>> {
+    if (this.socket == null) {
+      await this.initializeConnection(overrideHost)
+    }
+    if (this.myIdentityKey == null || this.myIdentityKey.trim() === '') {
+      throw new Error('[MB CLIENT ERROR] Identity key is not defined')
+    }
+    const roomId = ephemeralRoomId(this.myIdentityKey, channel)
+    await this.joinRoomId(roomId)
+    const eventName = `sendEphemeral-${roomId}`
+
+    const removeSocketListener = this.addSocketListener(eventName, (data: unknown) => {
+      const { sender, body, sentAt } = (data ?? {}) as Partial<EphemeralSignal>
+      if (typeof sender !== 'string' || sender === this.myIdentityKey) return
+      onSignal({ sender, channel, body, sentAt: typeof sentAt === 'number' ? sentAt : Date.now() })
+    })
+
+    return async () => {
+      removeSocketListener()
+      if ((this.socketListeners.get(eventName)?.size ?? 0) === 0) {
+        this.leaveRoomId(roomId)
+      }
+    }
+  }
+
+  /**
+   * @method leaveRoom
+   * @async
+   * @param {string} messageBox - The name of the WebSocket room to leave (e.g., `payment_inbox`).
+   * @returns {Promise<void>}
+   *
+   * @description
+   * Leaves a previously joined WebSocket room associated with the authenticated identity key.
    * This helps reduce unnecessary message traffic and memory usage.
    *
    * If the WebSocket is not connected or the identity key is missing, the method exits gracefully.
@@ -878,9 +1579,12 @@ export class MessageBoxClient {
       throw new Error('[MB CLIENT ERROR] Identity key is not defined')
     }
 
-    const roomId = `${this.myIdentityKey}-${messageBox}`
+    this.leaveRoomId(`${this.myIdentityKey}-${messageBox}`)
+  }
+
+  private leaveRoomId(roomId: string): void {
     Logger.log(`[MB CLIENT] Leaving WebSocket room: ${roomId}`)
-    this.socket.emit('leaveRoom', roomId)
+    this.socket?.emit('leaveRoom', roomId)
 
     // Ensure the room is removed from tracking
     this.joinedRooms.delete(roomId)
@@ -896,18 +1600,25 @@ export class MessageBoxClient {
    * This should be called when the client is shutting down, logging out, or no longer
    * needs real-time communication to conserve system resources.
    *
+   * Any pending automatic reconnection is cancelled and the connection state becomes `closed`.
+   *
    * @example
    * await client.disconnectWebSocket()
    */
   async disconnectWebSocket(): Promise<void> {
     await this.assertInitialized()
+    this.reconnectionManager?.cancel()
     if (this.socket != null) {
       Logger.log('[MB CLIENT] Closing WebSocket connection...')
-      this.socket.disconnect()
+      // Detach first so the socket's own disconnect event is not treated as a dropped connection
+      const socket = this.socket
       this.socket = undefined
+      this.socketAuthenticated = false
+      socket.disconnect()
     } else {
       Logger.log('[MB CLIENT] No active WebSocket connection to close.')
     }
+    this.setConnectionState('closed')
   }
 
   /**
@@ -920,14 +1631,23 @@ export class MessageBoxClient {
    * @description
    * Sends a message over HTTP to a recipient's messageBox. This method:
    *
+   * - Wraps the body in a versioned `MessageEnvelope` when `contentType`, `schemaVersion` or `headers` is given.
+   * - Compresses the body (flagged in the envelope) when `compress` or the client's `compression` option asks for it.
    * - Derives a deterministic `messageId` using an HMAC of the message body and recipient key.
    * - Encrypts the message body using AES-256-GCM, derived from a shared secret using BRC-2-compliant key derivation and ECDH, unless `skipEncryption` is set to true.
+   *   Plaintext envelopes, and any plaintext with `signPlaintext`, are signed instead, so recipients can still verify who sent them.
    * - Automatically resolves the host via overlay LookupResolver unless an override is provided.
    * - Authenticates the request using the current identity key with `AuthFetch`.
    *
    * This is the fallback mechanism for `sendLiveMessage` when WebSocket delivery fails.
    * It is also used for message types that do not require real-time delivery.
    *
+   * When the client was created with the `outbox` option, the prepared message is persisted first.
+   * If delivery fails for a transient reason the method resolves with `{ status: 'queued', messageId }`
+   * and the outbox keeps retrying; track it with `client.outbox.getStatus(messageId)`.
+   * A message with a future `deliverAt` is held `queued` in the outbox and sent at that time;
+   * remove it with `client.outbox.remove(messageId)` to cancel it.
+   *
    * @throws {Error} If validation, encryption, HMAC, or network request fails.
    *
    * @example
@@ -951,7 +1671,39 @@ export class MessageBoxClient {
     if (message.body == null || (typeof message.body === 'string' && message.body.trim().length === 0)) {
       throw new Error('Every message must have a body!')
     }
+    // Edits are validated against the box by editMessage(); the control wrapper itself is not a box payload
+    if (message.contentType !== CONTROL_CONTENT_TYPE) {
+      this.boxes.assertValid(message.messageBox, message.body)
+    }
+    const sealedSender = message.sealedSender ?? this.sealsSender
+    if (sealedSender && (message.skipEncryption === true || message.checkPermissions === true)) {
+      throw new Error('Sealed sender messages must be encrypted and cannot carry payments')
+    }
+    const expiresAt = this.resolveExpiry(message)
+    if (message.deliverAt != null) {
+      if (this.outbox == null) {
+        throw new Error('Scheduled delivery requires the outbox option')
+      }
+      if (!Number.isFinite(message.deliverAt)) {
+        throw new Error('deliverAt must be a unix timestamp in milliseconds')
+      }
+      if (expiresAt != null && message.deliverAt >= expiresAt) {
+        throw new Error('Message would expire before its scheduled delivery')
+      }
+    }
+    const body = await this.prepareBody({ ...message, headers: this.headersFor(message), expiresAt })
+    return await this.sendPreparedMessage(message, body, overrideHost)
+  }
 
+  /**
+   * @method sendPreparedMessage
+   * @private
+   * @description
+   * Second half of `sendMessage()`: pays for, seals or encrypts and delivers a body that was already
+   * validated against its box and run through `prepareBody()`. `sendLiveMessage()` falls back to HTTP
+   * through here, since its body is already an envelope and no longer what the box validator expects.
+   */
+  private async sendPreparedMessage(message: SendMessageParams, body: string | object, overrideHost?: string): Promise<SendMessageResponse> {
     // Optional permission checking for backwards compatibility
     let paymentData: Payment | undefined
     if (message.checkPermissions === true) {
@@ -989,10 +1741,13 @@ export class MessageBoxClient {
       }
     }
 
+    const sealed = (message.sealedSender ?? this.sealsSender) ? await this.sealBody(message.recipient, body) : undefined
+
     let messageId: string
     try {
-      const hmac = await this.walletClient.createHmac({
-        data: Array.from(new TextEncoder().encode(JSON.stringify(message.body))),
+      // A sealed message's ID comes from its one-time key, so it cannot link messages either
+      const hmac = await (sealed?.transport ?? this.walletClient).createHmac({
+        data: Array.from(new TextEncoder().encode(JSON.stringify(body))),
         protocolID: [1, 'messagebox'],
         keyID: '1',
         counterparty: message.recipient
@@ -1003,31 +1758,58 @@ export class MessageBoxClient {
       throw new Error('Failed to generate message identifier.')
     }
 
-    let finalBody: string | EncryptedMessage
-    if (message.skipEncryption === true) {
-      finalBody = typeof message.body === 'string' ? message.body : JSON.stringify(message.body)
-    } else {
-      const encryptedMessage = await this.walletClient.encrypt({
-        protocolID: [1, 'messagebox'],
-        keyID: '1',
-        counterparty: message.recipient,
-        plaintext: Utils.toArray(typeof message.body === 'string' ? message.body : JSON.stringify(message.body), 'utf8')
-      }, this.originator)
+    const finalBody = sealed?.body ?? await this.encodeBody(message, messageId, body)
+
+    const prepared: OutboxSubmission = {
+      messageId,
+      recipient: message.recipient,
+      messageBox: message.messageBox,
+      body: finalBody,
+      payment: paymentData,
+      host: overrideHost,
+      expiresAt: decodeEnvelope(body)?.expiresAt,
+      deliverAt: message.deliverAt,
+      ...(sealed != null && { sealed: true })
+    }
+    if (sealed != null) setBounded(this.sealingKeys, messageId, sealed.key, RECENT_MESSAGE_LIMIT)
 
-      finalBody = JSON.stringify({ encryptedMessage: Utils.toBase64(encryptedMessage.ciphertext) })
+    if (this.outbox != null) {
+      const entry = await this.outbox.submit(prepared)
+      if (entry.status === 'failed') {
+        throw new Error(entry.lastError ?? 'Failed to send message: Unknown error')
+      }
+      if (entry.status !== 'sent') {
+        Logger.log(`[MB CLIENT] Message ${messageId} is ${entry.status} in the outbox.`)
+      }
+      this.rememberSent(messageId, message, overrideHost)
+      return { status: entry.status === 'sent' ? 'success' : entry.status, messageId }
     }
 
+    const response = await this.postMessage(prepared)
+    this.rememberSent(messageId, message, overrideHost)
+    return response
+  }
+
+  /**
+   * @method postMessage
+   * @private
+   * @param {OutboxSubmission} prepared - The message with its final (possibly encrypted) body, messageId and optional payment.
+   * @returns {Promise<SendMessageResponse>} - Resolves with `{ status, messageId }` on success.
+   *
+   * @description
+   * Delivers a prepared message to `/sendMessage`. Shared by `sendMessage()` and the outbox.
+   * Errors that retrying cannot fix (4xx responses other than 408/429, or an explicit error status
+   * from the server) are flagged with `permanent: true` so the outbox stops retrying them.
+   */
+  private async postMessage(prepared: OutboxSubmission): Promise<SendMessageResponse> {
+    const { messageId, recipient, messageBox, body, payment, host, sealed } = prepared
     const requestBody = {
-      message: {
-        ...message,
-        messageId,
-        body: finalBody
-      },
-      ...(paymentData != null && { payment: paymentData })
+      message: { recipient, messageBox, messageId, body },
+      ...(payment != null && { payment })
     }
 
     try {
-      const finalHost = overrideHost ?? await this.resolveHostForRecipient(message.recipient)
+      const finalHost = host ?? await this.resolveHostForRecipient(recipient)
 
       Logger.log('[MB CLIENT] Sending HTTP request to:', `${finalHost}/sendMessage`)
       Logger.log('[MB CLIENT] Request Body:', JSON.stringify(requestBody, null, 2))
@@ -1043,7 +1825,16 @@ export class MessageBoxClient {
         }
       }
 
-      const response = await this.authFetch.fetch(`${finalHost}/sendMessage`, {
+      // Sealed messages authenticate as their one-time key, never as this client's identity
+      let transport = this.authFetch
+      if (sealed === true) {
+        const key = this.sealingKeys.get(messageId)
+        if (key == null) {
+          throw Object.assign(new Error('The one-time key of this sealed message did not survive a restart; send it again'), { permanent: true })
+        }
+        transport = new AuthFetch(new CompletedProtoWallet(key))
+      }
+      const response = await transport.fetch(`${finalHost}/sendMessage`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -1060,20 +1851,24 @@ export class MessageBoxClient {
 
       if (!response.ok) {
         Logger.error(`[MB CLIENT ERROR] Failed to send message. HTTP ${response.status}: ${response.statusText}`)
-        throw new Error(`Message sending failed: HTTP ${response.status} - ${response.statusText}`)
+        const permanent = response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429
+        throw Object.assign(new Error(`Message sending failed: HTTP ${response.status} - ${response.statusText}`), { permanent })
       }
 
       if (parsedResponse.status !== 'success') {
         Logger.error(`[MB CLIENT ERROR] Server returned an error: ${String(parsedResponse.description)}`)
-        throw new Error(parsedResponse.description ?? 'Unknown error from server.')
+        throw Object.assign(new Error(parsedResponse.description ?? 'Unknown error from server.'), { permanent: true })
       }
 
       Logger.log('[MB CLIENT] Message successfully sent.')
+      this.sealingKeys.delete(messageId)
       return { ...parsedResponse, messageId }
     } catch (error) {
       Logger.error('[MB CLIENT ERROR] Network or timeout error:', error)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      throw new Error(`Failed to send message: ${errorMessage}`)
+      const permanent = (error as { permanent?: boolean })?.permanent === true
+      if (permanent) this.sealingKeys.delete(messageId)
+      throw Object.assign(new Error(`Failed to send message: ${errorMessage}`), { permanent })
     }
   }
 
@@ -1089,16 +1884,18 @@ export class MessageBoxClient {
   ): Promise<SendListResult> {
     await this.assertInitialized()
 
-    const { recipients, messageBox, body, skipEncryption } = params
+    const { recipients, messageBox, skipEncryption } = params
     if (!Array.isArray(recipients) || recipients.length === 0) {
       throw new Error('You must provide at least one recipient!')
     }
     if (!messageBox || messageBox.trim() === '') {
       throw new Error('You must provide a messageBox to send this message into!')
     }
-    if (body == null || (typeof body === 'string' && body.trim().length === 0)) {
+    if (params.body == null || (typeof params.body === 'string' && params.body.trim().length === 0)) {
       throw new Error('Every message must have a body!')
     }
+    this.boxes.assertValid(messageBox, params.body)
+    const body = await this.prepareBody({ ...params, expiresAt: this.resolveExpiry(params) })
 
     // 1) Multi-quote for all recipients
     const quoteResponse = await this.getMessageBoxQuote({
@@ -1171,12 +1968,13 @@ export class MessageBoxClient {
 
     // 7) Body: for batch route the server expects a single shared body
     // NOTE: If you need per-recipient encryption, we must change the server payload shape.
+    const outgoingBody = this.padding != null ? padBody(body, this.padding) : body
     let finalBody: string
     if (skipEncryption === true) {
-      finalBody = typeof body === 'string' ? body : JSON.stringify(body)
+      finalBody = serializeBody(outgoingBody)
     } else {
       // safest for now: send plaintext; the recipients can decrypt payload fields client-side if needed
-      finalBody = typeof body === 'string' ? body : JSON.stringify(body)
+      finalBody = serializeBody(outgoingBody)
     }
 
     // 8) ONE batch payment with server output at index 0
@@ -1503,12 +2301,59 @@ export class MessageBoxClient {
    *
    * @throws {Error} If no messageBox is specified, the request fails, or the server returns an error.
    *
+   * Optional `limit`, `cursor`, `since`, `until` and `sender` parameters narrow the result before any
+   * message is decrypted or has its payment processed. Use `listMessagesPage()` to receive the cursor
+   * for the next page.
+   *
+   * Ordering:
+   * - Messages are returned oldest-first by `created_at`, or as configured with `order` (`by`, `direction`).
+   * - Ties are broken by `messageId`, so the order is total.
+   * - When several hosts are queried, their results are merged and de-duplicated before sorting. The order
+   *   therefore depends only on the messages themselves, never on which host responded first.
+   *
    * @example
    * const messages = await client.listMessages({ messageBox: 'inbox' })
    * messages.forEach(msg => console.log(msg.sender, msg.body))
    * // Payments included with messages are automatically received
    */
-  async listMessages({ messageBox, host, acceptPayments }: ListMessagesParams): Promise<PeerMessage[]> {
+  async listMessages(params: ListMessagesParams): Promise<PeerMessage[]> {
+    const { messages } = await this.listMessagesPage(params)
+    return messages
+  }
+
+  /**
+   * @method listMessagesPage
+   * @async
+   * @param {ListMessagesParams} params - The messageBox to read, plus optional `limit`, `cursor`, `since`, `until` and `sender` filters.
+   * @returns {Promise<MessagePage>} - The decrypted messages of this page and, if more remain, a `nextCursor`.
+   *
+   * @description
+   * Paginated form of `listMessages()`. Messages from every host are merged and de-duplicated, filtered,
+   * sorted by `params.order` (default oldest-first by `created_at`, ties broken by `messageId`), and cut to
+   * `limit`. Only the messages on the returned page have their payments internalized, and only they are
+   * decrypted unless `sender` is set: sealed messages name their sender only once decrypted, so the
+   * filter is applied afterwards to every message in the `since`/`until` window.
+   *
+   * Paging happens on the client; the server always returns the whole box. The first page of a cursor
+   * chain downloads it once, and later pages requested within a minute are cut from that download.
+   *
+   * The cursor records the position of the last message on the page rather than an offset, so
+   * acknowledging messages between requests neither skips nor repeats any. A cursor is only valid with
+   * the `order` it was issued for.
+   *
+   * @throws {Error} If the parameters or cursor are invalid, or every host fails.
+   *
+   * @example
+   * let cursor: string | undefined
+   * do {
+   *   const page = await client.listMessagesPage({ messageBox: 'notifications', limit: 50, cursor })
+   *   page.messages.forEach(handle)
+   *   cursor = page.nextCursor
+   * } while (cursor != null)
+   */
+  async listMessagesPage(params: ListMessagesParams): Promise<MessagePage> {
+    const { messageBox } = params
+    let { acceptPayments } = params
     if (typeof acceptPayments !== 'boolean') {
       acceptPayments = true
     }
@@ -1516,90 +2361,74 @@ export class MessageBoxClient {
       throw new Error('MessageBox cannot be empty')
     }
 
-    let hosts: string[] = host != null ? [host] : []
-    if (hosts.length === 0) {
-      const advertisedHosts = await this.queryAdvertisements(
-        await this.getIdentityKey(),
-        undefined
-      )
-      hosts = Array.from(new Set([this.host, ...advertisedHosts.map(h => h.host)]))
-    }
+    const listing = await this.fetchListing(params)
 
-    // Query each host in parallel
-    const fetchFromHost = async (host: string): Promise<PeerMessage[]> => {
-      try {
-        Logger.log(`[MB CLIENT] Listing messages from ${host}…`)
-        const res = await this.authFetch.fetch(`${host}/listMessages`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ messageBox })
-        })
-        if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`)
-        const data = await res.json()
-        if (data.status === 'error') throw new Error(data.description ?? 'Unknown server error')
-        return data.messages as PeerMessage[]
-      } catch (err) {
-        Logger.log(`[MB CLIENT DEBUG] listMessages failed for ${host}:`, err)
-        throw err // re-throw to be caught in the settled promise
-      }
-    }
+    // Filter and paginate before doing any expensive per-message work. Sealed messages only name
+    // their sender once decrypted, so with a sender filter the whole window is decrypted first.
+    const candidates = params.sender != null
+      ? selectMessagePage(listing, { ...params, sender: undefined, limit: undefined })
+      : selectMessagePage(listing, params)
+    const messages = candidates.messages.map(message => ({ ...message }))
 
-    const settled = await Promise.allSettled(hosts.map(fetchFromHost))
+    // Early‑out: nothing on this page but at least one host succeeded
+    if (messages.length === 0) return candidates
 
-    // 3. Split successes / failures
-    const messagesByHost: PeerMessage[][] = []
-    const errors: any[] = []
+    const parsed = messages.map(message => {
+      const { content, payment } = unwrapStoredBody(message.body)
+      return { message, messageContent: content, paymentData: payment }
+    })
 
-    for (const r of settled) {
-      if (r.status === 'fulfilled') {
-        messagesByHost.push(r.value)
-      } else {
-        errors.push(r.reason)
+    await this.mapWithConcurrency(parsed, 4, async (p) => {
+      try {
+        const encrypted = encryptedPayload(p.messageContent)
+        if (encrypted != null) {
+          Logger.log(
+            `[MB CLIENT] Decrypting message from ${String(p.message.sender)}…`
+          )
+          p.message.body = this.tryParse(await this.decryptMessage(p.message, encrypted))
+        } else {
+          const signed = decodeEnvelope(p.messageContent)
+          p.message.verified = signed?.signature != null && await this.verifyPlaintext(p.message, params.messageBox, signed)
+          p.message.body = p.messageContent as PeerMessage['body']
+        }
+        applyEnvelope(p.message, await inflateEnvelope(p.message.body, this.maxInflatedSize))
+      } catch (err) {
+        Logger.error(
+          '[MB CLIENT ERROR] Failed to parse or decrypt message in list:',
+          err
+        )
+        p.message.body = '[Error: Failed to decrypt or parse message]'
+        p.message.decryptFailed = true
       }
-    }
+      return null
+    })
 
-    // 4. If *every* host failed – throw aggregated error
-    if (messagesByHost.length === 0) {
-      throw new Error('Failed to retrieve messages from any host')
-    }
+    const page = params.sender != null ? selectMessagePage(messages, params) : { ...candidates, messages }
+    if (page.nextCursor != null) this.rememberListing(params, page.nextCursor, listing)
 
-    // 5. Merge & de‑duplicate (first‑seen wins)
-    const dedupMap = new Map<string, PeerMessage>()
-    for (const messageList of messagesByHost) {
-      for (const m of messageList) {
-        if (!dedupMap.has(m.messageId)) dedupMap.set(m.messageId, m)
-      }
+    const expired = page.messages.filter(message => isMessageExpired(message))
+    if (expired.length > 0) {
+      await this.acknowledgeDroppedMessages(messageBox, expired, 'expired', params.host)
     }
-
-    // 6. Early‑out: no messages but at least one host succeeded → []
-    if (dedupMap.size === 0) return []
-
-    const messages: PeerMessage[] = Array.from(dedupMap.values())
-
-    const parsed = messages.map(message => {
-      const parsedBody: unknown =
-        typeof message.body === 'string' ? this.tryParse(message.body) : message.body
-
-      let messageContent: any = parsedBody
-      let paymentData: Payment | undefined
-
-      if (
-        parsedBody != null &&
-        typeof parsedBody === 'object' &&
-        'message' in parsedBody
-      ) {
-        const wrappedMessage = (parsedBody as any).message
-        messageContent = typeof wrappedMessage === 'string'
-          ? this.tryParse(wrappedMessage)
-          : wrappedMessage
-        paymentData = (parsedBody as any).payment
+    const replayed: PeerMessage[] = []
+    if (this.replayProtection != null) {
+      for (const message of page.messages) {
+        if (expired.includes(message)) continue
+        if (await this.isReplay(message)) {
+          replayed.push(message)
+        } else {
+          this.markStale(message)
+        }
       }
+      if (replayed.length > 0) {
+        await this.acknowledgeDroppedMessages(messageBox, replayed, 'replayed', params.host)
+      }
+    }
 
-      return { message, parsedBody, messageContent, paymentData }
-    })
-
+    // Only messages that survived the expiry and replay checks may pay out
     if (acceptPayments) {
       const paymentJobs = parsed
+        .filter(p => page.messages.includes(p.message) && !expired.includes(p.message) && !replayed.includes(p.message))
         .filter(p => p.paymentData?.tx != null && p.paymentData.outputs != null)
 
       await this.mapWithConcurrency(paymentJobs, 2, async (p) => {
@@ -1647,139 +2476,193 @@ export class MessageBoxClient {
       })
     }
 
-    await this.mapWithConcurrency(parsed, 4, async (p) => {
-      try {
-        if (
-          p.messageContent != null &&
-          typeof p.messageContent === 'object' &&
-          typeof (p.messageContent).encryptedMessage === 'string'
-        ) {
-          Logger.log(
-            `[MB CLIENT] Decrypting message from ${String(p.message.sender)}…`
-          )
-
-          const decrypted = await this.walletClient.decrypt({
-            protocolID: [1, 'messagebox'],
-            keyID: '1',
-            counterparty: p.message.sender,
-            ciphertext: Utils.toArray(
-              (p.messageContent).encryptedMessage,
-              'base64'
-            )
-          }, this.originator)
-
-          const decryptedText = Utils.toUTF8(decrypted.plaintext)
-          p.message.body = this.tryParse(decryptedText)
-        } else {
-          p.message.body = p.messageContent ?? p.parsedBody
-        }
-      } catch (err) {
-        Logger.error(
-          '[MB CLIENT ERROR] Failed to parse or decrypt message in list:',
-          err
-        )
-        p.message.body = '[Error: Failed to decrypt or parse message]'
-      }
-      return null
-    })
-
-    // Sort newest‑first for a deterministic order
-    messages.sort(
-      (a, b) =>
-        Number((b as any).timestamp ?? 0) - Number((a as any).timestamp ?? 0)
-    )
+    const invalid = this.boxes.has(messageBox)
+      ? page.messages.filter(message =>
+        !expired.includes(message) &&
+        !replayed.includes(message) &&
+        message.decryptFailed !== true &&
+        message.contentType !== CONTROL_CONTENT_TYPE &&
+        !this.boxes.isValid(messageBox, message.body))
+      : []
+    if (invalid.length > 0) {
+      await this.handleInvalidMessages(messageBox, invalid, params.host)
+    }
+    if (expired.length > 0 || replayed.length > 0 || invalid.length > 0) {
+      page.messages = page.messages.filter(message => !expired.includes(message) && !replayed.includes(message) && !invalid.includes(message))
+    }
+    page.messages = await this.applyControlMessages(messageBox, page.messages, params.host)
+    page.messages.forEach(message => this.rememberReceived(message))
+    if (this.contacts != null) await this.contacts.annotate(page.messages)
+    await this.attachSenderIdentities(page.messages)
 
-    return messages
+    return page
   }
 
   /**
-   * @method listMessagesLite
-   * @async
-   * @param {ListMessagesParams} params - Contains the `messageBox` to read from and the `host` to query.
-   * @returns {Promise<PeerMessage[]>} - Returns an array of decrypted `PeerMessage` objects with minimal processing.
+   * @method fetchListing
+   * @private
+   * @param {ListMessagesParams} params - The box to list, the host to ask and the cursor being continued.
+   * @returns {Promise<PeerMessage[]>} - The stored messages of every host, merged and de-duplicated.
    *
    * @description
-   * A lightweight variant of {@link listMessages} that fetches and decrypts messages
-   * from a specific host without performing:
-   * - Overlay host resolution
-   * - Payment acceptance or internalization
-   * - Cross-host deduplication
-   *
-   * This method:
-   * - Sends a direct POST request to the specified host's `/listMessages` endpoint.
-   * - Parses message bodies as JSON when possible.
-   * - Decrypts messages if they contain an `encryptedMessage` field, using AES-256-GCM via BRC-2-compliant ECDH key derivation.
-   * - Returns messages in the order provided by the host.
-   *
-   * This is intended for cases where you already know the host and need faster,
-   * simpler retrieval without the additional processing overhead of `listMessages`.
-   *
-   * @throws {Error} If the host returns an error status or decryption fails.
-   *
-   * @example
-   * const messages = await client.listMessagesLite({
-   *   messageBox: 'notifications',
-   *   host: 'https://message-box-us-1.bsvb.tech'
-   * })
-   * console.log(messages)
+   * The server has no paging, so every host returns the whole box. A page that continues a recent
+   * cursor chain is cut from the listing fetched for the chain's first page instead of downloading
+   * the box again; messages that arrived meanwhile appear in the next chain.
    */
-  async listMessagesLite({ messageBox, host }: ListMessagesParams): Promise<PeerMessage[]> {
-    const res = await this.authFetch.fetch(`${host as string}/listMessages`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ messageBox })
-    })
-    const data = await res.json()
-    if (data.status === 'error') throw new Error(data.description ?? 'Unknown server error')
-    const messages = data.messages as PeerMessage[]
-    const tryParse = (raw: string): any => {
-      try {
-        return JSON.parse(raw)
-      } catch {
-        return raw
-      }
+  private async fetchListing(params: ListMessagesParams): Promise<PeerMessage[]> {
+    const { messageBox, host, cursor } = params
+    if (cursor != null) {
+      const key = this.listingKey(params, cursor)
+      const snapshot = this.listingSnapshots.get(key)
+      if (snapshot != null && snapshot.expiresAt > Date.now()) return snapshot.messages
+      this.listingSnapshots.delete(key)
     }
 
-    await this.mapWithConcurrency(messages, 4, async (message) => {
+    let hosts: string[] = host != null ? [host] : []
+    if (hosts.length === 0) {
+      const advertisedHosts = await this.queryAdvertisements(
+        await this.getIdentityKey(),
+        undefined
+      )
+      hosts = Array.from(new Set([this.host, ...advertisedHosts.map(h => h.host)]))
+    }
+
+    // Query each host in parallel
+    const fetchFromHost = async (host: string): Promise<PeerMessage[]> => {
       try {
-        const parsedBody: unknown =
-          typeof message.body === 'string' ? tryParse(message.body) : message.body
-        let messageContent: any = parsedBody
-        if (
-          parsedBody != null &&
-          typeof parsedBody === 'object' &&
-          'message' in parsedBody
-        ) {
-          const wrappedMessage = (parsedBody as any).message
-          messageContent = typeof wrappedMessage === 'string'
-            ? tryParse(wrappedMessage)
-            : wrappedMessage
-        }
-        if (
-          messageContent != null &&
-          typeof messageContent === 'object' &&
-          typeof messageContent.encryptedMessage === 'string'
-        ) {
-          const decrypted = await this.walletClient.decrypt({
-            protocolID: [1, 'messagebox'],
-            keyID: '1',
-            counterparty: message.sender,
-            ciphertext: Utils.toArray(
-              messageContent.encryptedMessage,
-              'base64'
-            )
-          })
-          const decryptedText = Utils.toUTF8(decrypted.plaintext)
-          message.body = tryParse(decryptedText)
-        } else {
-          message.body = messageContent ?? parsedBody
+        Logger.log(`[MB CLIENT] Listing messages from ${host}…`)
+        const res = await this.authFetch.fetch(`${host}/listMessages`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ messageBox })
+        })
+        if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`)
+        const data = await res.json()
+        if (data.status === 'error') throw new Error(data.description ?? 'Unknown server error')
+        return data.messages as PeerMessage[]
+      } catch (err) {
+        Logger.log(`[MB CLIENT DEBUG] listMessages failed for ${host}:`, err)
+        throw err // re-throw to be caught in the settled promise
+      }
+    }
+
+    const settled = await Promise.allSettled(hosts.map(fetchFromHost))
+
+    // 3. Split successes / failures
+    const messagesByHost: PeerMessage[][] = []
+    const errors: any[] = []
+
+    for (const r of settled) {
+      if (r.status === 'fulfilled') {
+        messagesByHost.push(r.value)
+      } else {
+        errors.push(r.reason)
+      }
+    }
+
+    // 4. If *every* host failed – throw aggregated error
+    if (messagesByHost.length === 0) {
+      throw new Error('Failed to retrieve messages from any host')
+    }
+
+    // 5. Merge & de‑duplicate (first‑seen wins)
+    const dedupMap = new Map<string, PeerMessage>()
+    for (const messageList of messagesByHost) {
+      for (const m of messageList) {
+        if (!dedupMap.has(m.messageId)) dedupMap.set(m.messageId, m)
+      }
+    }
+    return Array.from(dedupMap.values())
+  }
+
+  /**
+   * @method rememberListing
+   * @private
+   * @description
+   * Keeps an unprocessed listing so the page after `nextCursor` can be cut from it.
+   */
+  private rememberListing(params: ListMessagesParams, nextCursor: string, messages: PeerMessage[]): void {
+    const expiresAt = Date.now() + LISTING_SNAPSHOT_TTL
+    setBounded(this.listingSnapshots, this.listingKey(params, nextCursor), { messages, expiresAt }, LISTING_SNAPSHOT_LIMIT)
+  }
+
+  /**
+   * @method forgetListed
+   * @private
+   * @description
+   * Drops acknowledged messages from kept listings, so later pages of a chain do not return them.
+   */
+  private forgetListed(messageIds: string[]): void {
+    const acknowledged = new Set(messageIds)
+    for (const snapshot of this.listingSnapshots.values()) {
+      snapshot.messages = snapshot.messages.filter(message => !acknowledged.has(message.messageId))
+    }
+  }
+
+  private listingKey({ messageBox, host }: ListMessagesParams, cursor: string): string {
+    return JSON.stringify([messageBox, host ?? null, cursor])
+  }
+
+  /**
+   * @method listMessagesLite
+   * @async
+   * @param {ListMessagesParams} params - Contains the `messageBox` to read from and the `host` to query.
+   * @returns {Promise<PeerMessage[]>} - Returns an array of decrypted `PeerMessage` objects with minimal processing.
+   *
+   * @description
+   * A lightweight variant of {@link listMessages} that fetches and decrypts messages
+   * from a specific host without performing:
+   * - Overlay host resolution
+   * - Payment acceptance or internalization
+   * - Cross-host deduplication
+   *
+   * This method:
+   * - Sends a direct POST request to the specified host's `/listMessages` endpoint.
+   * - Parses message bodies as JSON when possible.
+   * - Decrypts messages if they contain an `encryptedMessage` field, using AES-256-GCM via BRC-2-compliant ECDH key derivation.
+   * - Returns messages in the order provided by the host.
+   *
+   * This is intended for cases where you already know the host and need faster,
+   * simpler retrieval without the additional processing overhead of `listMessages`.
+   *
+   * @throws {Error} If the host returns an error status or decryption fails.
+   *
+   * @example
+   * const messages = await client.listMessagesLite({
+   *   messageBox: 'notifications',
+   *   host: 'https://message-box-us-1.bsvb.tech'
+   * })
+   * console.log(messages)
+   */
+  async listMessagesLite({ messageBox, host }: ListMessagesParams): Promise<PeerMessage[]> {
+    const res = await this.authFetch.fetch(`${host as string}/listMessages`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messageBox })
+    })
+    const data = await res.json()
+    if (data.status === 'error') throw new Error(data.description ?? 'Unknown server error')
+    const messages = data.messages as PeerMessage[]
+
+    await this.mapWithConcurrency(messages, 4, async (message) => {
+      try {
+        const { content } = unwrapStoredBody(message.body)
+        const encrypted = encryptedPayload(content)
+        if (encrypted == null) {
+          const signed = decodeEnvelope(content)
+          message.verified = signed?.signature != null && await this.verifyPlaintext(message, messageBox, signed)
         }
+        message.body = (encrypted != null
+          ? this.tryParse(await this.decryptMessage(message, encrypted))
+          : content) as PeerMessage['body']
+        applyEnvelope(message, await inflateEnvelope(message.body, this.maxInflatedSize))
       } catch (err) {
         Logger.error(
           '[MB CLIENT ERROR] Failed to parse or decrypt message in list:',
           err
         )
         message.body = '[Error: Failed to decrypt or parse message]'
+        message.decryptFailed = true
       }
       return null
     })
@@ -1804,10 +2687,256 @@ export class MessageBoxClient {
    * tryParse('plain text')        // → "plain text"
    */
   tryParse(raw: string): any {
-    try {
-      return JSON.parse(raw)
-    } catch {
-      return raw
+    return parseJsonBody(raw)
+  }
+
+  /**
+   * @method headersFor
+   * @private
+   * @description
+   * The envelope headers to send: the caller's, plus the receipt request when `requestReceipt` is set.
+   */
+  private headersFor({ headers, requestReceipt }: Pick<SendMessageParams, 'headers' | 'requestReceipt'>): Record<string, string> | undefined {
+    return requestReceipt === true ? { ...headers, [RECEIPT_REQUESTED_HEADER]: 'true' } : headers
+  }
+
+  /**
+   * @method prepareBody
+   * @private
+   * @description
+   * Wraps the body in a `MessageEnvelope` when the caller set `contentType`, `schemaVersion`,
+   * `headers` or an expiry, or when it is compressed; otherwise returns it unchanged so older clients can still
+   * read the message. With `replayProtection` every body is enveloped with a fresh nonce and send time;
+   * a scheduled message is stamped with its `deliverAt`, so the time in the outbox does not age it.
+   * Bodies are always treated as payloads, even when they look like envelopes, so a prepared body must
+   * not pass through here twice; internal resends use `sendPreparedMessage()` instead.
+   */
+  private async prepareBody({ body, contentType, schemaVersion, headers, compress, expiresAt, deliverAt }: Pick<SendMessageParams, 'body' | 'contentType' | 'schemaVersion' | 'headers' | 'compress' | 'expiresAt' | 'deliverAt'>): Promise<string | object> {
+    const format = this.compressionFormatFor(body, compress)
+    const stamp = this.replayProtection != null ? { nonce: Utils.toHex(Random(16)), sentAt: Math.max(deliverAt ?? 0, Date.now()) } : undefined
+    if (format == null && contentType == null && schemaVersion == null && headers == null && expiresAt == null && stamp == null) return body
+    const envelope = createEnvelope(body, { contentType, schemaVersion, headers, expiresAt, ...stamp })
+    return format != null ? await compressEnvelope(envelope, format) : envelope
+  }
+
+  /**
+   * @method resolveExpiry
+   * @private
+   * @description
+   * Turns `expiresAt` / `ttl` into an absolute expiry; `expiresAt` wins when both are set.
+   *
+   * @throws {Error} If `ttl` is not a positive number or the expiry has already passed.
+   */
+  private resolveExpiry({ expiresAt, ttl }: Pick<SendMessageParams, 'expiresAt' | 'ttl'>): number | undefined {
+    if (expiresAt == null && ttl == null) return undefined
+    if (expiresAt == null && (typeof ttl !== 'number' || !(ttl > 0))) {
+      throw new Error('Message ttl must be a positive number of milliseconds')
+    }
+    const resolved = expiresAt ?? Date.now() + (ttl as number)
+    if (resolved <= Date.now()) {
+      throw new Error('Message has already expired')
+    }
+    return resolved
+  }
+
+  /**
+   * @method compressionFormatFor
+   * @private
+   * @description
+   * Resolves the per-message `compress` flag against the client's `compression` option.
+   */
+  private compressionFormatFor(body: string | object, compress?: boolean | CompressionFormat): CompressionFormat | undefined {
+    if (compress === false) return undefined
+    if (compress === true) return 'gzip'
+    if (compress != null) return compress
+    if (this.compression == null || serializeBody(body).length < this.compression.minSize) return undefined
+    return this.compression.format
+  }
+
+  /**
+   * @method encodeBody
+   * @private
+   * @description
+   * Serializes a body for delivery, encrypting it to the recipient as `{ encryptedMessage }`
+   * unless `skipEncryption` is set. Plaintext envelopes are signed; bare plaintext bodies only
+   * with `signPlaintext`, so clients that predate envelopes can still read them.
+   * With key rotation the body also names its `keyID`.
+   * Padding is applied here, after the message ID was derived, so it does not change the ID.
+   */
+  private async encodeBody(
+    { recipient, messageBox, skipEncryption, signPlaintext }: Pick<SendMessageParams, 'recipient' | 'messageBox' | 'skipEncryption' | 'signPlaintext'>,
+    messageId: string,
+    prepared: string | object
+  ): Promise<string> {
+    if (skipEncryption === true && (decodeEnvelope(prepared) != null || (signPlaintext ?? this.signsPlaintext))) {
+      const signed = await this.signPlaintext({ messageId, recipient, messageBox }, prepared)
+      return encodeEnvelope(this.padding != null ? padBody(signed, this.padding) : signed)
+    }
+
+    const body = this.padding != null ? padBody(prepared, this.padding) : prepared
+    if (skipEncryption === true) return serializeBody(body)
+
+    const keyID = this.nextKeyID()
+    const encryptedMessage = await this.walletClient.encrypt({
+      protocolID: [1, 'messagebox'],
+      keyID,
+      counterparty: recipient,
+      plaintext: Utils.toArray(serializeBody(body), 'utf8')
+    }, this.originator)
+
+    return JSON.stringify({
+      encryptedMessage: Utils.toBase64(encryptedMessage.ciphertext),
+      ...(keyID !== LEGACY_KEY_ID && { keyID })
+    })
+  }
+
+  /**
+   * @method signPlaintext
+   * @private
+   * @description
+   * Wraps a plaintext body in an envelope signed over it, the message ID, the recipient and the
+   * message box. The signature is made for `anyone`, so any reader can verify it against the
+   * sender's identity key.
+   */
+  private async signPlaintext(target: { messageId: string, recipient: string, messageBox: string }, body: string | object): Promise<MessageEnvelope> {
+    const envelope = decodeEnvelope(body) ?? createEnvelope(body)
+    const { signature } = await this.walletClient.createSignature({
+      data: envelopeSigningData(target, envelope),
+      protocolID: ENVELOPE_SIGNATURE_PROTOCOL_ID,
+      keyID: '1',
+      counterparty: 'anyone'
+    }, this.originator)
+    return { ...envelope, signature: Utils.toHex(signature) }
+  }
+
+  /**
+   * @method verifyPlaintext
+   * @private
+   * @description
+   * Checks the signature of an envelope that arrived unencrypted against `sender`, this
+   * message ID and the box it was listed in, addressed to this client. Callers only reach here
+   * for signed envelopes, so unsigned plaintext is still delivered synchronously, with `verified` false.
+   */
+  private async verifyPlaintext(message: PeerMessage, messageBox: string, envelope: MessageEnvelope): Promise<boolean> {
+    const target = { messageId: message.messageId, recipient: await this.getIdentityKey(), messageBox }
+    const { valid } = await new ProtoWallet('anyone').verifySignature({
+      data: envelopeSigningData(target, envelope),
+      signature: Utils.toArray(envelope.signature ?? '', 'hex'),
+      protocolID: ENVELOPE_SIGNATURE_PROTOCOL_ID,
+      keyID: '1',
+      counterparty: message.sender
+    }).catch(() => ({ valid: false }))
+    if (!valid) {
+      Logger.warn(`[MB CLIENT] Signature of plaintext message ${message.messageId} does not verify`)
+    }
+    return valid
+  }
+
+  /**
+   * @method nextKeyID
+   * @private
+   * @description
+   * The key ID to encrypt the next message under: `'1'` without key rotation, otherwise a random
+   * nonce per message or the number of the current epoch. Each key ID derives a different key
+   * for the same pair of identities, so one leaked derived key only exposes the messages under it.
+   */
+  private nextKeyID(): string {
+    if (this.keyRotation == null) return LEGACY_KEY_ID
+    if (this.keyRotation.mode === 'epoch') {
+      return `epoch-${Math.floor(Date.now() / this.keyRotation.epochLength)}`
+    }
+    return `message-${Utils.toHex(Random(16))}`
+  }
+
+  /**
+   * @method decryptBody
+   * @private
+   * @description
+   * Decrypts the base64 `encryptedMessage` of a body received from `sender`, under the key ID it
+   * names (the legacy `'1'` if it names none).
+   */
+  private async decryptBody(sender: PubKeyHex, { ciphertext, keyID }: { ciphertext: string, keyID: string }): Promise<string> {
+    const decrypted = await this.walletClient.decrypt({
+      protocolID: [1, 'messagebox'],
+      keyID,
+      counterparty: sender,
+      ciphertext: Utils.toArray(ciphertext, 'base64')
+    }, this.originator)
+    return Utils.toUTF8(decrypted.plaintext)
+  }
+
+  /**
+   * @method decryptMessage
+   * @private
+   * @description
+   * Decrypts a received message's body and marks it `verified`, since only the sender could have
+   * encrypted it under the key shared with us. If it was sent sealed, verifies the signed sender
+   * inside it, replaces `sender` (the one-time key the server saw) with them and returns the inner body.
+   *
+   * @throws {Error} If a sealed sender's signature does not verify.
+   */
+  private async decryptMessage(message: PeerMessage, encrypted: { ciphertext: string, keyID: string }): Promise<string> {
+    const plaintext = await this.decryptBody(message.sender, encrypted)
+    const sealed = parseJsonBody(plaintext)
+    if (!isSealedSenderPayload(sealed)) {
+      message.verified = true
+      return plaintext
+    }
+
+    const { valid } = await this.walletClient.verifySignature({
+      data: sealedSenderSigningData({
+        sender: sealed.sender,
+        recipient: await this.getIdentityKey(),
+        transportKey: message.sender,
+        body: sealed.body
+      }),
+      signature: Utils.toArray(sealed.signature, 'hex'),
+      protocolID: SEALED_SENDER_PROTOCOL_ID,
+      keyID: '1',
+      counterparty: sealed.sender
+    }, this.originator).catch(() => ({ valid: false }))
+    if (!valid) {
+      throw new Error(`Sealed sender of message ${message.messageId} failed verification`)
+    }
+    message.sender = sealed.sender
+    message.sealedSender = true
+    message.verified = true
+    return sealed.body
+  }
+
+  /**
+   * @method sealBody
+   * @private
+   * @description
+   * Seals a prepared body for `recipient`: signs it together with this client's identity and a
+   * fresh one-time key, and encrypts the result with that key. The key is returned so the
+   * message can be posted as it.
+   */
+  private async sealBody(recipient: PubKeyHex, prepared: string | object): Promise<{ body: string, key: PrivateKey, transport: CompletedProtoWallet }> {
+    const key = PrivateKey.fromRandom()
+    const transport = new CompletedProtoWallet(key)
+    const body = serializeBody(this.padding != null ? padBody(prepared, this.padding) : prepared)
+    const sender = await this.getIdentityKey()
+
+    const { signature } = await this.walletClient.createSignature({
+      data: sealedSenderSigningData({ sender, recipient, transportKey: key.toPublicKey().toString(), body }),
+      protocolID: SEALED_SENDER_PROTOCOL_ID,
+      keyID: '1',
+      counterparty: recipient
+    }, this.originator)
+    const sealed = { sealed: SEALED_SENDER_MARKER, sender, signature: Utils.toHex(signature), body }
+
+    const keyID = this.nextKeyID()
+    const { ciphertext } = await transport.encrypt({
+      protocolID: [1, 'messagebox'],
+      keyID,
+      counterparty: recipient,
+      plaintext: Utils.toArray(JSON.stringify(sealed), 'utf8')
+    })
+    return {
+      body: JSON.stringify({ encryptedMessage: Utils.toBase64(ciphertext), ...(keyID !== LEGACY_KEY_ID && { keyID }) }),
+      key,
+      transport
     }
   }
 
@@ -1863,18 +2992,7 @@ export class MessageBoxClient {
   async acknowledgeNotification(message: PeerMessage): Promise<boolean> {
     await this.acknowledgeMessage({ messageIds: [message.messageId] })
 
-    const parsedBody: unknown =
-      typeof message.body === 'string' ? this.tryParse(message.body) : message.body
-
-    let paymentData: Payment | undefined
-
-    if (
-      parsedBody != null &&
-      typeof parsedBody === 'object' &&
-      'message' in parsedBody
-    ) {
-      paymentData = (parsedBody as any).payment
-    }
+    const paymentData = unwrapStoredBody(message.body).payment
 
     // Process payment if present - server now only stores recipient payments
     if (paymentData?.tx != null && paymentData.outputs != null) {
@@ -1992,6 +3110,9 @@ export class MessageBoxClient {
     const firstSuccess = successes.find(s => s.value != null)?.value
 
     if (firstSuccess != null) {
+      this.forgetListed(messageIds)
+      await this.recordProcessed(messageIds)
+      await this.sendReceipts(this.receipts.takeAcknowledged(messageIds), 'delivered')
       return firstSuccess
     }
 
@@ -2005,6 +3126,390 @@ export class MessageBoxClient {
     )
   }
 
+  /**
+   * @method editMessage
+   * @async
+   * @param {string} messageId - ID of a message this client sent.
+   * @param {string | Record<string, any>} body - The replacement body.
+   * @param {Object} [target] - Recipient, box and host of the original; only needed for messages
+   * this client has not sent recently (for example after a restart).
+   * @returns {Promise<SendMessageResponse>} The response for the control message.
+   *
+   * @description
+   * Sends a signed `edit` control message to the original message's box. Recipients replace the
+   * body and set `editedAt`; the edit is honoured only because it comes from the original sender.
+   * The new body must pass the box's validator if it has one.
+   *
+   * @throws {Error} If the original message is unknown and no target is given, or the body is invalid.
+   *
+   * @example
+   * const { messageId } = await client.sendMessage({ recipient, messageBox: 'inbox', body: 'See you at 5' })
+   * await client.editMessage(messageId, 'See you at 6')
+   */
+  async editMessage(
+    messageId: string,
+    body: string | Record<string, any>,
+    target?: Pick<OutboxEntry, 'recipient' | 'messageBox' | 'host'>
+  ): Promise<SendMessageResponse> {
+    if (body == null || (typeof body === 'string' && body.trim() === '')) {
+      throw new Error('Every message must have a body!')
+    }
+    return await this.sendControl({ action: 'edit', target: messageId, body }, target)
+  }
+
+  /**
+   * @method retractMessage
+   * @async
+   * @param {string} messageId - ID of a message this client sent.
+   * @param {Object} [target] - Recipient, box and host of the original (see `editMessage()`).
+   * @returns {Promise<SendMessageResponse>} The response for the control message, or status `cancelled`
+   * with the original's ID when it was still queued.
+   *
+   * @description
+   * Deletes a message for everyone: a signed `retract` control message tells recipients to drop it.
+   * A message still waiting in the outbox is removed instead, so it is never delivered and its
+   * recipient never hears of it.
+   *
+   * @throws {Error} If the original message is unknown and no target is given.
+   */
+  async retractMessage(
+    messageId: string,
+    target?: Pick<OutboxEntry, 'recipient' | 'messageBox' | 'host'>
+  ): Promise<SendMessageResponse> {
+    if (this.outbox != null && (await this.outbox.getStatus(messageId)) === 'queued') {
+      await this.outbox.remove(messageId)
+      Logger.log(`[MB CLIENT] Cancelled message ${messageId} before it was delivered`)
+      return { status: 'cancelled', messageId }
+    }
+    return await this.sendControl({ action: 'retract', target: messageId }, target)
+  }
+
+  /**
+   * @method sendControl
+   * @private
+   * @description
+   * Signs a control message for the original recipient and sends it to the original box.
+   */
+  private async sendControl(
+    instruction: Pick<MessageControl, 'action' | 'target' | 'body'>,
+    target?: Pick<OutboxEntry, 'recipient' | 'messageBox' | 'host'>
+  ): Promise<SendMessageResponse> {
+    const original = target ??
+      this.sentMessages.get(instruction.target) ??
+      await this.outbox?.store.get(instruction.target)
+    if (original == null) {
+      throw new Error(`Unknown message ${instruction.target}: pass its recipient and messageBox`)
+    }
+    if (instruction.action === 'edit') {
+      this.boxes.assertValid(original.messageBox, instruction.body)
+    }
+
+    const timestamp = Date.now()
+    const { signature } = await this.walletClient.createSignature({
+      data: controlSigningData({ ...instruction, timestamp }),
+      protocolID: CONTROL_PROTOCOL_ID,
+      keyID: '1',
+      counterparty: original.recipient
+    }, this.originator)
+    const control: MessageControl = { ...instruction, timestamp, signature: Utils.toHex(signature) }
+    return await this.sendMessage({
+      recipient: original.recipient,
+      messageBox: original.messageBox,
+      body: control,
+      contentType: CONTROL_CONTENT_TYPE
+    }, original.host)
+  }
+
+  /**
+   * @method verifyControl
+   * @private
+   * @description
+   * Returns the control carried by a received message if it is well formed, correctly signed by
+   * the message's sender and, for edits, carries a body the box accepts.
+   */
+  private async verifyControl(messageBox: string, message: PeerMessage): Promise<MessageControl | undefined> {
+    const control = typeof message.body === 'string' ? parseJsonBody(message.body) : message.body
+    if (!isMessageControl(control)) return undefined
+    if (control.action === 'edit' && !this.boxes.isValid(messageBox, control.body)) return undefined
+
+    const originalSender = this.seenSenders.get(control.target)
+    if (originalSender != null && originalSender !== message.sender) return undefined
+
+    try {
+      const { valid } = await this.walletClient.verifySignature({
+        data: controlSigningData(control),
+        signature: Utils.toArray(control.signature, 'hex'),
+        protocolID: CONTROL_PROTOCOL_ID,
+        keyID: '1',
+        counterparty: message.sender
+      }, this.originator)
+      return valid ? control : undefined
+    } catch (error) {
+      Logger.warn(`[MB CLIENT] Control message ${message.messageId} failed verification:`, error)
+      return undefined
+    }
+  }
+
+  /**
+   * @method applyControlMessages
+   * @private
+   * @description
+   * Applies verified edits and retractions to their originals in the same listing and drops the
+   * control messages. Controls whose original is not in the listing are kept, with `control` set.
+   * Rejected controls, applied controls and retracted originals are acknowledged on the server.
+   */
+  private async applyControlMessages(messageBox: string, messages: PeerMessage[], host?: string): Promise<PeerMessage[]> {
+    const controls = messages.filter(message => message.contentType === CONTROL_CONTENT_TYPE)
+    if (controls.length === 0) return messages
+
+    const dropped = new Set<PeerMessage>()
+    const rejected: PeerMessage[] = []
+    for (const message of controls) {
+      const control = await this.verifyControl(messageBox, message)
+      const original = control != null
+        ? messages.find(candidate => candidate.messageId === control.target && !dropped.has(candidate))
+        : undefined
+      if (control == null || (original != null && original.sender !== message.sender)) {
+        rejected.push(message)
+        dropped.add(message)
+        continue
+      }
+      if (original == null) {
+        // The original was delivered earlier; whoever holds it applies the control
+        message.control = control
+        continue
+      }
+      if (control.action === 'retract') {
+        dropped.add(original)
+      } else if (control.timestamp >= (original.editedAt ?? 0)) {
+        original.body = control.body as PeerMessage['body']
+        original.editedAt = control.timestamp
+      }
+      dropped.add(message)
+    }
+
+    if (rejected.length > 0) {
+      await this.rejectControlMessages(messageBox, rejected, host)
+    }
+    const applied = Array.from(dropped).filter(message => !rejected.includes(message))
+    if (applied.length > 0) {
+      try {
+        await this.acknowledgeMessage({ messageIds: applied.map(message => message.messageId), host })
+      } catch (error) {
+        Logger.error(`[MB CLIENT ERROR] Failed to acknowledge applied control messages in ${messageBox}:`, error)
+      }
+    }
+    return messages.filter(message => !dropped.has(message))
+  }
+
+  /**
+   * @method rejectControlMessages
+   * @private
+   * @description
+   * Drops and acknowledges control messages that are malformed, badly signed, or not from the
+   * original sender. Failures are logged; the messages are screened again on the next read.
+   */
+  private async rejectControlMessages(messageBox: string, messages: PeerMessage[], host?: string): Promise<void> {
+    Logger.warn(`[MB CLIENT] Rejecting ${messages.length} control message(s) in ${messageBox}`)
+    try {
+      await this.acknowledgeMessage({ messageIds: messages.map(message => message.messageId), host })
+    } catch (error) {
+      Logger.error(`[MB CLIENT ERROR] Failed to acknowledge rejected control messages in ${messageBox}:`, error)
+    }
+  }
+
+  /**
+   * @method rememberSent
+   * @private
+   * @description
+   * Records where a sent message went, for receipts and for later edits or retractions.
+   */
+  private rememberSent(messageId: string, message: SendMessageParams, host?: string): void {
+    if (message.contentType === CONTROL_CONTENT_TYPE) return
+    setBounded(this.sentMessages, messageId, { recipient: message.recipient, messageBox: message.messageBox, host }, RECENT_MESSAGE_LIMIT)
+    if (message.requestReceipt === true) this.receipts.track(messageId, message.recipient)
+  }
+
+  /**
+   * @method rememberReceived
+   * @private
+   * @description
+   * Records the sender of a delivered message, its nonce for the replay cache, and that it is
+   * owed a receipt if it asked for one.
+   */
+  private rememberReceived(message: PeerMessage): void {
+    const nonceKey = this.replayNonceKey(message)
+    if (nonceKey != null) setBounded(this.seenNonces, message.messageId, nonceKey, RECENT_MESSAGE_LIMIT)
+    if (message.control != null) return
+    setBounded(this.seenSenders, message.messageId, message.sender, RECENT_MESSAGE_LIMIT)
+    if (this.sendsReceipts) this.receipts.expect(message)
+  }
+
+  /**
+   * @method markRead
+   * @async
+   * @param {PeerMessage} message - A received message.
+   * @returns {Promise<boolean>} True if a `read` receipt was sent.
+   *
+   * @description
+   * Tells the sender that the message was read by sending a signed `read` receipt to their
+   * `receipts` box. Does nothing for messages that did not request a receipt, or when the client
+   * was created without the `receipts` option.
+   *
+   * @example
+   * const [message] = await client.listMessages({ messageBox: 'inbox' })
+   * await client.markRead(message)
+   */
+  async markRead(message: PeerMessage): Promise<boolean> {
+    if (!this.sendsReceipts || !requestsReceipt(message)) return false
+    await this.sendReceipt(message.messageId, message.sender, 'read')
+    return true
+  }
+
+  /**
+   * @method onReceipt
+   * @param {function} listener - Called with every verified receipt.
+   * @returns {() => void} A function that removes the listener.
+   *
+   * @description
+   * Registers a listener for receipts on messages sent with `requestReceipt: true`. Receipts arrive
+   * through `syncReceipts()` or, live, after `listenForReceipts()`.
+   *
+   * @example
+   * client.onReceipt(receipt => console.log(`${receipt.messageId} was ${receipt.status}`))
+   * await client.listenForReceipts()
+   */
+  onReceipt(listener: (receipt: ReceivedReceipt) => void): () => void {
+    return this.receipts.onReceipt(listener)
+  }
+
+  /**
+   * @method getDeliveryStatus
+   * @async
+   * @param {string} messageId - ID returned by `sendMessage()` or `sendLiveMessage()`.
+   * @returns {Promise<DeliveryStatus | undefined>} `read` or `delivered` once a receipt arrived;
+   * otherwise the outbox status, or `sent` for a message the server accepted. `undefined` if the
+   * message was not sent with `requestReceipt` or through the outbox.
+   *
+   * @description
+   * Reports what is known locally; call `syncReceipts()` or `listenForReceipts()` to pick up new receipts.
+   */
+  async getDeliveryStatus(messageId: string): Promise<DeliveryStatus | undefined> {
+    return this.receipts.statusOf(messageId) ??
+      await this.outbox?.getStatus(messageId) ??
+      (this.receipts.isTracked(messageId) ? 'sent' : undefined)
+  }
+
+  /**
+   * @method syncReceipts
+   * @async
+   * @param {string} [host] - Optional host override.
+   * @returns {Promise<ReceivedReceipt[]>} The receipts that were verified and recorded.
+   *
+   * @description
+   * Fetches the `receipts` box, verifies and records every receipt (notifying `onReceipt()`
+   * listeners) and acknowledges them on the server.
+   */
+  async syncReceipts(host?: string): Promise<ReceivedReceipt[]> {
+    const messages = await this.listMessages({ messageBox: RECEIPTS_MESSAGEBOX, host })
+    return await this.processReceipts(messages, host)
+  }
+
+  /**
+   * @method listenForReceipts
+   * @async
+   * @param {string} [overrideHost] - Optional host override for the WebSocket connection.
+   * @returns {Promise<void>}
+   *
+   * @description
+   * Listens for receipts over WebSocket, recording them as they arrive (see `syncReceipts()`).
+   */
+  async listenForReceipts(overrideHost?: string): Promise<void> {
+    await this.listenForLiveMessages({
+      messageBox: RECEIPTS_MESSAGEBOX,
+      overrideHost,
+      onMessage: (message: PeerMessage) => {
+        void this.processReceipts([message], overrideHost)
+      }
+    })
+  }
+
+  /**
+   * @method processReceipts
+   * @private
+   * @description
+   * Verifies received receipt messages against their sender, records the valid ones and
+   * acknowledges all of them. Failures are logged; unacknowledged receipts are retried on the next sync.
+   */
+  private async processReceipts(messages: PeerMessage[], host?: string): Promise<ReceivedReceipt[]> {
+    const received: ReceivedReceipt[] = []
+    for (const message of messages) {
+      const body = typeof message.body === 'string' ? parseJsonBody(message.body) : message.body
+      if (message.contentType !== RECEIPT_CONTENT_TYPE || !isMessageReceipt(body)) {
+        Logger.warn(`[MB CLIENT] Ignoring malformed receipt ${message.messageId}`)
+        continue
+      }
+      let valid = false
+      try {
+        ({ valid } = await this.walletClient.verifySignature({
+          data: receiptSigningData(body),
+          signature: Utils.toArray(body.signature, 'hex'),
+          protocolID: RECEIPT_PROTOCOL_ID,
+          keyID: '1',
+          counterparty: message.sender
+        }, this.originator))
+      } catch (error) {
+        Logger.warn(`[MB CLIENT] Receipt ${message.messageId} failed verification:`, error)
+      }
+      if (!valid) continue
+      const receipt: ReceivedReceipt = { ...body, from: message.sender }
+      if (this.receipts.record(receipt)) received.push(receipt)
+    }
+
+    if (messages.length > 0) {
+      try {
+        await this.acknowledgeMessage({ messageIds: messages.map(message => message.messageId), host })
+      } catch (error) {
+        Logger.error('[MB CLIENT ERROR] Failed to acknowledge receipts:', error)
+      }
+    }
+    return received
+  }
+
+  /**
+   * @method sendReceipts
+   * @private
+   * @description
+   * Sends a receipt for each message. Failures are logged, so acknowledging never fails because of a receipt.
+   */
+  private async sendReceipts(targets: Array<{ messageId: string, sender: string }>, status: ReceiptStatus): Promise<void> {
+    for (const { messageId, sender } of targets) {
+      try {
+        await this.sendReceipt(messageId, sender, status)
+      } catch (error) {
+        Logger.error(`[MB CLIENT ERROR] Failed to send ${status} receipt for ${messageId}:`, error)
+      }
+    }
+  }
+
+  /**
+   * @method sendReceipt
+   * @private
+   * @description
+   * Signs a receipt for the original sender and delivers it to their `receipts` box.
+   */
+  private async sendReceipt(messageId: string, sender: string, status: ReceiptStatus): Promise<void> {
+    const timestamp = Date.now()
+    const { signature } = await this.walletClient.createSignature({
+      data: receiptSigningData({ messageId, status, timestamp }),
+      protocolID: RECEIPT_PROTOCOL_ID,
+      keyID: '1',
+      counterparty: sender
+    }, this.originator)
+    const receipt: MessageReceipt = { messageId, status, timestamp, signature: Utils.toHex(signature) }
+    await this.sendMessage({ recipient: sender, messageBox: RECEIPTS_MESSAGEBOX, body: receipt, contentType: RECEIPT_CONTENT_TYPE })
+  }
+
   // ===========================
   // PERMISSION MANAGEMENT METHODS
   // ===========================
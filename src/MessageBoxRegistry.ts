@@ -0,0 +1,160 @@
+/**
+ * Typed message boxes.
+ *
+ * A box is defined once with a runtime validator for its payloads:
+ *
+ * ```typescript
+ * const orders = client.defineBox<OrderEvent>('orders', isOrderEvent, { onInvalid: 'quarantine' })
+ * await orders.send({ recipient, body: { sku: 'A1', quantity: 2 } })
+ * const events = await orders.list() // TypedMessage<OrderEvent>[]
+ * ```
+ *
+ * From then on the client enforces it for every caller, not just the typed handle:
+ * `sendMessage()` throws for payloads that fail validation, and `listMessages()`, the live
+ * listeners and subscriptions drop invalid received messages according to the box's
+ * `InvalidMessagePolicy`. String bodies are parsed as JSON before validation, so a box
+ * validates the same payload whether it was sent as an object or pre-serialized.
+ */
+
+import type { MessageBoxClient } from './MessageBoxClient.js'
+import { MemoryMessageStore } from './MessageStore.js'
+import { parseJsonBody } from './Utils/messageBody.js'
+import {
+  BoxDefinitionOptions,
+  InvalidMessagePolicy,
+  ListMessagesParams,
+  MessageStore,
+  PayloadValidator,
+  PeerMessage,
+  SendMessageParams,
+  SendMessageResponse,
+  StoredMessage,
+  TypedMessage
+} from './types.js'
+
+interface BoxDefinition {
+  validator: PayloadValidator<unknown>
+  onInvalid: InvalidMessagePolicy
+}
+
+export class MessageBoxRegistry {
+  private readonly boxes: Map<string, BoxDefinition> = new Map()
+
+  /**
+   * @param quarantine - Where quarantined messages are kept, under their box's name
+   */
+  constructor (readonly quarantine: MessageStore = new MemoryMessageStore()) {}
+
+  /**
+   * Registers (or replaces) the validator for a box.
+   */
+  define<T>(messageBox: string, validator: PayloadValidator<T>, options: BoxDefinitionOptions = {}): void {
+    if (messageBox == null || messageBox.trim() === '') {
+      throw new Error('You must provide a messageBox name to define!')
+    }
+    this.boxes.set(messageBox, { validator, onInvalid: options.onInvalid ?? 'reject' })
+  }
+
+  /**
+   * Returns true if the box has a validator.
+   */
+  has (messageBox: string): boolean {
+    return this.boxes.has(messageBox)
+  }
+
+  /**
+   * Checks a payload against the box's validator. Boxes without one accept everything;
+   * a validator that throws counts as a failure.
+   */
+  isValid (messageBox: string, payload: unknown): boolean {
+    const box = this.boxes.get(messageBox)
+    if (box == null) return true
+    try {
+      return box.validator(typeof payload === 'string' ? parseJsonBody(payload) : payload)
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * @throws {Error} If the payload fails the box's validator.
+   */
+  assertValid (messageBox: string, payload: unknown): void {
+    if (!this.isValid(messageBox, payload)) {
+      throw new Error(`Invalid payload for message box "${messageBox}"`)
+    }
+  }
+
+  /**
+   * The policy for received messages that fail validation.
+   */
+  policyFor (messageBox: string): InvalidMessagePolicy {
+    return this.boxes.get(messageBox)?.onInvalid ?? 'reject'
+  }
+}
+
+/**
+ * Typed view of one message box, returned by `MessageBoxClient.defineBox()`.
+ */
+export class TypedMessageBox<T> {
+  /**
+   * @param client - The client the box was defined on
+   * @param name - The message box name
+   */
+  constructor (private readonly client: MessageBoxClient, readonly name: string) {}
+
+  /**
+   * Narrows a payload to `T` using the box's validator.
+   */
+  isValid (payload: unknown): payload is T {
+    return this.client.boxes.isValid(this.name, payload)
+  }
+
+  /**
+   * Sends a payload to this box.
+   *
+   * @throws {Error} If the payload fails validation, or sending fails.
+   */
+  async send (
+    params: Omit<SendMessageParams, 'messageBox' | 'body'> & { body: T },
+    overrideHost?: string
+  ): Promise<SendMessageResponse> {
+    return await this.client.sendMessage({
+      ...params,
+      messageBox: this.name,
+      body: params.body as SendMessageParams['body']
+    }, overrideHost)
+  }
+
+  /**
+   * Lists received messages; invalid ones are already rejected or quarantined.
+   */
+  async list (params: Omit<ListMessagesParams, 'messageBox'> = {}): Promise<Array<TypedMessage<T>>> {
+    const messages = await this.client.listMessages({ ...params, messageBox: this.name })
+    return messages as Array<TypedMessage<T>>
+  }
+
+  /**
+   * Listens for valid live messages, delivering their parsed payloads.
+   */
+  async listen ({ onMessage, overrideHost }: {
+    onMessage: (message: TypedMessage<T>) => void
+    overrideHost?: string
+  }): Promise<void> {
+    await this.client.listenForLiveMessages({
+      messageBox: this.name,
+      overrideHost,
+      onMessage: (message: PeerMessage) => {
+        const body = typeof message.body === 'string' ? parseJsonBody(message.body) : message.body
+        onMessage({ ...message, body: body as T })
+      }
+    })
+  }
+
+  /**
+   * Lists messages quarantined from this box.
+   */
+  async listQuarantined (): Promise<StoredMessage[]> {
+    return await this.client.boxes.quarantine.list(this.name)
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Edit and retract control messages.
+ *
+ * `MessageBoxClient.editMessage()` and `retractMessage()` send a signed `MessageControl` to the
+ * box of the original message, with the `application/vnd.messagebox.control+json` content type.
+ * It references the original by its HMAC `messageId` and is signed with the
+ * `messagebox control` protocol, so the recipient can check it came from the identity the
+ * server authenticated as its sender.
+ *
+ * A control is only honoured from the sender of the original message. When both arrive in the
+ * same listing the client applies the control directly: an edit replaces the body and sets
+ * `editedAt`, and a retraction removes the original and deletes it on the server. Otherwise the
+ * verified control is delivered with `message.control` set, and `applyControlToStore()` applies
+ * it to a `MessageStore` once it can compare senders there.
+ */
+
+import { Utils, WalletProtocol } from '@bsv/sdk'
+import * as Logger from './Utils/logger.js'
+import { MessageControl, MessageStore, PeerMessage } from './types.js'
+
+export const CONTROL_CONTENT_TYPE = 'application/vnd.messagebox.control+json'
+export const CONTROL_PROTOCOL_ID: WalletProtocol = [1, 'messagebox control']
+
+/**
+ * The bytes a control message's signature covers.
+ */
+export function controlSigningData ({ action, target, body, timestamp }: Omit<MessageControl, 'signature'>): number[] {
+  return Utils.toArray(JSON.stringify({ action, target, body: body ?? null, timestamp }), 'utf8')
+}
+
+/**
+ * Returns true if the value has the shape of a `MessageControl`.
+ */
+export function isMessageControl (value: unknown): value is MessageControl {
+  const candidate = value as Partial<MessageControl>
+  return (
+    candidate != null &&
+    typeof candidate === 'object' &&
+    (candidate.action === 'retract' || (candidate.action === 'edit' && candidate.body != null)) &&
+    typeof candidate.target === 'string' &&
+    typeof candidate.timestamp === 'number' &&
+    typeof candidate.signature === 'string'
+  )
+}
+
+/**
+ * Applies a received control message to a local store.
+ *
+ * @returns False if the target is unknown, was sent by someone else or already carries a newer
+ *   edit; nothing is changed then.
+ */
+export async function applyControlToStore (store: MessageStore, message: PeerMessage & { control: MessageControl }): Promise<boolean> {
+  const { control } = message
+  const original = await store.get(control.target)
+  if (original == null) return false
+  if (original.sender !== message.sender) {
+    Logger.warn(`[MB CLIENT] Ignoring ${control.action} of ${control.target} from someone other than its sender`)
+    return false
+  }
+  if (control.action === 'retract') {
+    await store.delete([control.target])
+  } else if (original.editedAt != null && control.timestamp <= original.editedAt) {
+    Logger.log(`[MB CLIENT] Ignoring edit of ${control.target} older than the stored one`)
+    return false
+  } else {
+    await store.put(original.messageBox, [{ ...original, body: control.body as PeerMessage['body'], editedAt: control.timestamp }])
+  }
+  return true
+}
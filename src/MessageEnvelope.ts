@@ -0,0 +1,250 @@
+/**
+ * MessageEnvelope
+ *
+ * A versioned wrapper for message bodies that states what the payload is instead of
+ * leaving receivers to sniff JSON:
+ *
+ * ```json
+ * {
+ *   "envelope": "messagebox",
+ *   "version": 1,
+ *   "contentType": "application/json",
+ *   "schemaVersion": 2,
+ *   "headers": { "thread-id": "..." },
+ *   "payload": { ... }
+ * }
+ * ```
+ *
+ * The envelope is the plaintext of a message, so it is encrypted like any other body.
+ * Sending one is opt-in (set `contentType`, `schemaVersion` or `headers` on
+ * `SendMessageParams`), which keeps messages readable by older clients. Receivers
+ * accept both: `openEnvelope()` describes a legacy body with an inferred content type.
+ *
+ * A compressed envelope sets `contentEncoding` and carries the compressed JSON of its
+ * payload as base64. `inflateEnvelope()` restores it; the client does so for every
+ * received message before the envelope is applied.
+ *
+ * With the client's `padding` option every outgoing body is sent as an envelope whose
+ * `padding` field stretches it to a bucket size or by a random amount before encryption.
+ * Opening the envelope drops the field, so receivers never see it.
+ *
+ * Plaintext messages (`skipEncryption`) that are sent as envelopes, or with `signPlaintext`, carry a
+ * `signature`: the sender's signature over the message ID, recipient, message box and the rest of
+ * the envelope but its padding, made for `anyone` under the `messagebox signature` protocol so
+ * every reader of the box can check who wrote it and that it was meant for that box.
+ *
+ * With the client's `replayProtection` option every outgoing envelope carries a random `nonce`
+ * and its `sentAt` time. Both are inside the encryption or signature, so receivers can trust them
+ * to recognise replays and stale messages.
+ */
+
+import { Utils, WalletProtocol } from '@bsv/sdk'
+import { CompressionFormat, PeerMessage } from './types.js'
+import { compressBytes, decompressBytes } from './Utils/compression.js'
+
+export const ENVELOPE_MARKER = 'messagebox'
+export const ENVELOPE_VERSION = 1
+export const ENVELOPE_SIGNATURE_PROTOCOL_ID: WalletProtocol = [1, 'messagebox signature']
+
+/** Content type inferred for legacy string bodies. */
+export const TEXT_CONTENT_TYPE = 'text/plain'
+/** Content type inferred for legacy object bodies. */
+export const JSON_CONTENT_TYPE = 'application/json'
+
+export interface MessageEnvelope<T = unknown> {
+  envelope: typeof ENVELOPE_MARKER
+  version: typeof ENVELOPE_VERSION
+  /** MIME-style type of `payload`, e.g. `text/plain` or `application/vnd.example.order+json`. */
+  contentType: string
+  /** Version of the application schema `payload` follows. */
+  schemaVersion?: number
+  headers?: Record<string, string>
+  /** Unix time (ms) after which the message is worthless. */
+  expiresAt?: number
+  /** Random value that makes the message unique, so a replay of it can be recognised. */
+  nonce?: string
+  /** Unix time (ms) at which the message was sent. */
+  sentAt?: number
+  /** Set when `payload` is the base64 of the compressed JSON payload. */
+  contentEncoding?: CompressionFormat
+  /** Filler that hides the payload size; ignored by receivers. */
+  padding?: string
+  /** Hex signature of a plaintext message by its sender; see `envelopeSigningData()`. */
+  signature?: string
+  payload: T
+}
+
+export interface EnvelopeOptions {
+  /** Defaults to `text/plain` for strings and `application/json` otherwise. */
+  contentType?: string
+  schemaVersion?: number
+  headers?: Record<string, string>
+  expiresAt?: number
+  nonce?: string
+  sentAt?: number
+}
+
+/**
+ * The result of opening a message body, enveloped or not.
+ */
+export interface OpenedEnvelope<T = unknown> {
+  contentType: string
+  schemaVersion?: number
+  headers: Record<string, string>
+  expiresAt?: number
+  payload: T
+  /** False when the body was a legacy, un-enveloped message. */
+  enveloped: boolean
+}
+
+/**
+ * Wraps a payload in an envelope.
+ */
+export function createEnvelope<T> (payload: T, options: EnvelopeOptions = {}): MessageEnvelope<T> {
+  const { contentType, schemaVersion, headers, expiresAt, nonce, sentAt } = options
+  return {
+    envelope: ENVELOPE_MARKER,
+    version: ENVELOPE_VERSION,
+    contentType: contentType ?? (typeof payload === 'string' ? TEXT_CONTENT_TYPE : JSON_CONTENT_TYPE),
+    ...(schemaVersion != null && { schemaVersion }),
+    ...(headers != null && Object.keys(headers).length > 0 && { headers }),
+    ...(expiresAt != null && { expiresAt }),
+    ...(nonce != null && { nonce }),
+    ...(sentAt != null && { sentAt }),
+    payload
+  }
+}
+
+/**
+ * Serializes an envelope for use as a message body.
+ */
+export function encodeEnvelope (envelope: MessageEnvelope): string {
+  return JSON.stringify(envelope)
+}
+
+/**
+ * Returns true if `value` is a well-formed envelope this client understands.
+ */
+export function isMessageEnvelope (value: unknown): value is MessageEnvelope {
+  if (value == null || typeof value !== 'object') return false
+  const candidate = value as Partial<MessageEnvelope>
+  return candidate.envelope === ENVELOPE_MARKER &&
+    candidate.version === ENVELOPE_VERSION &&
+    typeof candidate.contentType === 'string' &&
+    'payload' in candidate &&
+    (candidate.schemaVersion == null || typeof candidate.schemaVersion === 'number') &&
+    (candidate.headers == null || typeof candidate.headers === 'object') &&
+    (candidate.expiresAt == null || typeof candidate.expiresAt === 'number') &&
+    (candidate.nonce == null || typeof candidate.nonce === 'string') &&
+    (candidate.sentAt == null || typeof candidate.sentAt === 'number') &&
+    (candidate.padding == null || typeof candidate.padding === 'string') &&
+    (candidate.signature == null || typeof candidate.signature === 'string') &&
+    (candidate.contentEncoding == null ||
+      ((candidate.contentEncoding === 'gzip' || candidate.contentEncoding === 'deflate') && typeof candidate.payload === 'string'))
+}
+
+/**
+ * Parses an envelope from a message body (serialized or already parsed).
+ *
+ * @returns The envelope, or `undefined` if the body is not one.
+ */
+export function decodeEnvelope (body: unknown): MessageEnvelope | undefined {
+  let value = body
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value)
+    } catch {
+      return undefined
+    }
+  }
+  return isMessageEnvelope(value) ? value : undefined
+}
+
+/**
+ * The bytes an envelope's `signature` covers: the message ID, where the message was sent, and the
+ * envelope without the signature and padding, so a signed body can still be padded but cannot be
+ * replayed to another recipient or box.
+ */
+export function envelopeSigningData ({ messageId, recipient, messageBox }: {
+  messageId: string
+  recipient: string
+  messageBox: string
+}, envelope: MessageEnvelope): number[] {
+  const { signature, padding, ...signed } = envelope
+  return Utils.toArray(JSON.stringify({ messageId, recipient, messageBox, envelope: signed }), 'utf8')
+}
+
+/**
+ * Compresses an envelope's payload.
+ */
+export async function compressEnvelope (envelope: MessageEnvelope, format: CompressionFormat): Promise<MessageEnvelope<string>> {
+  const json = Utils.toArray(JSON.stringify(envelope.payload), 'utf8')
+  return { ...envelope, contentEncoding: format, payload: Utils.toBase64(await compressBytes(json, format)) }
+}
+
+/**
+ * Decompresses the payload of a compressed envelope. Any other body is returned unchanged.
+ *
+ * @param maxSize - Largest size (bytes) the payload may inflate to.
+ * @throws {Error} If the compressed payload is corrupt or inflates to more than `maxSize` bytes.
+ */
+export async function inflateEnvelope (body: unknown, maxSize?: number): Promise<unknown> {
+  const envelope = decodeEnvelope(body)
+  if (envelope?.contentEncoding == null) return body
+  const { contentEncoding, ...rest } = envelope
+  const json = await decompressBytes(Utils.toArray(envelope.payload as string, 'base64'), contentEncoding, maxSize)
+  return { ...rest, payload: JSON.parse(Utils.toUTF8(json)) }
+}
+
+/**
+ * Opens any message body. Enveloped bodies yield their declared metadata; legacy bodies
+ * yield themselves as the payload with an inferred content type. Compressed envelopes must be
+ * passed through `inflateEnvelope()` first.
+ */
+export function openEnvelope (body: unknown): OpenedEnvelope {
+  const envelope = decodeEnvelope(body)
+  if (envelope != null) {
+    return {
+      contentType: envelope.contentType,
+      ...(envelope.schemaVersion != null && { schemaVersion: envelope.schemaVersion }),
+      headers: envelope.headers ?? {},
+      ...(envelope.expiresAt != null && { expiresAt: envelope.expiresAt }),
+      payload: envelope.payload,
+      enveloped: true
+    }
+  }
+  return {
+    contentType: typeof body === 'string' ? TEXT_CONTENT_TYPE : JSON_CONTENT_TYPE,
+    headers: {},
+    payload: body,
+    enveloped: false
+  }
+}
+
+/**
+ * Moves envelope metadata onto a received message: `body` becomes the payload and
+ * `contentType`, `schemaVersion`, `headers`, `expiresAt`, `nonce` and `sentAt` are set. Legacy messages are left as they are.
+ *
+ * @param stringify - Serialize object payloads, for paths that deliver string bodies.
+ */
+export function applyEnvelope (message: PeerMessage, body: unknown, stringify = false): void {
+  const envelope = decodeEnvelope(body)
+  if (envelope == null) return
+  const { payload } = envelope
+  message.body = stringify && typeof payload !== 'string'
+    ? JSON.stringify(payload)
+    : payload as PeerMessage['body']
+  message.contentType = envelope.contentType
+  if (envelope.schemaVersion != null) message.schemaVersion = envelope.schemaVersion
+  if (envelope.headers != null) message.headers = envelope.headers
+  if (envelope.expiresAt != null) message.expiresAt = envelope.expiresAt
+  if (envelope.nonce != null) message.nonce = envelope.nonce
+  if (envelope.sentAt != null) message.sentAt = envelope.sentAt
+}
+
+/**
+ * Returns true if the message carries an expiry that has passed.
+ */
+export function isMessageExpired (message: Pick<PeerMessage, 'expiresAt'>, now = Date.now()): boolean {
+  return message.expiresAt != null && message.expiresAt <= now
+}
@@ -0,0 +1,80 @@
+/**
+ * MessageOrdering
+ *
+ * Deterministic ordering for message lists. `listMessages`, `listMessagesPage` and the
+ * live catch-up merge all sort with these helpers, so a given set of messages always
+ * comes back in the same order regardless of how many hosts were queried or which
+ * answered first.
+ *
+ * Messages are compared by the configured timestamp and then by `messageId` (plain
+ * code-unit comparison, independent of locale), both in the configured direction.
+ */
+
+import { MessageOrder, PeerMessage } from './types.js'
+
+export const DEFAULT_MESSAGE_ORDER: Required<MessageOrder> = {
+  by: 'created_at',
+  direction: 'asc'
+}
+
+/**
+ * The values a message is ordered by.
+ */
+export interface MessagePosition {
+  /** Unix time (ms) of the sort timestamp; 0 when missing or unparsable. */
+  time: number
+  messageId: string
+}
+
+/**
+ * Fills in the defaults for a partial order.
+ */
+export function resolveMessageOrder (order: MessageOrder = {}): Required<MessageOrder> {
+  return { ...DEFAULT_MESSAGE_ORDER, ...order }
+}
+
+/**
+ * The fields of a message that ordering looks at.
+ */
+export type OrderableMessage = Pick<PeerMessage, 'messageId'> & Partial<Pick<PeerMessage, 'created_at' | 'updated_at'>>
+
+/**
+ * Extracts the values a message is ordered by.
+ */
+export function messagePosition (message: OrderableMessage, by: MessageOrder['by'] = DEFAULT_MESSAGE_ORDER.by): MessagePosition {
+  const time = Date.parse(message[by] ?? '')
+  return { time: Number.isNaN(time) ? 0 : time, messageId: String(message.messageId) }
+}
+
+/**
+ * Compares two positions in the given direction.
+ */
+export function comparePositions (a: MessagePosition, b: MessagePosition, direction: MessageOrder['direction'] = 'asc'): number {
+  let result = a.time - b.time
+  if (result === 0) {
+    result = a.messageId < b.messageId ? -1 : a.messageId > b.messageId ? 1 : 0
+  }
+  return direction === 'desc' ? -result : result
+}
+
+/**
+ * Compares two messages according to `order`.
+ *
+ * @example
+ * messages.sort((a, b) => compareMessages(a, b, { direction: 'desc' }))
+ */
+export function compareMessages (a: OrderableMessage, b: OrderableMessage, order?: MessageOrder): number {
+  const { by, direction } = resolveMessageOrder(order)
+  return comparePositions(messagePosition(a, by), messagePosition(b, by), direction)
+}
+
+/**
+ * Returns a sorted copy of `messages`.
+ */
+export function sortMessages<T extends OrderableMessage> (messages: T[], order?: MessageOrder): T[] {
+  const { by, direction } = resolveMessageOrder(order)
+  return messages
+    .map(message => ({ message, position: messagePosition(message, by) }))
+    .sort((a, b) => comparePositions(a.position, b.position, direction))
+    .map(({ message }) => message)
+}
@@ -0,0 +1,239 @@
+/**
+ * MessageOutbox
+ *
+ * Persists prepared (already encrypted) messages and delivers them with retry and backoff.
+ * Used by `MessageBoxClient` when the `outbox` option is enabled: a message whose first
+ * delivery fails for a transient reason (host unreachable, 5xx, timeout) stays `queued`
+ * and is retried until the server acknowledges it or the attempt budget is spent.
+ *
+ * Retries reuse the deterministic HMAC `messageId`, so a message that reached the server
+ * before the connection dropped is not delivered twice. Once an entry is `sent`, submitting
+ * the same `messageId` again (the same body to the same recipient) is a new message.
+ *
+ * Entries submitted with a future `deliverAt` are held `queued` until that time, which is
+ * how `sendMessage({ deliverAt })` schedules delivery. With a persistent store the schedule
+ * survives restarts: `start()` picks the entries up again.
+ */
+
+import { OutboxEntry, OutboxOptions, OutboxStatus, OutboxStore, SendMessageResponse } from './types.js'
+import { MemoryOutboxStore } from './OutboxStores.js'
+import { ReconnectionManager } from './ReconnectionManager.js'
+import * as Logger from './Utils/logger.js'
+
+const DEFAULT_MAX_ATTEMPTS = 10
+// setTimeout fires immediately for delays above 2^31 - 1 ms; longer waits re-arm the timer
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+/**
+ * Delivers one outbox entry. Rejects with an error carrying `permanent: true` when retrying
+ * cannot help (for example a 4xx response); any other rejection is retried.
+ */
+export type OutboxSender = (entry: OutboxEntry) => Promise<SendMessageResponse>
+
+/**
+ * The fields a caller provides when submitting a message; the outbox fills in the rest.
+ */
+export type OutboxSubmission = Pick<OutboxEntry, 'messageId' | 'recipient' | 'messageBox' | 'body' | 'payment' | 'host' | 'expiresAt' | 'deliverAt' | 'sealed'>
+
+export class MessageOutbox {
+  readonly store: OutboxStore
+  private readonly backoff: ReconnectionManager
+  private readonly maxAttempts: number
+  private readonly inFlight: Set<string> = new Set()
+  private readonly listeners: Set<(entry: OutboxEntry) => void> = new Set()
+  private timer?: ReturnType<typeof setTimeout>
+  private started?: Promise<void>
+  private running = false
+
+  constructor (private readonly sender: OutboxSender, options: OutboxOptions = {}) {
+    this.store = options.store ?? new MemoryOutboxStore()
+    this.backoff = new ReconnectionManager(options.retry)
+    this.maxAttempts = options.retry?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+  }
+
+  /**
+   * Resumes delivery of entries left in the store by a previous run. Entries that were
+   * mid-send when the process stopped go back to `queued`. Safe to call more than once.
+   */
+  async start (): Promise<void> {
+    this.running = true
+    if (this.started == null) {
+      this.started = (async () => {
+        for (const entry of await this.store.list()) {
+          if (entry.status === 'sending') {
+            await this.save({ ...entry, status: 'queued' })
+          }
+        }
+        await this.schedule()
+      })()
+    }
+    await this.started
+  }
+
+  /**
+   * Stops the retry timer. Entries stay in the store and resume on the next `start()`.
+   * `submit()` still makes its immediate attempt while stopped.
+   */
+  stop (): void {
+    this.running = false
+    if (this.timer != null) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+    this.started = undefined
+  }
+
+  /**
+   * Persists a message and makes the first delivery attempt, or holds it until `deliverAt`.
+   *
+   * Submitting a `messageId` that is still queued or sending does not send it again.
+   * A `sent` or `failed` entry is replaced and delivered afresh.
+   *
+   * @returns {Promise<OutboxEntry>} The entry after the first attempt: `sent`, `queued` (scheduled or will be retried) or `failed`.
+   */
+  async submit (submission: OutboxSubmission): Promise<OutboxEntry> {
+    const existing = await this.store.get(submission.messageId)
+    if (existing != null && (existing.status === 'queued' || existing.status === 'sending')) {
+      Logger.log(`[MB CLIENT] Message ${submission.messageId} is already in the outbox (${existing.status})`)
+      return existing
+    }
+
+    const now = Date.now()
+    const entry = await this.save({
+      ...submission,
+      status: 'queued',
+      attempts: 0,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      nextAttemptAt: Math.max(now, submission.deliverAt ?? now)
+    })
+    if (entry.nextAttemptAt > now) {
+      Logger.log(`[MB CLIENT] Outbox scheduled message ${entry.messageId} for ${new Date(entry.nextAttemptAt).toISOString()}`)
+      await this.schedule()
+      return entry
+    }
+    return await this.attempt(entry)
+  }
+
+  /**
+   * Returns the delivery status of a message, or `undefined` if the outbox does not know it.
+   */
+  async getStatus (messageId: string): Promise<OutboxStatus | undefined> {
+    return (await this.store.get(messageId))?.status
+  }
+
+  /**
+   * Lists stored entries, optionally filtered by status.
+   */
+  async list (status?: OutboxStatus): Promise<OutboxEntry[]> {
+    const entries = await this.store.list()
+    return status == null ? entries : entries.filter(entry => entry.status === status)
+  }
+
+  /**
+   * Requeues a `failed` entry for immediate delivery.
+   */
+  async retry (messageId: string): Promise<OutboxEntry | undefined> {
+    const entry = await this.store.get(messageId)
+    if (entry == null || entry.status !== 'failed') return entry
+    return await this.attempt(await this.save({ ...entry, status: 'queued', attempts: 0, nextAttemptAt: Date.now() }))
+  }
+
+  /**
+   * Removes an entry (for example a `sent` one that no longer needs tracking).
+   */
+  async remove (messageId: string): Promise<void> {
+    await this.store.delete(messageId)
+  }
+
+  /**
+   * Registers a listener for status changes of any entry.
+   *
+   * @returns {() => void} A function that removes the listener.
+   */
+  onStatusChange (listener: (entry: OutboxEntry) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async attempt (entry: OutboxEntry): Promise<OutboxEntry> {
+    if (this.inFlight.has(entry.messageId)) return entry
+    this.inFlight.add(entry.messageId)
+
+    try {
+      if (entry.expiresAt != null && entry.expiresAt <= Date.now()) {
+        Logger.warn(`[MB CLIENT] Outbox dropped expired message ${entry.messageId}`)
+        return await this.save({ ...entry, status: 'failed', lastError: 'Message expired before it could be delivered' })
+      }
+
+      let current = await this.save({ ...entry, status: 'sending', attempts: entry.attempts + 1 })
+      try {
+        await this.sender(current)
+        current = await this.save({ ...current, status: 'sent', lastError: undefined })
+        Logger.log(`[MB CLIENT] Outbox delivered message ${current.messageId}`)
+      } catch (error) {
+        const lastError = error instanceof Error ? error.message : String(error)
+        const permanent = (error as { permanent?: boolean })?.permanent === true
+        if (permanent || current.attempts >= this.maxAttempts) {
+          Logger.error(`[MB CLIENT ERROR] Outbox gave up on message ${current.messageId}:`, lastError)
+          current = await this.save({ ...current, status: 'failed', lastError })
+        } else {
+          const delay = this.backoff.delayFor(current.attempts - 1)
+          Logger.warn(`[MB CLIENT] Outbox will retry message ${current.messageId} in ${delay}ms:`, lastError)
+          current = await this.save({ ...current, status: 'queued', lastError, nextAttemptAt: Date.now() + delay })
+        }
+      }
+      return current
+    } finally {
+      this.inFlight.delete(entry.messageId)
+      await this.schedule()
+    }
+  }
+
+  /**
+   * Arms a single timer for the earliest queued entry while the outbox is running.
+   */
+  private async schedule (): Promise<void> {
+    const queued = (await this.store.list())
+      .filter(entry => entry.status === 'queued' && !this.inFlight.has(entry.messageId))
+    if (this.timer != null) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+    if (!this.running || queued.length === 0) return
+
+    const next = Math.min(...queued.map(entry => entry.nextAttemptAt))
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      void this.flush()
+    }, Math.min(MAX_TIMER_DELAY, Math.max(0, next - Date.now())))
+    // Pending retries must not keep a Node process alive on their own
+    const timer = this.timer as { unref?: () => void }
+    timer.unref?.()
+  }
+
+  private async flush (): Promise<void> {
+    const now = Date.now()
+    const due = (await this.store.list())
+      .filter(entry => entry.status === 'queued' && entry.nextAttemptAt <= now)
+    for (const entry of due) {
+      await this.attempt(entry)
+    }
+    await this.schedule()
+  }
+
+  private async save (entry: OutboxEntry): Promise<OutboxEntry> {
+    const updated = { ...entry, updatedAt: Date.now() }
+    await this.store.put(updated)
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener({ ...updated })
+      } catch (error) {
+        Logger.error('[MB CLIENT ERROR] Outbox status listener threw:', error)
+      }
+    }
+    return updated
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Delivery and read receipts.
+ *
+ * A sender asks for receipts with `sendMessage({ requestReceipt: true })`, which sets the
+ * `receipt-requested` envelope header. A recipient whose client has the `receipts` option
+ * enabled answers with a signed `MessageReceipt` in the sender's `receipts` box: `delivered`
+ * when it acknowledges the message, and `read` when it calls `markRead()`.
+ *
+ * Receipts are signed with the `messagebox receipt` protocol. The sender verifies them against
+ * the identity the server authenticated as the receipt's sender, and only accepts a receipt for
+ * a tracked message from that message's recipient. Tracking is in memory and covers the most
+ * recent messages, so receipts for messages sent before a restart are ignored. Statuses only
+ * move forward, so a late `delivered` receipt never overrides `read`.
+ */
+
+import { Utils, WalletProtocol } from '@bsv/sdk'
+import * as Logger from './Utils/logger.js'
+import { setBounded } from './Utils/boundedMap.js'
+import { MessageReceipt, PeerMessage, ReceiptStatus, ReceivedReceipt } from './types.js'
+
+export const RECEIPTS_MESSAGEBOX = 'receipts'
+export const RECEIPT_CONTENT_TYPE = 'application/vnd.messagebox.receipt+json'
+export const RECEIPT_REQUESTED_HEADER = 'receipt-requested'
+export const RECEIPT_PROTOCOL_ID: WalletProtocol = [1, 'messagebox receipt']
+
+const STATUS_RANK: Record<ReceiptStatus, number> = { delivered: 1, read: 2 }
+// How many sent and received messages the tracker remembers receipt state for
+const TRACKED_MESSAGE_LIMIT = 10000
+
+/**
+ * The bytes a receipt's signature covers.
+ */
+export function receiptSigningData ({ messageId, status, timestamp }: Pick<MessageReceipt, 'messageId' | 'status' | 'timestamp'>): number[] {
+  return Utils.toArray(JSON.stringify({ messageId, status, timestamp }), 'utf8')
+}
+
+/**
+ * Returns true if the value has the shape of a `MessageReceipt`.
+ */
+export function isMessageReceipt (value: unknown): value is MessageReceipt {
+  const candidate = value as Partial<MessageReceipt>
+  return (
+    candidate != null &&
+    typeof candidate === 'object' &&
+    typeof candidate.messageId === 'string' &&
+    (candidate.status === 'delivered' || candidate.status === 'read') &&
+    typeof candidate.timestamp === 'number' &&
+    typeof candidate.signature === 'string'
+  )
+}
+
+/**
+ * Returns true if the received message asked for receipts.
+ */
+export function requestsReceipt (message: Pick<PeerMessage, 'headers'>): boolean {
+  return message.headers?.[RECEIPT_REQUESTED_HEADER] === 'true'
+}
+
+/**
+ * In-memory receipt state of one client: the sent messages awaiting receipts, and the received
+ * messages whose `delivered` receipt goes out when they are acknowledged.
+ */
+export class ReceiptTracker {
+  private readonly sent: Map<string, { recipient: string, status?: ReceiptStatus }> = new Map()
+  private readonly awaitingAck: Map<string, string> = new Map()
+  private readonly listeners: Set<(receipt: ReceivedReceipt) => void> = new Set()
+
+  /**
+   * Starts tracking a sent message that requested receipts.
+   */
+  track (messageId: string, recipient: string): void {
+    if (!this.sent.has(messageId)) {
+      setBounded(this.sent, messageId, { recipient }, TRACKED_MESSAGE_LIMIT)
+    }
+  }
+
+  /**
+   * Remembers a received message that requested receipts until it is acknowledged.
+   */
+  expect (message: PeerMessage): void {
+    if (requestsReceipt(message)) {
+      setBounded(this.awaitingAck, message.messageId, message.sender, TRACKED_MESSAGE_LIMIT)
+    }
+  }
+
+  /**
+   * Removes and returns the received messages among `messageIds` that are owed a `delivered` receipt.
+   */
+  takeAcknowledged (messageIds: string[]): Array<{ messageId: string, sender: string }> {
+    return messageIds.flatMap(messageId => {
+      const sender = this.awaitingAck.get(messageId)
+      if (sender == null) return []
+      this.awaitingAck.delete(messageId)
+      return [{ messageId, sender }]
+    })
+  }
+
+  /**
+   * Records a verified receipt and notifies listeners.
+   *
+   * @returns False if the message is not tracked or the receipt came from someone other than its recipient.
+   */
+  record (receipt: ReceivedReceipt): boolean {
+    const tracked = this.sent.get(receipt.messageId)
+    if (tracked == null) {
+      Logger.warn(`[MB CLIENT] Ignoring receipt for untracked message ${receipt.messageId}`)
+      return false
+    }
+    if (tracked.recipient !== receipt.from) {
+      Logger.warn(`[MB CLIENT] Ignoring receipt for ${receipt.messageId} from someone other than its recipient`)
+      return false
+    }
+    if (tracked.status == null || STATUS_RANK[receipt.status] > STATUS_RANK[tracked.status]) {
+      tracked.status = receipt.status
+    }
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener({ ...receipt })
+      } catch (error) {
+        Logger.error('[MB CLIENT ERROR] Receipt listener threw:', error)
+      }
+    }
+    return true
+  }
+
+  /**
+   * Returns true if the message is tracked, with or without a receipt.
+   */
+  isTracked (messageId: string): boolean {
+    return this.sent.has(messageId)
+  }
+
+  /**
+   * The most advanced receipt received for a message, if any.
+   */
+  statusOf (messageId: string): ReceiptStatus | undefined {
+    return this.sent.get(messageId)?.status
+  }
+
+  /**
+   * @returns A function that removes the listener.
+   */
+  onReceipt (listener: (receipt: ReceivedReceipt) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Local message stores.
+ *
+ * Once a message is acknowledged the server deletes it, so apps that show history need a
+ * local copy. These stores keep decrypted `PeerMessage` records per message box, remember
+ * which ones were acknowledged and hold the high-water mark used by `MessageSyncEngine`.
+ *
+ * - `MemoryMessageStore` keeps records for the lifetime of the process.
+ * - `FileMessageStore` persists records to a JSON file (Node.js only).
+ * - `SqliteMessageStore` persists records in a SQLite database supplied by the caller.
+ */
+
+import { MessageHighWaterMark, MessageStore, PeerMessage, StoredMessage, StoredMessageQuery } from './types.js'
+import { sortMessages } from './MessageOrdering.js'
+import { readJsonFile, writeJsonFile } from './Utils/jsonFile.js'
+
+export class MemoryMessageStore implements MessageStore {
+  protected readonly messages: Map<string, StoredMessage> = new Map()
+  protected readonly highWaterMarks: Map<string, MessageHighWaterMark> = new Map()
+
+  async put (messageBox: string, messages: Array<PeerMessage & { recipient?: string }>): Promise<void> {
+    const now = Date.now()
+    for (const message of messages) {
+      const messageId = String(message.messageId)
+      const existing = this.messages.get(messageId)
+      this.messages.set(messageId, {
+        ...message,
+        messageId,
+        messageBox,
+        acknowledged: existing?.acknowledged ?? message.acknowledged === true,
+        storedAt: existing?.storedAt ?? now
+      })
+    }
+  }
+
+  async get (messageId: string): Promise<StoredMessage | undefined> {
+    const message = this.messages.get(messageId)
+    return message != null ? { ...message } : undefined
+  }
+
+  async list (messageBox: string, query: StoredMessageQuery = {}): Promise<StoredMessage[]> {
+    return selectStoredMessages(Array.from(this.messages.values()), messageBox, query)
+      .map(message => ({ ...message }))
+  }
+
+  async markAcknowledged (messageIds: string[]): Promise<void> {
+    for (const messageId of messageIds) {
+      const message = this.messages.get(messageId)
+      if (message != null) message.acknowledged = true
+    }
+  }
+
+  async delete (messageIds: string[]): Promise<void> {
+    for (const messageId of messageIds) {
+      this.messages.delete(messageId)
+    }
+  }
+
+  async getHighWaterMark (messageBox: string): Promise<MessageHighWaterMark | undefined> {
+    const mark = this.highWaterMarks.get(messageBox)
+    return mark != null ? { ...mark } : undefined
+  }
+
+  async setHighWaterMark (messageBox: string, mark: MessageHighWaterMark): Promise<void> {
+    this.highWaterMarks.set(messageBox, { ...mark })
+  }
+}
+
+interface MessageStoreSnapshot {
+  messages: StoredMessage[]
+  highWaterMarks: Record<string, MessageHighWaterMark>
+}
+
+/**
+ * Keeps all records in a single JSON file. The file is loaded on first use and rewritten
+ * after every change; writes are serialized so concurrent updates cannot interleave.
+ */
+export class FileMessageStore extends MemoryMessageStore {
+  private loaded?: Promise<void>
+  private writing: Promise<void> = Promise.resolve()
+
+  /**
+   * @param {string} filePath - Path of the JSON file. It is created on the first write.
+   */
+  constructor (private readonly filePath: string) {
+    super()
+  }
+
+  async put (messageBox: string, messages: Array<PeerMessage & { recipient?: string }>): Promise<void> {
+    await this.load()
+    await super.put(messageBox, messages)
+    await this.save()
+  }
+
+  async get (messageId: string): Promise<StoredMessage | undefined> {
+    await this.load()
+    return await super.get(messageId)
+  }
+
+  async list (messageBox: string, query?: StoredMessageQuery): Promise<StoredMessage[]> {
+    await this.load()
+    return await super.list(messageBox, query)
+  }
+
+  async markAcknowledged (messageIds: string[]): Promise<void> {
+    await this.load()
+    await super.markAcknowledged(messageIds)
+    await this.save()
+  }
+
+  async delete (messageIds: string[]): Promise<void> {
+    await this.load()
+    await super.delete(messageIds)
+    await this.save()
+  }
+
+  async getHighWaterMark (messageBox: string): Promise<MessageHighWaterMark | undefined> {
+    await this.load()
+    return await super.getHighWaterMark(messageBox)
+  }
+
+  async setHighWaterMark (messageBox: string, mark: MessageHighWaterMark): Promise<void> {
+    await this.load()
+    await super.setHighWaterMark(messageBox, mark)
+    await this.save()
+  }
+
+  private async load (): Promise<void> {
+    if (this.loaded == null) {
+      this.loaded = (async () => {
+        const snapshot = await readJsonFile<MessageStoreSnapshot>(this.filePath, { messages: [], highWaterMarks: {} })
+        for (const message of snapshot.messages) {
+          this.messages.set(message.messageId, message)
+        }
+        for (const [messageBox, mark] of Object.entries(snapshot.highWaterMarks)) {
+          this.highWaterMarks.set(messageBox, mark)
+        }
+      })()
+    }
+    await this.loaded
+  }
+
+  private async save (): Promise<void> {
+    const write = this.writing.then(async () => {
+      const snapshot: MessageStoreSnapshot = {
+        messages: Array.from(this.messages.values()),
+        highWaterMarks: Object.fromEntries(this.highWaterMarks)
+      }
+      await writeJsonFile(this.filePath, snapshot)
+    })
+    // A failed write must not block later ones; the caller still sees the error
+    this.writing = write.catch(() => {})
+    await write
+  }
+}
+
+/**
+ * The subset of a synchronous SQLite database handle used by `SqliteMessageStore`.
+ * Both `better-sqlite3` databases and Node's built-in `node:sqlite` `DatabaseSync` match it.
+ */
+export interface SqliteDatabase {
+  exec: (sql: string) => unknown
+  prepare: (sql: string) => {
+    run: (...params: any[]) => unknown
+    all: (...params: any[]) => unknown[]
+    get: (...params: any[]) => unknown
+  }
+}
+
+interface SqliteMessageRow {
+  message_id: string
+  message_box: string
+  sender: string
+  body: string
+  recipient: string | null
+  content_type: string | null
+  schema_version: number | null
+  headers: string | null
+  created_at: string
+  updated_at: string
+  acknowledged: number
+  stored_at: number
+  edited_at: number | null
+}
+
+/**
+ * Persists records in SQLite. The caller opens the database (with `better-sqlite3` or
+ * `node:sqlite`) and passes it in; the store creates its tables if they do not exist.
+ */
+export class SqliteMessageStore implements MessageStore {
+  private readonly messagesTable: string
+  private readonly marksTable: string
+
+  /**
+   * @param {SqliteDatabase} db - An open database handle.
+   * @param {string} [tablePrefix='messagebox'] - Prefix for the tables the store creates.
+   */
+  constructor (private readonly db: SqliteDatabase, tablePrefix = 'messagebox') {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tablePrefix)) {
+      throw new Error('Invalid SQLite table prefix')
+    }
+    this.messagesTable = `${tablePrefix}_messages`
+    this.marksTable = `${tablePrefix}_high_water_marks`
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.messagesTable} (
+        message_id TEXT PRIMARY KEY,
+        message_box TEXT NOT NULL,
+        sender TEXT NOT NULL,
+        body TEXT NOT NULL,
+        recipient TEXT,
+        content_type TEXT,
+        schema_version INTEGER,
+        headers TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        acknowledged INTEGER NOT NULL DEFAULT 0,
+        stored_at INTEGER NOT NULL,
+        edited_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS ${this.messagesTable}_box ON ${this.messagesTable} (message_box);
+      CREATE TABLE IF NOT EXISTS ${this.marksTable} (
+        message_box TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        message_id TEXT NOT NULL
+      );
+    `)
+    // Tables created before edits were supported lack the edited_at column
+    const columns = this.db.prepare(`PRAGMA table_info(${this.messagesTable})`).all() as Array<{ name: string }>
+    if (!columns.some(column => column.name === 'edited_at')) {
+      this.db.exec(`ALTER TABLE ${this.messagesTable} ADD COLUMN edited_at INTEGER`)
+    }
+  }
+
+  async put (messageBox: string, messages: Array<PeerMessage & { recipient?: string }>): Promise<void> {
+    const statement = this.db.prepare(`
+      INSERT INTO ${this.messagesTable}
+        (message_id, message_box, sender, body, recipient, content_type, schema_version, headers,
+         created_at, updated_at, acknowledged, stored_at, edited_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (message_id) DO UPDATE SET
+        message_box = excluded.message_box,
+        sender = excluded.sender,
+        body = excluded.body,
+        recipient = excluded.recipient,
+        content_type = excluded.content_type,
+        schema_version = excluded.schema_version,
+        headers = excluded.headers,
+        created_at = excluded.created_at,
+        updated_at = excluded.updated_at,
+        edited_at = excluded.edited_at
+    `)
+    const now = Date.now()
+    this.transaction(() => {
+      for (const message of messages) {
+        statement.run(
+          String(message.messageId),
+          messageBox,
+          message.sender,
+          JSON.stringify(message.body),
+          message.recipient ?? null,
+          message.contentType ?? null,
+          message.schemaVersion ?? null,
+          message.headers != null ? JSON.stringify(message.headers) : null,
+          message.created_at ?? '',
+          message.updated_at ?? '',
+          message.acknowledged === true ? 1 : 0,
+          now,
+          message.editedAt ?? null
+        )
+      }
+    })
+  }
+
+  async get (messageId: string): Promise<StoredMessage | undefined> {
+    const row = this.db.prepare(`SELECT * FROM ${this.messagesTable} WHERE message_id = ?`).get(messageId)
+    return row != null ? fromRow(row as SqliteMessageRow) : undefined
+  }
+
+  async list (messageBox: string, query: StoredMessageQuery = {}): Promise<StoredMessage[]> {
+    const rows = this.db.prepare(`SELECT * FROM ${this.messagesTable} WHERE message_box = ?`).all(messageBox)
+    return selectStoredMessages((rows as SqliteMessageRow[]).map(fromRow), messageBox, query)
+  }
+
+  async markAcknowledged (messageIds: string[]): Promise<void> {
+    const statement = this.db.prepare(`UPDATE ${this.messagesTable} SET acknowledged = 1 WHERE message_id = ?`)
+    this.transaction(() => {
+      for (const messageId of messageIds) statement.run(messageId)
+    })
+  }
+
+  async delete (messageIds: string[]): Promise<void> {
+    const statement = this.db.prepare(`DELETE FROM ${this.messagesTable} WHERE message_id = ?`)
+    this.transaction(() => {
+      for (const messageId of messageIds) statement.run(messageId)
+    })
+  }
+
+  async getHighWaterMark (messageBox: string): Promise<MessageHighWaterMark | undefined> {
+    const row = this.db.prepare(`SELECT created_at, message_id FROM ${this.marksTable} WHERE message_box = ?`).get(messageBox) as
+      { created_at: string, message_id: string } | undefined
+    return row != null ? { created_at: row.created_at, messageId: row.message_id } : undefined
+  }
+
+  async setHighWaterMark (messageBox: string, mark: MessageHighWaterMark): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO ${this.marksTable} (message_box, created_at, message_id) VALUES (?, ?, ?)
+      ON CONFLICT (message_box) DO UPDATE SET created_at = excluded.created_at, message_id = excluded.message_id
+    `).run(messageBox, mark.created_at, mark.messageId)
+  }
+
+  private transaction (run: () => void): void {
+    this.db.exec('BEGIN')
+    try {
+      run()
+      this.db.exec('COMMIT')
+    } catch (error) {
+      this.db.exec('ROLLBACK')
+      throw error
+    }
+  }
+}
+
+function fromRow (row: SqliteMessageRow): StoredMessage {
+  return {
+    messageId: row.message_id,
+    messageBox: row.message_box,
+    sender: row.sender,
+    body: JSON.parse(row.body),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    acknowledged: row.acknowledged === 1,
+    storedAt: row.stored_at,
+    ...(row.recipient != null && { recipient: row.recipient }),
+    ...(row.content_type != null && { contentType: row.content_type }),
+    ...(row.schema_version != null && { schemaVersion: row.schema_version }),
+    ...(row.headers != null && { headers: JSON.parse(row.headers) }),
+    ...(row.edited_at != null && { editedAt: row.edited_at })
+  }
+}
+
+function selectStoredMessages (messages: StoredMessage[], messageBox: string, query: StoredMessageQuery): StoredMessage[] {
+  const { acknowledged, order, limit } = query
+  const selected = sortMessages(
+    messages.filter(message =>
+      message.messageBox === messageBox &&
+      (acknowledged == null || message.acknowledged === acknowledged)
+    ),
+    order
+  )
+  return limit != null ? selected.slice(0, limit) : selected
+}
@@ -0,0 +1,192 @@
+/**
+ * MessageSubscription
+ *
+ * Pull-based view of a live message box, returned by `MessageBoxClient.subscribe()`.
+ * Messages pushed by the WebSocket are held in a bounded buffer until the consumer asks
+ * for them, either through `for await` or through the `readable` WHATWG stream.
+ */
+
+import { PeerMessage, SubscribeOptions } from './types.js'
+import * as Logger from './Utils/logger.js'
+
+const DEFAULT_BUFFER_SIZE = 1000
+
+/**
+ * Starts the underlying listener. Receives the function that feeds messages into the
+ * subscription and resolves to a function that tears the listener down again.
+ */
+export type SubscriptionStarter = (push: (message: PeerMessage) => void) => Promise<() => Promise<void>>
+
+interface PendingRead {
+  resolve: (result: IteratorResult<PeerMessage>) => void
+  reject: (error: unknown) => void
+}
+
+export class MessageSubscription implements AsyncIterable<PeerMessage> {
+  private readonly queue: PeerMessage[] = []
+  private readonly pendingReads: PendingRead[] = []
+  private readonly bufferSize: number
+  private readonly overflow: NonNullable<SubscribeOptions['overflow']>
+  private readonly signal?: AbortSignal
+  private readonly started: Promise<(() => Promise<void>) | undefined>
+  private finished = false
+  private failure?: Error
+  private stopping?: Promise<void>
+  private stream?: ReadableStream<PeerMessage>
+
+  constructor (
+    readonly messageBox: string,
+    start: SubscriptionStarter,
+    options: Pick<SubscribeOptions, 'signal' | 'bufferSize' | 'overflow'> = {}
+  ) {
+    this.bufferSize = Math.max(1, options.bufferSize ?? DEFAULT_BUFFER_SIZE)
+    this.overflow = options.overflow ?? 'drop-oldest'
+    this.signal = options.signal
+
+    this.started = start(message => this.push(message)).catch((error) => {
+      this.fail(error)
+      return undefined
+    })
+
+    if (this.signal != null) {
+      if (this.signal.aborted) {
+        this.onAbort()
+      } else {
+        this.signal.addEventListener('abort', this.onAbort, { once: true })
+      }
+    }
+  }
+
+  /**
+   * True once the subscription has been unsubscribed, aborted or has failed.
+   */
+  get closed (): boolean {
+    return this.finished
+  }
+
+  /**
+   * A WHATWG `ReadableStream` over the same messages. It only pulls from the subscription
+   * when its reader asks for more, so a slow reader applies backpressure to the buffer.
+   * Cancelling the stream unsubscribes.
+   */
+  get readable (): ReadableStream<PeerMessage> {
+    if (this.stream == null) {
+      this.stream = new ReadableStream<PeerMessage>({
+        pull: async (controller) => {
+          const result = await this.next()
+          if (result.done === true) {
+            controller.close()
+          } else {
+            controller.enqueue(result.value)
+          }
+        },
+        cancel: async () => {
+          await this.unsubscribe()
+        }
+      }, { highWaterMark: 0 })
+    }
+    return this.stream
+  }
+
+  /**
+   * Resolves with the next message, or `done` once the subscription has ended.
+   * Rejects if the subscription failed, after any buffered messages have been read.
+   */
+  async next (): Promise<IteratorResult<PeerMessage>> {
+    const message = this.queue.shift()
+    if (message !== undefined) {
+      return { value: message, done: false }
+    }
+    if (this.failure !== undefined) {
+      throw this.failure
+    }
+    if (this.finished) {
+      return { value: undefined, done: true }
+    }
+    return await new Promise((resolve, reject) => {
+      this.pendingReads.push({ resolve, reject })
+    })
+  }
+
+  [Symbol.asyncIterator] (): AsyncIterator<PeerMessage> {
+    return {
+      next: async () => await this.next(),
+      // Called when a `for await` loop exits early (break, return or throw)
+      return: async () => {
+        await this.unsubscribe()
+        return { value: undefined, done: true }
+      }
+    }
+  }
+
+  /**
+   * Ends the subscription: pending reads resolve as `done`, the socket handler is removed and
+   * the room is left if nothing else is listening to it. Safe to call more than once.
+   */
+  async unsubscribe (): Promise<void> {
+    this.queue.length = 0
+    await this.stop()
+  }
+
+  private push (message: PeerMessage): void {
+    if (this.finished) return
+
+    const read = this.pendingReads.shift()
+    if (read != null) {
+      read.resolve({ value: message, done: false })
+      return
+    }
+
+    if (this.queue.length >= this.bufferSize) {
+      switch (this.overflow) {
+        case 'drop-newest':
+          Logger.warn(`[MB CLIENT] Subscription buffer for ${this.messageBox} is full; dropping incoming message`)
+          return
+        case 'drop-oldest':
+          Logger.warn(`[MB CLIENT] Subscription buffer for ${this.messageBox} is full; dropping oldest message`)
+          this.queue.shift()
+          break
+        case 'error':
+          this.fail(new Error(`[MB CLIENT ERROR] Subscription buffer for ${this.messageBox} overflowed (${this.bufferSize} messages)`))
+          return
+      }
+    }
+
+    this.queue.push(message)
+  }
+
+  private fail (error: unknown): void {
+    if (this.finished) return
+    this.failure = error instanceof Error ? error : new Error(`[MB CLIENT ERROR] Subscription failed: ${String(error)}`)
+    Logger.error('[MB CLIENT ERROR] Subscription failed:', error)
+    // Keep the buffer so the consumer can drain it before seeing the error
+    this.stop().catch((stopError) => {
+      Logger.error('[MB CLIENT ERROR] Failed to stop subscription:', stopError)
+    })
+  }
+
+  private async stop (): Promise<void> {
+    if (this.stopping == null) {
+      this.finished = true
+      this.signal?.removeEventListener('abort', this.onAbort)
+      // Reads only wait while the buffer is empty, so they can settle straight away
+      for (const read of this.pendingReads.splice(0)) {
+        if (this.failure !== undefined) {
+          read.reject(this.failure)
+        } else {
+          read.resolve({ value: undefined, done: true })
+        }
+      }
+      this.stopping = this.started.then(async (stop) => {
+        if (stop != null) await stop()
+      })
+    }
+    await this.stopping
+  }
+
+  private readonly onAbort = (): void => {
+    this.unsubscribe().catch((error) => {
+      Logger.error('[MB CLIENT ERROR] Failed to stop subscription after abort:', error)
+    })
+  }
+}
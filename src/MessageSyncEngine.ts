@@ -0,0 +1,178 @@
+/**
+ * MessageSyncEngine - Keeps a local MessageStore in step with a MessageBoxClient
+ *
+ * Each `sync()` pulls new messages for a box page by page, stores them, acknowledges them
+ * on the server and advances the box's high-water mark. Because acknowledging deletes
+ * messages on the server, the store then holds the only copy, so apps can keep rendering
+ * history from it.
+ *
+ * A message is only acknowledged after it has been stored, and the high-water mark only
+ * moves after the acknowledgement succeeded, so an interrupted sync never loses messages:
+ * the next run fetches and stores them again (storing is idempotent by `messageId`).
+ * Messages that could not be decrypted are neither stored nor acknowledged: their ciphertext
+ * stays on the server and the high-water mark stays below them, so the next sync tries them again.
+ *
+ * @example
+ * ```typescript
+ * const engine = new MessageSyncEngine(client, new FileMessageStore('./messages.json'))
+ * await engine.sync('inbox')
+ * const history = await engine.getHistory('inbox', { order: { direction: 'desc' }, limit: 50 })
+ * ```
+ */
+
+import type { MessageBoxClient } from './MessageBoxClient.js'
+import { MessageControl, MessageHighWaterMark, MessageStore, PeerMessage, StoredMessage, StoredMessageQuery } from './types.js'
+import { comparePositions, MessagePosition, messagePosition } from './MessageOrdering.js'
+import { applyControlToStore } from './MessageControl.js'
+import * as Logger from './Utils/logger.js'
+
+const DEFAULT_BATCH_SIZE = 100
+
+export interface MessageSyncOptions {
+  /** Messages fetched, stored and acknowledged per round trip. Default: 100. */
+  batchSize?: number
+  /** Acknowledge synced messages on the server. Default: true. */
+  acknowledge?: boolean
+  /** Host override forwarded to `listMessagesPage()` and `acknowledgeMessage()`. */
+  host?: string
+}
+
+export interface MessageSyncResult {
+  messageBox: string
+  /** Messages fetched and written to the store during this sync. */
+  stored: number
+  /** Messages acknowledged on the server during this sync. */
+  acknowledged: number
+  /** Messages left on the server because they could not be decrypted. */
+  undecryptable: number
+  /** The box's high-water mark after this sync. */
+  highWaterMark?: MessageHighWaterMark
+}
+
+export class MessageSyncEngine {
+  private readonly batchSize: number
+  private readonly acknowledge: boolean
+  private readonly host?: string
+  private readonly running: Map<string, Promise<MessageSyncResult>> = new Map()
+
+  /**
+   * @param client - The MessageBoxClient to read from and acknowledge through
+   * @param store - Where messages and high-water marks are kept
+   * @param options - Batch size, acknowledgement and host settings
+   */
+  constructor (
+    private readonly client: MessageBoxClient,
+    readonly store: MessageStore,
+    options: MessageSyncOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+    this.acknowledge = options.acknowledge ?? true
+    this.host = options.host
+  }
+
+  /**
+   * Fetches, stores and acknowledges every message in `messageBox` created at or after the box's
+   * high-water mark. Concurrent calls for the same box share a single run.
+   *
+   * @param messageBox - The message box to sync
+   * @param options.full - Ignore the high-water mark and fetch everything still on the server
+   * @returns Counts for this run and the updated high-water mark
+   */
+  async sync (messageBox: string, options: { full?: boolean } = {}): Promise<MessageSyncResult> {
+    const existing = this.running.get(messageBox)
+    if (existing != null) return await existing
+
+    const run = this.runSync(messageBox, options.full === true)
+      .finally(() => this.running.delete(messageBox))
+    this.running.set(messageBox, run)
+    return await run
+  }
+
+  /**
+   * Acknowledges messages on the server and records the acknowledgement in the store.
+   * Use this instead of `client.acknowledgeMessage()` for messages the store should keep.
+   */
+  async acknowledgeMessages (messageIds: string[]): Promise<void> {
+    await this.client.acknowledgeMessage({ messageIds, host: this.host })
+    await this.store.markAcknowledged(messageIds)
+  }
+
+  /**
+   * Reads stored messages for a box, including ones already deleted from the server.
+   */
+  async getHistory (messageBox: string, query?: StoredMessageQuery): Promise<StoredMessage[]> {
+    return await this.store.list(messageBox, query)
+  }
+
+  private async runSync (messageBox: string, full: boolean): Promise<MessageSyncResult> {
+    let mark = full ? undefined : await this.store.getHighWaterMark(messageBox)
+    const result: MessageSyncResult = { messageBox, stored: 0, acknowledged: 0, undecryptable: 0, highWaterMark: mark }
+    const since = mark?.created_at
+    let cursor: string | undefined
+    let oldestFailed: MessagePosition | undefined
+
+    Logger.log(`[MB CLIENT] Syncing ${messageBox} from ${since ?? 'the beginning'}`)
+
+    do {
+      const page = await this.client.listMessagesPage({
+        messageBox,
+        host: this.host,
+        limit: this.batchSize,
+        cursor,
+        since
+      })
+      // A page can come back empty after filtering while later pages still hold messages
+      const messages = page.messages.filter(message => message.decryptFailed !== true)
+      result.undecryptable += page.messages.length - messages.length
+      for (const message of page.messages) {
+        if (message.decryptFailed !== true) continue
+        const position = messagePosition(message)
+        if (oldestFailed == null || comparePositions(position, oldestFailed) < 0) oldestFailed = position
+      }
+
+      // Edits and retractions of messages delivered in earlier syncs apply to the stored copies
+      const updates = messages.filter(message => message.control != null)
+      for (const message of updates) {
+        await applyControlToStore(this.store, message as PeerMessage & { control: MessageControl })
+      }
+      const stored = messages.filter(message => message.control == null)
+      await this.store.put(messageBox, stored)
+      result.stored += stored.length
+
+      if (this.acknowledge && messages.length > 0) {
+        await this.acknowledgeMessages(messages.map(message => String(message.messageId)))
+        result.acknowledged += messages.length
+      }
+
+      mark = advanceMark(mark, messages, oldestFailed)
+      if (mark != null) {
+        await this.store.setHighWaterMark(messageBox, mark)
+        result.highWaterMark = mark
+      }
+      cursor = page.nextCursor
+    } while (cursor != null)
+
+    Logger.log(`[MB CLIENT] Synced ${result.stored} message(s) in ${messageBox}`)
+    return result
+  }
+}
+
+/**
+ * Returns the newer of the current mark and the newest message on the page, never reaching
+ * `limit`, the oldest message left on the server to be retried.
+ */
+function advanceMark (mark: MessageHighWaterMark | undefined, messages: PeerMessage[], limit?: MessagePosition): MessageHighWaterMark | undefined {
+  let newest = mark
+  for (const message of messages) {
+    if (Number.isNaN(Date.parse(message.created_at))) continue
+    if (limit != null && comparePositions(messagePosition(message), limit) >= 0) continue
+    if (newest == null || comparePositions(messagePosition(message), markPosition(newest)) > 0) {
+      newest = { created_at: message.created_at, messageId: String(message.messageId) }
+    }
+  }
+  return newest
+}
+
+function markPosition (mark: MessageHighWaterMark): MessagePosition {
+  return { time: Date.parse(mark.created_at), messageId: mark.messageId }
+}
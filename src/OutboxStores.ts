@@ -0,0 +1,149 @@
+/**
+ * Storage backends for `MessageOutbox`.
+ *
+ * - `MemoryOutboxStore` keeps entries for the lifetime of the process.
+ * - `FileOutboxStore` persists entries to a JSON file (Node.js only).
+ * - `IndexedDBOutboxStore` persists entries in the browser's IndexedDB.
+ */
+
+import { OutboxEntry, OutboxStore } from './types.js'
+import { readJsonFile, writeJsonFile } from './Utils/jsonFile.js'
+
+export class MemoryOutboxStore implements OutboxStore {
+  private readonly entries: Map<string, OutboxEntry> = new Map()
+
+  async get (messageId: string): Promise<OutboxEntry | undefined> {
+    const entry = this.entries.get(messageId)
+    return entry != null ? { ...entry } : undefined
+  }
+
+  async put (entry: OutboxEntry): Promise<void> {
+    this.entries.set(entry.messageId, { ...entry })
+  }
+
+  async delete (messageId: string): Promise<void> {
+    this.entries.delete(messageId)
+  }
+
+  async list (): Promise<OutboxEntry[]> {
+    return Array.from(this.entries.values(), entry => ({ ...entry }))
+  }
+}
+
+/**
+ * Keeps all entries in a single JSON file. The file is loaded on first use and rewritten
+ * after every change; writes are serialized so concurrent updates cannot interleave.
+ */
+export class FileOutboxStore implements OutboxStore {
+  private readonly memory = new MemoryOutboxStore()
+  private loaded?: Promise<void>
+  private writing: Promise<void> = Promise.resolve()
+
+  /**
+   * @param {string} filePath - Path of the JSON file. It is created on the first write.
+   */
+  constructor (private readonly filePath: string) {}
+
+  async get (messageId: string): Promise<OutboxEntry | undefined> {
+    await this.load()
+    return await this.memory.get(messageId)
+  }
+
+  async put (entry: OutboxEntry): Promise<void> {
+    await this.load()
+    await this.memory.put(entry)
+    await this.save()
+  }
+
+  async delete (messageId: string): Promise<void> {
+    await this.load()
+    await this.memory.delete(messageId)
+    await this.save()
+  }
+
+  async list (): Promise<OutboxEntry[]> {
+    await this.load()
+    return await this.memory.list()
+  }
+
+  private async load (): Promise<void> {
+    if (this.loaded == null) {
+      this.loaded = (async () => {
+        const entries = await readJsonFile<OutboxEntry[]>(this.filePath, [])
+        for (const entry of entries) {
+          await this.memory.put(entry)
+        }
+      })()
+    }
+    await this.loaded
+  }
+
+  private async save (): Promise<void> {
+    const write = this.writing.then(async () => {
+      await writeJsonFile(this.filePath, await this.memory.list())
+    })
+    // A failed write must not block later ones; the caller still sees the error
+    this.writing = write.catch(() => {})
+    await write
+  }
+}
+
+/**
+ * Persists entries in an IndexedDB object store keyed by `messageId`.
+ */
+export class IndexedDBOutboxStore implements OutboxStore {
+  private db?: Promise<IDBDatabase>
+
+  /**
+   * @param {string} [databaseName='messagebox-outbox'] - IndexedDB database name.
+   * @param {string} [storeName='outbox'] - Object store name within the database.
+   */
+  constructor (
+    private readonly databaseName = 'messagebox-outbox',
+    private readonly storeName = 'outbox'
+  ) {}
+
+  async get (messageId: string): Promise<OutboxEntry | undefined> {
+    return await this.request<OutboxEntry | undefined>('readonly', store => store.get(messageId))
+  }
+
+  async put (entry: OutboxEntry): Promise<void> {
+    await this.request('readwrite', store => store.put(entry))
+  }
+
+  async delete (messageId: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(messageId))
+  }
+
+  async list (): Promise<OutboxEntry[]> {
+    return await this.request<OutboxEntry[]>('readonly', store => store.getAll())
+  }
+
+  private async open (): Promise<IDBDatabase> {
+    if (this.db == null) {
+      if (typeof indexedDB === 'undefined') {
+        throw new Error('[MB CLIENT ERROR] IndexedDB is not available in this environment')
+      }
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1)
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName, { keyPath: 'messageId' })
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return await this.db
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open()
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode)
+      const request = run(transaction.objectStore(this.storeName))
+      transaction.oncomplete = () => resolve(request.result as T)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  }
+}
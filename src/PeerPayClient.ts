@@ -11,6 +11,7 @@
  */
 
 import { MessageBoxClient } from './MessageBoxClient.js'
+import { TypedMessageBox } from './MessageBoxRegistry.js'
 import { PeerMessage, PaymentRequestMessage, PaymentRequestResponse, IncomingPaymentRequest, PaymentRequestLimits, DEFAULT_PAYMENT_REQUEST_MIN_AMOUNT, DEFAULT_PAYMENT_REQUEST_MAX_AMOUNT } from './types.js'
 import { WalletInterface, AtomicBEEF, AuthFetch, Base64String, OriginatorDomainNameStringUnder250Bytes, Brc29RemittanceModule, createNonce } from '@bsv/sdk'
 
@@ -102,6 +103,7 @@ export class PeerPayClient extends MessageBoxClient {
   private _authFetchInstance?: AuthFetch
   private readonly messageBox: string
   private readonly settlementModule: Brc29RemittanceModule
+  private readonly paymentRequests: TypedMessageBox<PaymentRequestMessage>
 
   constructor (config: PeerPayClientConfig) {
     const { messageBoxHost = 'https://message-box-us-1.bsvb.tech', walletClient, enableLogging = false, originator } = config
@@ -122,6 +124,9 @@ export class PeerPayClient extends MessageBoxClient {
       refundFeeSatoshis: 1000,
       minRefundSatoshis: 1000
     })
+
+    // Malformed requests are rejected (acknowledged) before they reach the handlers below
+    this.paymentRequests = this.defineBox(PAYMENT_REQUESTS_MESSAGEBOX, isValidPaymentRequestMessage)
   }
 
   private get authFetchInstance (): AuthFetch {
@@ -715,7 +720,7 @@ export class PeerPayClient extends MessageBoxClient {
 
     for (const msg of messages) {
       const body = safeParse<PaymentRequestMessage>(msg.body)
-      if (body != null && isValidPaymentRequestMessage(body)) {
+      if (body != null && this.paymentRequests.isValid(body)) {
         parsed.push({ messageId: msg.messageId as string, sender: msg.sender as string, body })
       } else {
         malformedMessageIds.push(msg.messageId as string)
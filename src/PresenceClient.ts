@@ -0,0 +1,263 @@
+/**
+ * PresenceClient - Presence and typing indicators between peers
+ *
+ * Built on `MessageBoxClient.sendEphemeral()` / `listenForEphemeral()`: signals travel over the
+ * authenticated WebSocket on the `presence` and `typing` channels and are never stored by the
+ * server. Every signal carries a time to live, and receivers expire it on their own clock, so a
+ * peer that disconnects without saying goodbye goes `offline` once its last heartbeat runs out.
+ *
+ * Presence is only sent to the identities passed to `setPresence()`, and re-announced on every
+ * heartbeat while `online` or `away`.
+ *
+ * Requires a MessageBox server that relays the `sendEphemeral` socket event (see
+ * `MessageBoxClient.sendEphemeral()`). Servers without it drop signals silently, so every peer
+ * then simply appears `offline`.
+ *
+ * @example
+ * ```typescript
+ * const presence = new PresenceClient(client)
+ * await presence.start()
+ * presence.watch(bobKey, p => console.log(p.status, p.typing ? '(typing…)' : ''))
+ * await presence.setPresence('online', [bobKey])
+ * await presence.setTyping(bobKey)
+ * ```
+ */
+
+import type { MessageBoxClient } from './MessageBoxClient.js'
+import * as Logger from './Utils/logger.js'
+import { EphemeralSignal, PeerPresence, PresenceStatus } from './types.js'
+
+export const PRESENCE_CHANNEL = 'presence'
+export const TYPING_CHANNEL = 'typing'
+
+const DEFAULT_HEARTBEAT_INTERVAL = 30 * 1000
+const DEFAULT_TYPING_TIMEOUT = 5 * 1000
+// Upper bound on a received ttl, so a peer cannot appear online indefinitely
+const MAX_SIGNAL_TTL = 10 * 60 * 1000
+
+export interface PresenceClientOptions {
+  /** How often presence is re-announced while `online` or `away`. Default: 30 s. */
+  heartbeatInterval?: number
+  /** How long a typing indicator lasts unless refreshed. Default: 5 s. */
+  typingTimeout?: number
+  /** Host override forwarded to the underlying client. */
+  host?: string
+}
+
+interface PeerState {
+  status: PresenceStatus
+  statusExpiresAt: number
+  typing: boolean
+  typingExpiresAt: number
+  lastSeen: number
+}
+
+export class PresenceClient {
+  private readonly heartbeatInterval: number
+  private readonly typingTimeout: number
+  private readonly host?: string
+  private readonly peers: Map<string, PeerState> = new Map()
+  private readonly watchers: Map<string, Set<(presence: PeerPresence) => void>> = new Map()
+  private readonly expiryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map()
+  private readonly stopListeners: Array<() => Promise<void>> = []
+  private heartbeat?: ReturnType<typeof setTimeout>
+
+  /**
+   * @param client - The MessageBoxClient whose socket carries the signals
+   * @param options - Heartbeat, typing timeout and host settings
+   */
+  constructor (private readonly client: MessageBoxClient, options: PresenceClientOptions = {}) {
+    this.heartbeatInterval = options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL
+    this.typingTimeout = options.typingTimeout ?? DEFAULT_TYPING_TIMEOUT
+    if (!(this.heartbeatInterval > 0) || !(this.typingTimeout > 0)) {
+      throw new Error('Heartbeat interval and typing timeout must be positive')
+    }
+    this.host = options.host
+  }
+
+  /**
+   * Starts listening for presence and typing signals. Safe to call more than once.
+   */
+  async start (): Promise<void> {
+    if (this.stopListeners.length > 0) return
+    this.stopListeners.push(
+      await this.client.listenForEphemeral({
+        channel: PRESENCE_CHANNEL,
+        overrideHost: this.host,
+        onSignal: signal => this.receivePresence(signal)
+      }),
+      await this.client.listenForEphemeral({
+        channel: TYPING_CHANNEL,
+        overrideHost: this.host,
+        onSignal: signal => this.receiveTyping(signal)
+      })
+    )
+  }
+
+  /**
+   * Stops listening and heartbeating, and forgets what is known about peers.
+   * Does not announce `offline`; call `setPresence('offline', ...)` first for that.
+   */
+  async stop (): Promise<void> {
+    this.stopHeartbeat()
+    for (const timer of this.expiryTimers.values()) clearTimeout(timer)
+    this.expiryTimers.clear()
+    this.peers.clear()
+    const stopListeners = this.stopListeners.splice(0)
+    for (const stopListening of stopListeners) {
+      await stopListening()
+    }
+  }
+
+  /**
+   * Announces a presence status to the given identities. `online` and `away` are re-announced
+   * every heartbeat until the status changes; `offline` is sent once and stops the heartbeat.
+   */
+  async setPresence (status: PresenceStatus, recipients: string[]): Promise<void> {
+    this.stopHeartbeat()
+    await this.announce(status, recipients)
+    if (status === 'offline') return
+
+    const beat = (): void => {
+      const timer = setTimeout(() => {
+        void this.announce(status, recipients).finally(() => {
+          // Unless the status changed or stop() ran in the meantime
+          if (this.heartbeat === timer) beat()
+        })
+      }, this.heartbeatInterval)
+      this.heartbeat = timer
+    }
+    beat()
+  }
+
+  /**
+   * Tells a peer that you are (or stopped) typing. Call it again while typing continues; the
+   * indicator lapses on the peer's side after the typing timeout.
+   */
+  async setTyping (recipient: string, typing = true): Promise<void> {
+    await this.client.sendEphemeral({
+      recipient,
+      channel: TYPING_CHANNEL,
+      body: { typing, ttl: this.typingTimeout }
+    }, this.host)
+  }
+
+  /**
+   * The current presence of a peer.
+   */
+  getPresence (identityKey: string): PeerPresence {
+    const state = this.peers.get(identityKey)
+    if (state == null) return { identityKey, status: 'offline', typing: false }
+    const now = Date.now()
+    return {
+      identityKey,
+      status: state.statusExpiresAt > now ? state.status : 'offline',
+      typing: state.typingExpiresAt > now && state.typing,
+      lastSeen: state.lastSeen
+    }
+  }
+
+  /**
+   * Subscribes to a peer's presence. The listener runs whenever a signal arrives from the peer
+   * and when its presence or typing indicator expires.
+   *
+   * @returns A function that removes the listener.
+   */
+  watch (identityKey: string, listener: (presence: PeerPresence) => void): () => void {
+    let listeners = this.watchers.get(identityKey)
+    if (listeners == null) {
+      listeners = new Set()
+      this.watchers.set(identityKey, listeners)
+    }
+    listeners.add(listener)
+    const registered = listeners
+    return () => {
+      registered.delete(listener)
+      if (registered.size === 0) this.watchers.delete(identityKey)
+    }
+  }
+
+  private async announce (status: PresenceStatus, recipients: string[]): Promise<void> {
+    // Twice the heartbeat interval, so one lost heartbeat does not flip the peer to offline
+    const body = { status, ttl: this.heartbeatInterval * 2 }
+    await Promise.all(recipients.map(async recipient => {
+      try {
+        await this.client.sendEphemeral({ recipient, channel: PRESENCE_CHANNEL, body }, this.host)
+      } catch (error) {
+        Logger.warn(`[MB CLIENT] Failed to send presence to ${recipient}:`, error)
+      }
+    }))
+  }
+
+  private stopHeartbeat (): void {
+    if (this.heartbeat != null) {
+      clearTimeout(this.heartbeat)
+      this.heartbeat = undefined
+    }
+  }
+
+  private receivePresence ({ sender, body }: EphemeralSignal): void {
+    const { status, ttl } = (body ?? {}) as { status?: unknown, ttl?: unknown }
+    if (status !== 'online' && status !== 'away' && status !== 'offline') return
+    const now = Date.now()
+    const state = this.stateOf(sender)
+    state.status = status
+    state.statusExpiresAt = status === 'offline' ? now : now + ttlOf(ttl, this.heartbeatInterval * 2)
+    // Someone who went offline is not typing any more
+    if (status === 'offline') state.typingExpiresAt = now
+    state.lastSeen = now
+    this.changed(sender)
+  }
+
+  private receiveTyping ({ sender, body }: EphemeralSignal): void {
+    const { typing, ttl } = (body ?? {}) as { typing?: unknown, ttl?: unknown }
+    if (typeof typing !== 'boolean') return
+    const now = Date.now()
+    const state = this.stateOf(sender)
+    state.typing = typing
+    state.typingExpiresAt = typing ? now + ttlOf(ttl, this.typingTimeout) : now
+    state.lastSeen = now
+    this.changed(sender)
+  }
+
+  private stateOf (identityKey: string): PeerState {
+    let state = this.peers.get(identityKey)
+    if (state == null) {
+      state = { status: 'offline', statusExpiresAt: 0, typing: false, typingExpiresAt: 0, lastSeen: 0 }
+      this.peers.set(identityKey, state)
+    }
+    return state
+  }
+
+  /**
+   * Notifies watchers and re-arms the peer's expiry timer.
+   */
+  private changed (identityKey: string): void {
+    const existing = this.expiryTimers.get(identityKey)
+    if (existing != null) clearTimeout(existing)
+    this.expiryTimers.delete(identityKey)
+
+    const presence = this.getPresence(identityKey)
+    for (const listener of Array.from(this.watchers.get(identityKey) ?? [])) {
+      try {
+        listener({ ...presence })
+      } catch (error) {
+        Logger.error('[MB CLIENT ERROR] Presence listener threw:', error)
+      }
+    }
+
+    const state = this.peers.get(identityKey)
+    if (state == null) return
+    const now = Date.now()
+    const pending = [state.statusExpiresAt, state.typingExpiresAt].filter(at => at > now)
+    if (pending.length === 0) return
+    this.expiryTimers.set(identityKey, setTimeout(() => {
+      this.expiryTimers.delete(identityKey)
+      this.changed(identityKey)
+    }, Math.min(...pending) - now))
+  }
+}
+
+function ttlOf (ttl: unknown, fallback: number): number {
+  return typeof ttl === 'number' && ttl > 0 ? Math.min(ttl, MAX_SIGNAL_TTL) : fallback
+}
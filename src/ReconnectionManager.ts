@@ -0,0 +1,119 @@
+/**
+ * ReconnectionManager
+ *
+ * Schedules reconnection attempts with exponential backoff and jitter.
+ * Used by `MessageBoxClient` to rebuild its authenticated WebSocket after an
+ * unexpected disconnect, but has no knowledge of sockets itself: it simply runs
+ * an async attempt function until one succeeds or the attempt budget is spent.
+ */
+
+import { ReconnectOptions } from './types.js'
+import * as Logger from './Utils/logger.js'
+
+const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.5,
+  maxAttempts: Infinity
+}
+
+export class ReconnectionManager {
+  private readonly options: Required<ReconnectOptions>
+  private attempts = 0
+  private timer?: ReturnType<typeof setTimeout>
+  private inFlight = false
+  // Bumped by cancel() so that attempts already in flight do not reschedule themselves.
+  private generation = 0
+
+  constructor (options: ReconnectOptions = {}) {
+    this.options = { ...DEFAULT_RECONNECT_OPTIONS, ...options }
+  }
+
+  /**
+   * Number of attempts made since the last successful reconnection.
+   */
+  get attemptCount (): number {
+    return this.attempts
+  }
+
+  /**
+   * True while an attempt is waiting on its timer or currently running.
+   */
+  get isActive (): boolean {
+    return this.timer != null || this.inFlight
+  }
+
+  /**
+   * Computes the delay before the given attempt (0-based), applying
+   * exponential growth, the configured ceiling and random jitter.
+   *
+   * @param {number} attempt - Index of the attempt being scheduled.
+   * @returns {number} Delay in milliseconds.
+   */
+  delayFor (attempt: number): number {
+    const { initialDelayMs, maxDelayMs, multiplier, jitter } = this.options
+    const base = Math.min(maxDelayMs, initialDelayMs * Math.pow(multiplier, attempt))
+    const spread = Math.min(Math.max(jitter, 0), 1)
+    return Math.round(base * (1 - spread * Math.random()))
+  }
+
+  /**
+   * Starts (or continues) the reconnection loop. Does nothing if a loop is already active.
+   *
+   * @param {() => Promise<void>} attempt - Performs one reconnection attempt; rejects on failure.
+   * @param {() => void} onExhausted - Called once `maxAttempts` attempts have failed.
+   */
+  start (attempt: () => Promise<void>, onExhausted: () => void): void {
+    if (this.isActive) return
+
+    if (this.attempts >= this.options.maxAttempts) {
+      onExhausted()
+      return
+    }
+
+    const generation = this.generation
+    const delay = this.delayFor(this.attempts)
+    this.attempts++
+    Logger.log(`[MB CLIENT] Reconnection attempt ${this.attempts} in ${delay}ms`)
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.inFlight = true
+      attempt()
+        .then(() => {
+          this.inFlight = false
+          if (generation === this.generation) this.reset()
+        })
+        .catch((error) => {
+          this.inFlight = false
+          if (generation !== this.generation) return
+          Logger.warn('[MB CLIENT] Reconnection attempt failed:', error)
+          this.start(attempt, onExhausted)
+        })
+    }, delay)
+    // A pending reconnect must not keep a Node process alive on its own
+    const timer = this.timer as { unref?: () => void }
+    timer.unref?.()
+  }
+
+  /**
+   * Stops any pending attempt and resets the attempt counter.
+   */
+  cancel (): void {
+    this.generation++
+    if (this.timer != null) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+    this.inFlight = false
+    this.attempts = 0
+  }
+
+  /**
+   * Resets the attempt counter after a successful reconnection.
+   */
+  reset (): void {
+    this.attempts = 0
+  }
+}
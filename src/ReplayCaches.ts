@@ -0,0 +1,90 @@
+/**
+ * Caches of processed messages for the client's `replayProtection` option.
+ *
+ * - `MemoryReplayCache` remembers messages for the lifetime of the process.
+ * - `FileReplayCache` persists them to a JSON file (Node.js only).
+ *
+ * Both keep the most recent `limit` keys and forget the oldest beyond that.
+ */
+
+import { ReplayCache } from './types.js'
+import { readJsonFile, writeJsonFile } from './Utils/jsonFile.js'
+
+const DEFAULT_LIMIT = 10000
+
+export class MemoryReplayCache implements ReplayCache {
+  private readonly keys: Set<string> = new Set()
+
+  /**
+   * @param {number} [limit=10000] - How many keys to remember.
+   */
+  constructor (private readonly limit = DEFAULT_LIMIT) {}
+
+  async has (key: string): Promise<boolean> {
+    return this.keys.has(key)
+  }
+
+  async add (keys: string[]): Promise<void> {
+    for (const key of keys) {
+      // Re-adding a key makes it the newest
+      this.keys.delete(key)
+      this.keys.add(key)
+    }
+    for (const oldest of this.keys) {
+      if (this.keys.size <= this.limit) break
+      this.keys.delete(oldest)
+    }
+  }
+
+  /** The remembered keys, oldest first. */
+  list (): string[] {
+    return Array.from(this.keys)
+  }
+}
+
+/**
+ * Keeps the cache in a single JSON file. The file is loaded on first use and rewritten
+ * after every change; writes are serialized so concurrent updates cannot interleave.
+ */
+export class FileReplayCache implements ReplayCache {
+  private readonly memory: MemoryReplayCache
+  private loaded?: Promise<void>
+  private writing: Promise<void> = Promise.resolve()
+
+  /**
+   * @param {string} filePath - Path of the JSON file. It is created on the first write.
+   * @param {number} [limit=10000] - How many keys to remember.
+   */
+  constructor (private readonly filePath: string, limit = DEFAULT_LIMIT) {
+    this.memory = new MemoryReplayCache(limit)
+  }
+
+  async has (key: string): Promise<boolean> {
+    await this.load()
+    return await this.memory.has(key)
+  }
+
+  async add (keys: string[]): Promise<void> {
+    await this.load()
+    await this.memory.add(keys)
+    await this.save()
+  }
+
+  private async load (): Promise<void> {
+    if (this.loaded == null) {
+      this.loaded = (async () => {
+        await this.memory.add(await readJsonFile<string[]>(this.filePath, []))
+      })()
+    }
+    await this.loaded
+  }
+
+  private async save (): Promise<void> {
+    const write = this.writing.then(async () => {
+      await writeJsonFile(this.filePath, this.memory.list())
+    })
+    // A failed write must not block later ones; the caller still sees the error
+    this.writing = write.catch(() => {})
+    await write
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Sealed-sender messages.
+ *
+ * Normally the server authenticates the sender of every message, so it learns who talks to
+ * whom. With `sealedSender` the client creates a one-time key for each message: it
+ * authenticates the `/sendMessage` request and encrypts the body to the recipient, so the
+ * server only ever sees that key as the sender.
+ *
+ * The real sender travels inside the ciphertext as a `SealedSenderPayload`, signed with the
+ * `messagebox sealed sender` protocol over the sender, the recipient, the one-time key and
+ * the body. Binding the one-time key means a recipient cannot re-post the payload as if it
+ * came from the sender. Receivers verify the signature and then report the real sender.
+ */
+
+import { Utils, WalletProtocol } from '@bsv/sdk'
+import { SealedSenderPayload } from './types.js'
+
+export const SEALED_SENDER_MARKER = 'messagebox'
+export const SEALED_SENDER_PROTOCOL_ID: WalletProtocol = [1, 'messagebox sealed sender']
+
+/**
+ * The bytes a sealed sender's signature covers.
+ */
+export function sealedSenderSigningData ({ sender, recipient, transportKey, body }: {
+  sender: string
+  recipient: string
+  transportKey: string
+  body: string
+}): number[] {
+  return Utils.toArray(JSON.stringify({ sender, recipient, transportKey, body }), 'utf8')
+}
+
+/**
+ * Returns true if the value has the shape of a `SealedSenderPayload`.
+ */
+export function isSealedSenderPayload (value: unknown): value is SealedSenderPayload {
+  const candidate = value as Partial<SealedSenderPayload>
+  return (
+    candidate != null &&
+    typeof candidate === 'object' &&
+    candidate.sealed === SEALED_SENDER_MARKER &&
+    typeof candidate.sender === 'string' &&
+    typeof candidate.signature === 'string' &&
+    typeof candidate.body === 'string'
+  )
+}
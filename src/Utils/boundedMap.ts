@@ -0,0 +1,13 @@
+/**
+ * Sets a map entry, evicting the oldest entries once the map holds more than `limit`.
+ * Re-setting a key moves it to the newest position.
+ */
+export function setBounded<K, V> (map: Map<K, V>, key: K, value: V, limit: number): void {
+  map.delete(key)
+  map.set(key, value)
+  while (map.size > limit) {
+    const oldest = map.keys().next()
+    if (oldest.done === true) return
+    map.delete(oldest.value)
+  }
+}
@@ -0,0 +1,83 @@
+import { PeerMessage } from '../types.js'
+import { sortMessages } from '../MessageOrdering.js'
+import * as Logger from './logger.js'
+
+// How many delivered messageIds to remember for de-duplication.
+const SEEN_LIMIT = 1000
+
+/**
+ * Merges a live message stream with HTTP catch-up fetches into one ordered,
+ * de-duplicated stream.
+ *
+ * While a catch-up fetch is running, live messages are buffered. The fetched
+ * backlog is delivered oldest-first, followed by the buffered live messages.
+ * Any message whose `messageId` was already delivered is dropped.
+ */
+export class CatchUpStream {
+  private readonly seen: Set<string> = new Set()
+  private buffered: PeerMessage[] = []
+  private running = false
+  private rerun = false
+
+  constructor (private readonly onMessage: (message: PeerMessage) => void) {}
+
+  /**
+   * Accepts a message from the live socket.
+   */
+  pushLive (message: PeerMessage): void {
+    if (this.running) {
+      this.buffered.push(message)
+      return
+    }
+    this.deliver(message)
+  }
+
+  /**
+   * Runs a catch-up fetch. If one is already running, another pass is queued
+   * so that a re-join during a fetch is never missed.
+   *
+   * Fetch errors are logged and swallowed: the live stream keeps flowing.
+   */
+  async catchUp (fetchMissed: () => Promise<PeerMessage[]>): Promise<void> {
+    if (this.running) {
+      this.rerun = true
+      return
+    }
+
+    this.running = true
+    try {
+      do {
+        this.rerun = false
+        try {
+          const missed = await fetchMissed()
+          for (const message of sortMessages(missed)) {
+            this.deliver(message)
+          }
+        } catch (error) {
+          Logger.warn('[MB CLIENT] Catch-up fetch failed:', error)
+        }
+      } while (this.rerun)
+    } finally {
+      this.running = false
+      const pending = this.buffered
+      this.buffered = []
+      for (const message of pending) {
+        this.deliver(message)
+      }
+    }
+  }
+
+  private deliver (message: PeerMessage): void {
+    const id = message.messageId != null ? String(message.messageId) : undefined
+    if (id != null) {
+      if (this.seen.has(id)) return
+      this.seen.add(id)
+      if (this.seen.size > SEEN_LIMIT) {
+        // Sets iterate in insertion order, so the first entry is the oldest
+        const oldest = this.seen.values().next().value
+        if (oldest !== undefined) this.seen.delete(oldest)
+      }
+    }
+    this.onMessage(message)
+  }
+}
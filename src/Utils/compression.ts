@@ -0,0 +1,44 @@
+import { CompressionFormat } from '../types.js'
+import { deflateSync, inflateSync } from './deflate.js'
+
+/** Largest size a received compressed payload may inflate to, unless the client sets another. */
+export const DEFAULT_MAX_INFLATED_SIZE = 16 * 1024 * 1024
+
+/**
+ * Compresses bytes with `CompressionStream` where available, otherwise in pure JS.
+ */
+export async function compressBytes (data: number[], format: CompressionFormat): Promise<number[]> {
+  if (typeof CompressionStream === 'undefined') return deflateSync(data, format)
+  return await pipeThrough(data, new CompressionStream(format))
+}
+
+/**
+ * Decompresses bytes with `DecompressionStream` where available, otherwise in pure JS.
+ * Reading stops as soon as the output passes `maxSize`, so a small payload cannot expand
+ * into an arbitrarily large one.
+ *
+ * @throws {Error} If the data is not valid for the format or inflates to more than `maxSize` bytes.
+ */
+export async function decompressBytes (data: number[], format: CompressionFormat, maxSize = DEFAULT_MAX_INFLATED_SIZE): Promise<number[]> {
+  if (typeof DecompressionStream === 'undefined') return inflateSync(data, format, maxSize)
+  return await pipeThrough(data, new DecompressionStream(format), maxSize)
+}
+
+async function pipeThrough (data: number[], transform: CompressionStream | DecompressionStream, maxSize = Infinity): Promise<number[]> {
+  const writer = transform.writable.getWriter()
+  // Failures surface through the reader; keep the writer's copies from going unhandled
+  writer.write(Uint8Array.from(data)).catch(() => {})
+  writer.close().catch(() => {})
+
+  const reader = transform.readable.getReader()
+  const output: number[] = []
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return output
+    if (output.length + value.length > maxSize) {
+      reader.cancel().catch(() => {})
+      throw new Error(`Compressed data inflates to more than ${maxSize} bytes`)
+    }
+    for (const byte of value) output.push(byte)
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Minimal pure-JS DEFLATE (RFC 1951) with zlib (RFC 1950) and gzip (RFC 1952) framing.
+ *
+ * Used when `CompressionStream` / `DecompressionStream` are not available. Compression
+ * emits a single fixed-Huffman block with LZ77 matching, which any inflater accepts;
+ * decompression handles stored, fixed and dynamic blocks, so it also reads native output.
+ */
+
+import { CompressionFormat } from '../types.js'
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258]
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577]
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+const WINDOW_SIZE = 32768
+const MAX_MATCH = 258
+const MAX_CHAIN = 64
+
+const FIXED_LITERAL_LENGTHS = Array.from({ length: 288 }, (_, symbol) =>
+  symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8)
+const FIXED_DISTANCE_LENGTHS = new Array<number>(30).fill(5)
+
+/**
+ * Compresses bytes into the given format.
+ */
+export function deflateSync (data: number[], format: CompressionFormat): number[] {
+  const body = deflateRaw(data)
+  if (format === 'deflate') {
+    const adler = adler32(data)
+    return [0x78, 0x9c, ...body, (adler >>> 24) & 0xff, (adler >>> 16) & 0xff, (adler >>> 8) & 0xff, adler & 0xff]
+  }
+  const crc = crc32(data)
+  return [
+    0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff,
+    ...body,
+    ...uint32LE(crc),
+    ...uint32LE(data.length)
+  ]
+}
+
+/**
+ * Decompresses bytes in the given format, verifying its checksum.
+ *
+ * @throws {Error} If the data is malformed, the checksum does not match, or it inflates to more
+ * than `maxSize` bytes.
+ */
+export function inflateSync (data: number[], format: CompressionFormat, maxSize = Infinity): number[] {
+  if (format === 'deflate') {
+    const [cmf, flg] = data
+    if ((cmf & 0x0f) !== 8 || ((cmf << 8) | flg) % 31 !== 0 || (flg & 0x20) !== 0) {
+      throw new Error('Invalid zlib header')
+    }
+    const { bytes, end } = inflateRaw(data, 2, maxSize)
+    const expected = ((data[end] << 24) | (data[end + 1] << 16) | (data[end + 2] << 8) | data[end + 3]) >>> 0
+    if (adler32(bytes) !== expected) throw new Error('Zlib checksum mismatch')
+    return bytes
+  }
+
+  if (data[0] !== 0x1f || data[1] !== 0x8b || data[2] !== 8) throw new Error('Invalid gzip header')
+  const flags = data[3]
+  let offset = 10
+  if ((flags & 4) !== 0) offset += 2 + (data[offset] | (data[offset + 1] << 8))
+  if ((flags & 8) !== 0) offset = skipZeroTerminated(data, offset)
+  if ((flags & 16) !== 0) offset = skipZeroTerminated(data, offset)
+  if ((flags & 2) !== 0) offset += 2
+
+  const { bytes, end } = inflateRaw(data, offset, maxSize)
+  if (readUint32LE(data, end) !== crc32(bytes) || readUint32LE(data, end + 4) !== bytes.length % 2 ** 32) {
+    throw new Error('Gzip checksum mismatch')
+  }
+  return bytes
+}
+
+class BitWriter {
+  readonly bytes: number[] = []
+  private current = 0
+  private filled = 0
+
+  write (value: number, count: number): void {
+    for (let i = 0; i < count; i++) {
+      this.current |= ((value >>> i) & 1) << this.filled
+      if (++this.filled === 8) this.flush()
+    }
+  }
+
+  /** Huffman codes are stored most significant bit first. */
+  writeCode (code: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) this.write((code >>> i) & 1, 1)
+  }
+
+  flush (): void {
+    if (this.filled > 0) {
+      this.bytes.push(this.current)
+      this.current = 0
+      this.filled = 0
+    }
+  }
+}
+
+function deflateRaw (data: number[]): number[] {
+  const literalCodes = canonicalCodes(FIXED_LITERAL_LENGTHS)
+  const distanceCodes = canonicalCodes(FIXED_DISTANCE_LENGTHS)
+  const writer = new BitWriter()
+  writer.write(1, 1) // final block
+  writer.write(1, 2) // fixed Huffman
+
+  const head = new Map<number, number>()
+  const previous = new Int32Array(data.length).fill(-1)
+  const hashAt = (i: number): number => (data[i] << 16) | (data[i + 1] << 8) | data[i + 2]
+  const insert = (i: number): void => {
+    if (i + 2 >= data.length) return
+    const hash = hashAt(i)
+    previous[i] = head.get(hash) ?? -1
+    head.set(hash, i)
+  }
+
+  let i = 0
+  while (i < data.length) {
+    let bestLength = 0
+    let bestDistance = 0
+    if (i + 2 < data.length) {
+      let candidate = head.get(hashAt(i)) ?? -1
+      for (let chain = 0; candidate >= 0 && i - candidate <= WINDOW_SIZE && chain < MAX_CHAIN; chain++) {
+        let length = 0
+        while (length < MAX_MATCH && i + length < data.length && data[candidate + length] === data[i + length]) length++
+        if (length > bestLength) {
+          bestLength = length
+          bestDistance = i - candidate
+          if (length === MAX_MATCH) break
+        }
+        candidate = previous[candidate]
+      }
+    }
+
+    if (bestLength >= 3) {
+      const lengthIndex = baseIndex(LENGTH_BASE, bestLength)
+      writer.writeCode(literalCodes[257 + lengthIndex], FIXED_LITERAL_LENGTHS[257 + lengthIndex])
+      writer.write(bestLength - LENGTH_BASE[lengthIndex], LENGTH_EXTRA[lengthIndex])
+      const distanceIndex = baseIndex(DISTANCE_BASE, bestDistance)
+      writer.writeCode(distanceCodes[distanceIndex], FIXED_DISTANCE_LENGTHS[distanceIndex])
+      writer.write(bestDistance - DISTANCE_BASE[distanceIndex], DISTANCE_EXTRA[distanceIndex])
+      for (const end = i + bestLength; i < end; i++) insert(i)
+    } else {
+      writer.writeCode(literalCodes[data[i]], FIXED_LITERAL_LENGTHS[data[i]])
+      insert(i)
+      i++
+    }
+  }
+
+  writer.writeCode(literalCodes[256], FIXED_LITERAL_LENGTHS[256])
+  writer.flush()
+  return writer.bytes
+}
+
+class BitReader {
+  private bit = 0
+
+  constructor (private readonly data: number[], public position: number) {}
+
+  read (count: number): number {
+    let value = 0
+    for (let i = 0; i < count; i++) {
+      if (this.position >= this.data.length) throw new Error('Unexpected end of compressed data')
+      value |= ((this.data[this.position] >>> this.bit) & 1) << i
+      if (++this.bit === 8) {
+        this.bit = 0
+        this.position++
+      }
+    }
+    return value
+  }
+
+  alignToByte (): void {
+    if (this.bit > 0) {
+      this.bit = 0
+      this.position++
+    }
+  }
+}
+
+interface Huffman {
+  counts: number[]
+  symbols: number[]
+}
+
+function buildHuffman (lengths: number[]): Huffman {
+  const counts = new Array<number>(16).fill(0)
+  for (const length of lengths) counts[length]++
+  counts[0] = 0
+  const offsets = new Array<number>(16).fill(0)
+  for (let length = 1; length < 15; length++) offsets[length + 1] = offsets[length] + counts[length]
+  const symbols: number[] = []
+  lengths.forEach((length, symbol) => {
+    if (length !== 0) symbols[offsets[length]++] = symbol
+  })
+  return { counts, symbols }
+}
+
+function decodeSymbol (reader: BitReader, huffman: Huffman): number {
+  let code = 0
+  let first = 0
+  let index = 0
+  for (let length = 1; length < 16; length++) {
+    code |= reader.read(1)
+    const count = huffman.counts[length]
+    if (code - count < first) return huffman.symbols[index + code - first]
+    index += count
+    first = (first + count) << 1
+    code <<= 1
+  }
+  throw new Error('Invalid Huffman code in compressed data')
+}
+
+function inflateRaw (data: number[], start: number, maxSize: number): { bytes: number[], end: number } {
+  const reader = new BitReader(data, start)
+  const out: number[] = []
+  let final = 0
+
+  while (final === 0) {
+    final = reader.read(1)
+    const type = reader.read(2)
+
+    if (type === 0) {
+      reader.alignToByte()
+      const position = reader.position
+      const length = data[position] | (data[position + 1] << 8)
+      const inverse = data[position + 2] | (data[position + 3] << 8)
+      if ((length ^ 0xffff) !== inverse || position + 4 + length > data.length) {
+        throw new Error('Invalid stored block in compressed data')
+      }
+      assertWithin(out.length + length, maxSize)
+      for (let i = 0; i < length; i++) out.push(data[position + 4 + i])
+      reader.position = position + 4 + length
+      continue
+    }
+
+    let literals: Huffman
+    let distances: Huffman
+    if (type === 1) {
+      literals = buildHuffman(FIXED_LITERAL_LENGTHS)
+      distances = buildHuffman(FIXED_DISTANCE_LENGTHS)
+    } else if (type === 2) {
+      [literals, distances] = readDynamicTables(reader)
+    } else {
+      throw new Error('Invalid block type in compressed data')
+    }
+
+    for (;;) {
+      const symbol = decodeSymbol(reader, literals)
+      if (symbol < 256) {
+        assertWithin(out.length + 1, maxSize)
+        out.push(symbol)
+      } else if (symbol === 256) {
+        break
+      } else {
+        const lengthIndex = symbol - 257
+        if (lengthIndex >= LENGTH_BASE.length) throw new Error('Invalid length in compressed data')
+        const length = LENGTH_BASE[lengthIndex] + reader.read(LENGTH_EXTRA[lengthIndex])
+        const distanceIndex = decodeSymbol(reader, distances)
+        if (distanceIndex >= DISTANCE_BASE.length) throw new Error('Invalid distance in compressed data')
+        const distance = DISTANCE_BASE[distanceIndex] + reader.read(DISTANCE_EXTRA[distanceIndex])
+        if (distance > out.length) throw new Error('Invalid distance in compressed data')
+        assertWithin(out.length + length, maxSize)
+        for (let i = 0; i < length; i++) out.push(out[out.length - distance])
+      }
+    }
+  }
+
+  reader.alignToByte()
+  return { bytes: out, end: reader.position }
+}
+
+function assertWithin (size: number, maxSize: number): void {
+  if (size > maxSize) throw new Error(`Compressed data inflates to more than ${maxSize} bytes`)
+}
+
+function readDynamicTables (reader: BitReader): [Huffman, Huffman] {
+  const literalCount = reader.read(5) + 257
+  const distanceCount = reader.read(5) + 1
+  const codeLengthCount = reader.read(4) + 4
+
+  const codeLengthLengths = new Array<number>(19).fill(0)
+  for (let i = 0; i < codeLengthCount; i++) codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.read(3)
+  const codeLengths = buildHuffman(codeLengthLengths)
+
+  const lengths: number[] = []
+  while (lengths.length < literalCount + distanceCount) {
+    const symbol = decodeSymbol(reader, codeLengths)
+    if (symbol < 16) {
+      lengths.push(symbol)
+    } else if (symbol === 16) {
+      if (lengths.length === 0) throw new Error('Invalid code lengths in compressed data')
+      const previous = lengths[lengths.length - 1]
+      for (let repeat = 3 + reader.read(2); repeat > 0; repeat--) lengths.push(previous)
+    } else {
+      const zeros = symbol === 17 ? 3 + reader.read(3) : 11 + reader.read(7)
+      for (let repeat = zeros; repeat > 0; repeat--) lengths.push(0)
+    }
+  }
+  if (lengths.length > literalCount + distanceCount) throw new Error('Invalid code lengths in compressed data')
+
+  return [buildHuffman(lengths.slice(0, literalCount)), buildHuffman(lengths.slice(literalCount))]
+}
+
+function canonicalCodes (lengths: number[]): number[] {
+  const counts = new Array<number>(16).fill(0)
+  for (const length of lengths) counts[length]++
+  counts[0] = 0
+  const next = new Array<number>(16).fill(0)
+  for (let length = 1, code = 0; length < 16; length++) {
+    code = (code + counts[length - 1]) << 1
+    next[length] = code
+  }
+  return lengths.map(length => length === 0 ? 0 : next[length]++)
+}
+
+function baseIndex (bases: number[], value: number): number {
+  let index = bases.length - 1
+  while (bases[index] > value) index--
+  return index
+}
+
+function adler32 (data: number[]): number {
+  let a = 1
+  let b = 0
+  for (const byte of data) {
+    a = (a + byte) % 65521
+    b = (b + a) % 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+let crcTable: number[] | undefined
+
+function crc32 (data: number[]): number {
+  if (crcTable == null) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n
+      for (let k = 0; k < 8; k++) c = (c & 1) !== 0 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      return c >>> 0
+    })
+  }
+  let crc = 0xffffffff
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function skipZeroTerminated (data: number[], offset: number): number {
+  while (offset < data.length && data[offset] !== 0) offset++
+  return offset + 1
+}
+
+function uint32LE (value: number): number[] {
+  return [value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff]
+}
+
+function readUint32LE (data: number[], offset: number): number {
+  return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0
+}
@@ -0,0 +1,41 @@
+/**
+ * Minimal JSON file persistence for the Node-only stores.
+ *
+ * `node:fs/promises` is imported lazily (and hidden from webpack) so that
+ * browser bundles never try to resolve it.
+ */
+
+type FsPromises = typeof import('node:fs/promises')
+
+let fsPromise: Promise<FsPromises> | undefined
+
+async function loadFs (): Promise<FsPromises> {
+  if (fsPromise == null) {
+    fsPromise = import(/* webpackIgnore: true */ 'node:fs/promises')
+  }
+  return await fsPromise
+}
+
+/**
+ * Reads and parses a JSON file, returning `fallback` if the file does not exist yet.
+ */
+export async function readJsonFile<T> (path: string, fallback: T): Promise<T> {
+  const fs = await loadFs()
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf8')) as T
+  } catch (error) {
+    if ((error as { code?: string })?.code === 'ENOENT') return fallback
+    throw error
+  }
+}
+
+/**
+ * Writes a value as JSON. The data is written to a temporary file first and then
+ * renamed over the target, so a crash never leaves a half-written file behind.
+ */
+export async function writeJsonFile (path: string, value: unknown): Promise<void> {
+  const fs = await loadFs()
+  const tempPath = `${path}.tmp`
+  await fs.writeFile(tempPath, JSON.stringify(value), 'utf8')
+  await fs.rename(tempPath, path)
+}
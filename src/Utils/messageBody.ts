@@ -0,0 +1,51 @@
+import { Payment } from '../types.js'
+
+/**
+ * Parses a string as JSON, returning the string unchanged if it is not JSON.
+ */
+export function parseJsonBody (raw: string): unknown {
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return raw
+  }
+}
+
+/**
+ * Serializes a body for transport; strings are sent as-is.
+ */
+export function serializeBody (body: unknown): string {
+  return typeof body === 'string' ? body : JSON.stringify(body)
+}
+
+/**
+ * Splits a stored body into the sender's content and any attached payment.
+ * The server stores messages sent with a payment as `{ message, payment }`.
+ */
+export function unwrapStoredBody (body: unknown): { content: unknown, payment?: Payment } {
+  const parsed = typeof body === 'string' ? parseJsonBody(body) : body
+  if (parsed != null && typeof parsed === 'object' && 'message' in parsed) {
+    const { message, payment } = parsed as { message: unknown, payment?: Payment }
+    return {
+      content: typeof message === 'string' ? parseJsonBody(message) : message,
+      ...(payment != null && { payment })
+    }
+  }
+  return { content: parsed }
+}
+
+/** Key ID of bodies encrypted before key rotation, and of every body that does not name one. */
+export const LEGACY_KEY_ID = '1'
+
+/**
+ * Returns the base64 ciphertext and its key ID if the content is an `{ encryptedMessage }` body.
+ */
+export function encryptedPayload (content: unknown): { ciphertext: string, keyID: string } | undefined {
+  if (content != null && typeof content === 'object') {
+    const { encryptedMessage, keyID } = content as { encryptedMessage?: unknown, keyID?: unknown }
+    if (typeof encryptedMessage === 'string') {
+      return { ciphertext: encryptedMessage, keyID: typeof keyID === 'string' && keyID !== '' ? keyID : LEGACY_KEY_ID }
+    }
+  }
+  return undefined
+}
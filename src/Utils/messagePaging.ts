@@ -0,0 +1,87 @@
+import { Utils } from '@bsv/sdk'
+import { ListMessagesParams, MessageOrder, MessagePage, PeerMessage } from '../types.js'
+import { comparePositions, MessagePosition, messagePosition, resolveMessageOrder } from '../MessageOrdering.js'
+
+/**
+ * Position of the last message on a page, together with the order it was taken in.
+ * Because the order is total, this identifies a unique position even when messages
+ * before it are acknowledged between requests.
+ */
+interface MessageCursor extends MessagePosition, Required<MessageOrder> {}
+
+/**
+ * Filters, orders and slices a merged message list according to the paging
+ * parameters of `listMessages` / `listMessagesPage`.
+ *
+ * @throws {Error} If the cursor is malformed or was issued for a different order,
+ * or the limit is not a positive integer.
+ */
+export function selectMessagePage (messages: PeerMessage[], params: ListMessagesParams): MessagePage {
+  const { limit, cursor, since, until, sender } = params
+  if (limit != null && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error('Limit must be a positive integer')
+  }
+
+  const { by, direction } = resolveMessageOrder(params.order)
+  const senders = sender == null ? undefined : new Set(Array.isArray(sender) ? sender : [sender])
+  const from = since != null ? toTime(since) : undefined
+  const to = until != null ? toTime(until) : undefined
+  const after = cursor != null ? decodeCursor(cursor) : undefined
+  if (after != null && (after.by !== by || after.direction !== direction)) {
+    throw new Error('Message cursor was issued for a different order')
+  }
+
+  const selected = messages
+    .filter(message => {
+      if (senders != null && !senders.has(message.sender)) return false
+      if (from == null && to == null) return true
+      const created = Date.parse(message.created_at)
+      if (Number.isNaN(created)) return false
+      return (from == null || created >= from) && (to == null || created < to)
+    })
+    .map(message => ({ message, position: messagePosition(message, by) }))
+    .sort((a, b) => comparePositions(a.position, b.position, direction))
+    .filter(({ position }) => after == null || comparePositions(position, after, direction) > 0)
+
+  if (limit == null || selected.length <= limit) {
+    return { messages: selected.map(({ message }) => message) }
+  }
+
+  const page = selected.slice(0, limit)
+  const last = page[page.length - 1].position
+  return {
+    messages: page.map(({ message }) => message),
+    nextCursor: encodeCursor({ ...last, by, direction })
+  }
+}
+
+function encodeCursor (cursor: MessageCursor): string {
+  return Utils.toBase64(Utils.toArray(JSON.stringify(cursor), 'utf8'))
+}
+
+function decodeCursor (cursor: string): MessageCursor {
+  try {
+    const decoded = JSON.parse(Utils.toUTF8(Utils.toArray(cursor, 'base64')))
+    if (
+      typeof decoded.time === 'number' &&
+      typeof decoded.messageId === 'string' &&
+      typeof decoded.by === 'string' &&
+      typeof decoded.direction === 'string'
+    ) {
+      return decoded
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid message cursor')
+}
+
+function toTime (value: string | number | Date): number {
+  const time = value instanceof Date
+    ? value.getTime()
+    : typeof value === 'number' ? value : Date.parse(value)
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date filter: ${String(value)}`)
+  }
+  return time
+}
@@ -0,0 +1,51 @@
+import { Random, Utils } from '@bsv/sdk'
+import { createEnvelope, decodeEnvelope, MessageEnvelope } from '../MessageEnvelope.js'
+import { PaddingOptions } from '../types.js'
+
+const DEFAULT_BUCKETS = [256, 1024, 4096, 16384, 65536]
+const DEFAULT_RANDOM_MAX = 256
+
+export type PaddingPolicy =
+  | { mode: 'buckets', sizes: number[] }
+  | { mode: 'random', max: number }
+
+/**
+ * Fills in defaults and checks the client's `padding` option.
+ *
+ * @throws {Error} If bucket sizes or the random maximum are not positive integers.
+ */
+export function resolvePadding (options: true | PaddingOptions): PaddingPolicy {
+  if (options === true || options.mode === 'buckets') {
+    const sizes = options === true ? DEFAULT_BUCKETS : options.sizes ?? DEFAULT_BUCKETS
+    if (sizes.length === 0 || !sizes.every(size => Number.isInteger(size) && size > 0)) {
+      throw new Error('Padding bucket sizes must be positive integers')
+    }
+    return { mode: 'buckets', sizes: [...sizes].sort((a, b) => a - b) }
+  }
+  const max = options.max ?? DEFAULT_RANDOM_MAX
+  if (!Number.isInteger(max) || max <= 0) {
+    throw new Error('Padding max must be a positive integer')
+  }
+  return { mode: 'random', max }
+}
+
+/**
+ * Wraps a body in an envelope (unless it already is one) and sets its `padding` so the
+ * serialized envelope has the size the policy asks for.
+ */
+export function padBody (body: string | object, policy: PaddingPolicy): MessageEnvelope {
+  const envelope: MessageEnvelope = { ...(decodeEnvelope(body) ?? createEnvelope(body)), padding: '' }
+  // The filler is ASCII, so every character adds exactly one byte
+  const size = Utils.toArray(JSON.stringify(envelope), 'utf8').length
+  return { ...envelope, padding: '0'.repeat(paddingLength(size, policy)) }
+}
+
+function paddingLength (size: number, policy: PaddingPolicy): number {
+  if (policy.mode === 'random') {
+    const [high, low] = Random(2)
+    return ((high << 8) | low) % (policy.max + 1)
+  }
+  const largest = policy.sizes[policy.sizes.length - 1]
+  const target = policy.sizes.find(bucket => bucket >= size) ?? Math.ceil(size / largest) * largest
+  return target - size
+}
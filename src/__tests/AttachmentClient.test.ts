@@ -0,0 +1,137 @@
+/* eslint-env jest */
+import { jest } from '@jest/globals'
+import { AttachmentClient } from '../AttachmentClient.js'
+import { selectMessagePage } from '../Utils/messagePaging.js'
+import type { MessageBoxClient } from '../MessageBoxClient.js'
+import { AttachmentProgress, AttachmentTransfer, ListMessagesParams, MessagePage, PeerMessage, SendMessageParams } from '../types.js'
+
+const alice = '03alice'
+const bob = '03bob'
+
+describe('AttachmentClient', () => {
+  let inbox: PeerMessage[]
+  let client: MessageBoxClient
+  let sendCalls: number
+  let failOnCall: number | undefined
+
+  beforeEach(() => {
+    inbox = []
+    sendCalls = 0
+    failOnCall = undefined
+    // Delivers every sent message straight into the recipient's box, as listMessages would return it
+    client = {
+      sendMessage: jest.fn(async (params: SendMessageParams) => {
+        if (++sendCalls === failOnCall) throw new Error('network down')
+        const messageId = `m-${inbox.length + 1}`
+        const created = new Date(Date.UTC(2026, 0, 1, 0, 0, inbox.length)).toISOString()
+        inbox.push({
+          messageId,
+          sender: alice,
+          body: JSON.parse(JSON.stringify(params.body)),
+          contentType: params.contentType,
+          headers: params.headers,
+          created_at: created,
+          updated_at: created
+        })
+        return { status: 'success', messageId }
+      }),
+      listMessagesPage: jest.fn(async (params: ListMessagesParams): Promise<MessagePage> =>
+        selectMessagePage(inbox.map(m => ({ ...m })), params)),
+      acknowledgeMessage: jest.fn(async ({ messageIds }: { messageIds: string[] }) => {
+        inbox = inbox.filter(m => !messageIds.includes(m.messageId))
+        return 'success'
+      })
+    } as unknown as MessageBoxClient
+  })
+
+  it('sends a manifest and chunks and reassembles them with progress', async () => {
+    const sender = new AttachmentClient(client, { chunkSize: 4 })
+    const receiver = new AttachmentClient(client, { chunkSize: 4 })
+    const data = Uint8Array.from([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+    const sent: AttachmentProgress[] = []
+
+    const transfer = await sender.send({ recipient: bob, data, name: 'file.bin', onProgress: p => sent.push(p) })
+
+    expect(transfer.sentChunks).toEqual([0, 1, 2])
+    expect(sent.map(p => p.completedBytes)).toEqual([4, 8, 10])
+    expect(inbox[0].contentType).toBe('application/vnd.messagebox.attachment-manifest+json')
+
+    const received: AttachmentProgress[] = []
+    const attachment = await receiver.receive(transfer.attachmentId, { onProgress: p => received.push(p) })
+
+    expect(Array.from(attachment.data)).toEqual(Array.from(data))
+    expect(attachment.manifest).toEqual(expect.objectContaining({ name: 'file.bin', size: 10, chunkCount: 3 }))
+    expect(attachment.sender).toBe(alice)
+    expect(received[received.length - 1]).toEqual(expect.objectContaining({ completedChunks: 3, totalBytes: 10 }))
+    expect(inbox).toHaveLength(0)
+  })
+
+  it('resumes an interrupted send without re-sending delivered chunks', async () => {
+    const sender = new AttachmentClient(client, { chunkSize: 2 })
+    const data = [1, 2, 3, 4, 5, 6]
+
+    await sender.send({ recipient: bob, data })
+    const sendsPerAttachment = inbox.length
+    inbox = []
+
+    // Manifest and chunk 0 go out, chunk 1 fails
+    sendCalls = 0
+    failOnCall = 3
+    let transfer: AttachmentTransfer | undefined
+    await sender.send({ recipient: bob, data }).catch((error: Error & { transfer: AttachmentTransfer }) => {
+      expect(error.message).toContain('network down')
+      transfer = error.transfer
+    })
+    expect(transfer?.sentChunks).toEqual([0])
+
+    const resumed = await sender.send({ recipient: bob, data, resume: transfer })
+    expect(resumed.sentChunks).toEqual([0, 1, 2])
+    expect(inbox).toHaveLength(sendsPerAttachment)
+
+    await expect(sender.send({ recipient: bob, data: [1], resume: transfer }))
+      .rejects.toThrow('Resume state does not match this attachment')
+  })
+
+  it('reassembles large chunks and ignores manifests with chunks over the limit', async () => {
+    const chunkSize = 160 * 1024
+    const sender = new AttachmentClient(client, { chunkSize })
+    const data = Uint8Array.from({ length: chunkSize + 10 }, (_, i) => i % 251)
+    const transfer = await sender.send({ recipient: bob, data })
+
+    const strict = new AttachmentClient(client, { maxChunkSize: chunkSize - 1 })
+    await expect(strict.receive(transfer.attachmentId))
+      .rejects.toThrow(`has chunks of ${chunkSize} bytes, more than the ${chunkSize - 1} allowed`)
+    expect(await strict.listAttachments()).toEqual([])
+
+    const attachment = await new AttachmentClient(client, { store: strict.store }).receive(transfer.attachmentId)
+    expect(attachment.data).toEqual(data)
+  })
+
+  it('reports missing chunks, drops corrupt ones and resumes receiving', async () => {
+    const sender = new AttachmentClient(client, { chunkSize: 3 })
+    const receiver = new AttachmentClient(client, { chunkSize: 3 })
+    const transfer = await sender.send({ recipient: bob, data: [1, 2, 3, 4, 5, 6, 7] })
+
+    // Hold back the last chunk and corrupt the middle one
+    const last = inbox.pop() as PeerMessage
+    const middle = inbox[2].body as { data: string }
+    const corrupted = { ...inbox[2], messageId: 'bad', body: { ...middle, data: 'AAAA' } }
+    inbox.splice(2, 1, corrupted)
+
+    const failure = await receiver.receive(transfer.attachmentId).catch((error: Error & { missing: number[] }) => error)
+    expect((failure as Error).message).toBe(`Attachment ${transfer.attachmentId} is incomplete: 1 of 3 chunks received`)
+    expect((failure as { missing: number[] }).missing).toEqual([1, 2])
+    expect(await receiver.store.get('bad')).toBeUndefined()
+
+    const [status] = await receiver.listAttachments()
+    expect(status).toEqual(expect.objectContaining({ receivedChunks: 1, complete: false }))
+
+    inbox.push({ ...last, messageId: 'late-2', created_at: '2026-02-01T00:00:00Z' })
+    inbox.push({ ...last, messageId: 'late-1', body: middle, created_at: '2026-02-01T00:00:01Z' })
+    const attachment = await receiver.receive(transfer.attachmentId)
+    expect(Array.from(attachment.data)).toEqual([1, 2, 3, 4, 5, 6, 7])
+
+    await receiver.discard(transfer.attachmentId)
+    expect(await receiver.listAttachments()).toEqual([])
+  })
+})
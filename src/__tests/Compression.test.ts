@@ -0,0 +1,47 @@
+/* eslint-env jest */
+import zlib from 'node:zlib'
+import { deflateSync, inflateSync } from '../Utils/deflate.js'
+import { compressBytes, decompressBytes } from '../Utils/compression.js'
+import { CompressionFormat } from '../types.js'
+
+const text = JSON.stringify(Array.from({ length: 200 }, (_, i) => ({ id: i, status: i % 3 === 0 ? 'pending' : 'sent', note: 'ünïcødé ✓' })))
+const bytes = Array.from(Buffer.from(text, 'utf8'))
+const formats: CompressionFormat[] = ['gzip', 'deflate']
+
+describe('compression', () => {
+  it.each(formats)('round-trips %s in pure JS and shrinks repetitive data', format => {
+    const compressed = deflateSync(bytes, format)
+    expect(compressed.length).toBeLessThan(bytes.length / 4)
+    expect(inflateSync(compressed, format)).toEqual(bytes)
+    expect(inflateSync(deflateSync([], format), format)).toEqual([])
+  })
+
+  it('interoperates with zlib in both directions', () => {
+    expect(Array.from(zlib.gunzipSync(Buffer.from(deflateSync(bytes, 'gzip'))))).toEqual(bytes)
+    expect(Array.from(zlib.inflateSync(Buffer.from(deflateSync(bytes, 'deflate'))))).toEqual(bytes)
+    // zlib emits dynamic Huffman and stored blocks, which the fallback must read too
+    expect(inflateSync(Array.from(zlib.gzipSync(Buffer.from(bytes))), 'gzip')).toEqual(bytes)
+    expect(inflateSync(Array.from(zlib.deflateSync(Buffer.from(bytes), { level: 0 })), 'deflate')).toEqual(bytes)
+  })
+
+  it('rejects corrupt data', () => {
+    const compressed = deflateSync(bytes, 'gzip')
+    compressed[compressed.length - 8] ^= 0xff
+    expect(() => inflateSync(compressed, 'gzip')).toThrow('Gzip checksum mismatch')
+    expect(() => inflateSync([1, 2, 3], 'deflate')).toThrow('Invalid zlib header')
+  })
+
+  it('stops inflating once the output passes the size limit', async () => {
+    // 8 MiB of zeros compress to a few KiB
+    const bomb = Array.from(zlib.gzipSync(Buffer.alloc(8 * 1024 * 1024)))
+    expect(bomb.length).toBeLessThan(16 * 1024)
+    expect(() => inflateSync(bomb, 'gzip', 1024 * 1024)).toThrow('Compressed data inflates to more than 1048576 bytes')
+    await expect(decompressBytes(bomb, 'gzip', 1024 * 1024)).rejects.toThrow('Compressed data inflates to more than 1048576 bytes')
+  })
+
+  it('uses CompressionStream when available and reads its output with the fallback', async () => {
+    const compressed = await compressBytes(bytes, 'gzip')
+    expect(inflateSync(compressed, 'gzip')).toEqual(bytes)
+    expect(await decompressBytes(deflateSync(bytes, 'deflate'), 'deflate')).toEqual(bytes)
+  })
+})
@@ -0,0 +1,122 @@
+/* eslint-env jest */
+import { jest } from '@jest/globals'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ContactBook } from '../ContactBook.js'
+import { FileContactStore, MemoryContactStore } from '../ContactStores.js'
+import type { MessageBoxClient } from '../MessageBoxClient.js'
+import { PeerMessage } from '../types.js'
+
+const bob = `02${'b'.repeat(64)}`
+const carol = `03${'c'.repeat(64)}`
+const mallory = `02${'d'.repeat(64)}`
+const dave = `03${'e'.repeat(64)}`
+
+const message = (sender: string): PeerMessage => ({
+  messageId: `from-${sender.slice(2, 4)}`,
+  sender,
+  body: 'hi',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z'
+})
+
+describe('ContactBook', () => {
+  it('pins petnames to the identity key they were first given', async () => {
+    const contacts = new ContactBook()
+    await contacts.addContact({ identityKey: bob, petname: 'bob', tags: ['team', 'team'] })
+
+    await expect(contacts.addContact({ identityKey: mallory, petname: 'bob' })).rejects.toThrow(`Petname "bob" is already pinned to ${bob}`)
+    expect(await contacts.resolve('bob')).toBe(bob)
+    expect(await contacts.resolve(carol)).toBe(carol)
+    await expect(contacts.resolve('carol')).rejects.toThrow('Unknown contact: carol')
+
+    const updated = await contacts.updateContact(bob, { petname: 'Bobby', preferredHost: 'https://bob.example' })
+    expect(updated).toEqual(expect.objectContaining({ petname: 'Bobby', tags: ['team'], preferredHost: 'https://bob.example' }))
+    await expect(contacts.updateContact(carol, { petname: 'carol' })).rejects.toThrow('Unknown contact')
+  })
+
+  it('records when senders were first seen and flags those that are not contacts', async () => {
+    const contacts = new ContactBook()
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1000)
+    const messages = [message(bob)]
+    await contacts.annotate(messages)
+    expect(messages[0].unknownSender).toBe(true)
+    expect(messages[0].contact).toEqual(expect.objectContaining({ known: false, firstSeenAt: 1000 }))
+
+    nowSpy.mockReturnValue(2000)
+    await contacts.addContact({ identityKey: bob, petname: 'bob' })
+    const later = [message(bob), message(carol)]
+    await contacts.annotate(later)
+    expect(later[0].unknownSender).toBe(false)
+    expect(later[0].contact).toEqual(expect.objectContaining({ petname: 'bob', firstSeenAt: 1000, lastSeenAt: 2000 }))
+    expect(later[1].unknownSender).toBe(true)
+    expect(await contacts.listContacts()).toEqual([expect.objectContaining({ identityKey: bob })])
+    nowSpy.mockRestore()
+  })
+
+  it('writes lastSeenAt back only once it has moved on by the resolution', async () => {
+    const store = new MemoryContactStore()
+    const put = jest.spyOn(store, 'put')
+    const contacts = new ContactBook({ store, lastSeenResolution: 60_000 })
+
+    await contacts.observe(bob, 1000)
+    expect((await contacts.observe(bob, 2000)).lastSeenAt).toBe(2000)
+    expect(put).toHaveBeenCalledTimes(1)
+    expect((await contacts.getContact(bob))?.lastSeenAt).toBe(1000)
+
+    await contacts.observe(bob, 61_000)
+    expect(put).toHaveBeenCalledTimes(2)
+    expect((await contacts.getContact(bob))?.lastSeenAt).toBe(61_000)
+  })
+
+  it('forgets the unknown senders seen longest ago beyond the limit', async () => {
+    const contacts = new ContactBook({ maxUnknownSenders: 2 })
+    await contacts.addContact({ identityKey: bob, petname: 'bob' })
+    await contacts.observe(carol, 1000)
+    await contacts.observe(mallory, 2000)
+    await contacts.observe(carol, 100_000)
+    await contacts.observe(dave, 200_000)
+
+    expect(await contacts.getContact(mallory)).toBeUndefined()
+    expect(await contacts.getContact(carol)).toEqual(expect.objectContaining({ known: false, firstSeenAt: 1000 }))
+    expect(await contacts.getContact(dave)).toEqual(expect.objectContaining({ known: false }))
+    expect(await contacts.getContact(bob)).toEqual(expect.objectContaining({ known: true }))
+  })
+
+  it('sets a permission for every contact with a tag', async () => {
+    const contacts = new ContactBook()
+    await contacts.addContact({ identityKey: bob, tags: ['team'] })
+    await contacts.addContact({ identityKey: carol, tags: ['family'] })
+    await contacts.observe(mallory)
+    const setMessageBoxPermission = jest.fn(async () => {})
+    const client = { setMessageBoxPermission } as unknown as MessageBoxClient
+
+    expect(await contacts.setTagPermission(client, { tag: 'team', messageBox: 'inbox' })).toEqual([bob])
+    expect(setMessageBoxPermission).toHaveBeenCalledWith({ messageBox: 'inbox', sender: bob, recipientFee: 0 }, undefined)
+    expect(setMessageBoxPermission).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('FileContactStore', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'contacts-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('persists contacts across instances', async () => {
+    const path = join(directory, 'contacts.json')
+    const first = new ContactBook({ store: new FileContactStore(path) })
+    await first.addContact({ identityKey: bob, petname: 'bob', settings: { muted: true } })
+    await first.observe(carol)
+
+    const second = new ContactBook({ store: new FileContactStore(path) })
+    expect(await second.getContact(bob)).toEqual(expect.objectContaining({ known: true, petname: 'bob', settings: { muted: true } }))
+    expect(await second.getContact(carol)).toEqual(expect.objectContaining({ known: false }))
+  })
+})
@@ -0,0 +1,97 @@
+/* eslint-env jest */
+import { jest } from '@jest/globals'
+import { ConversationClient } from '../ConversationClient.js'
+import { selectMessagePage } from '../Utils/messagePaging.js'
+import type { MessageBoxClient } from '../MessageBoxClient.js'
+import { ListMessagesParams, MessagePage, PeerMessage, SendMessageParams } from '../types.js'
+
+const myKey = '02b463b8ef7f03c47fba2679c7334d13e4939b8ca30dbb6bbd22e34ea3e9b1b0e4'
+const alice = '03alice'
+const bob = '03bob'
+
+describe('ConversationClient', () => {
+  let inbox: PeerMessage[]
+  let sent: SendMessageParams[]
+  let client: MessageBoxClient
+
+  const receive = (messageId: string, sender: string, body: string, day: number, headers?: Record<string, string>): void => {
+    inbox.push({
+      messageId,
+      sender,
+      body,
+      ...(headers != null && { contentType: 'text/plain', headers }),
+      created_at: `2026-01-0${day}T00:00:00Z`,
+      updated_at: `2026-01-0${day}T00:00:00Z`
+    })
+  }
+
+  beforeEach(() => {
+    inbox = []
+    sent = []
+    client = {
+      getIdentityKey: jest.fn(async () => myKey),
+      sendMessage: jest.fn(async (params: SendMessageParams) => {
+        sent.push(params)
+        return { status: 'success', messageId: `sent-${sent.length}` }
+      }),
+      listMessagesPage: jest.fn(async (params: ListMessagesParams): Promise<MessagePage> =>
+        selectMessagePage(inbox.map(m => ({ ...m })), params)),
+      acknowledgeMessage: jest.fn(async ({ messageIds }: { messageIds: string[] }) => {
+        inbox = inbox.filter(m => !messageIds.includes(m.messageId))
+        return 'success'
+      })
+    } as unknown as MessageBoxClient
+  })
+
+  it('sends a new thread with its metadata in envelope headers', async () => {
+    const conversations = new ConversationClient(client)
+
+    const message = await conversations.send({ recipient: alice, body: 'Lunch tomorrow?' })
+
+    expect(sent[0]).toEqual({
+      recipient: alice,
+      messageBox: 'conversations',
+      body: 'Lunch tomorrow?',
+      headers: { 'thread-id': message.threadId, 'sent-at': expect.any(String) }
+    })
+    expect(message).toEqual(expect.objectContaining({
+      messageId: 'sent-1',
+      counterparty: alice,
+      direction: 'outgoing',
+      body: 'Lunch tomorrow?'
+    }))
+    expect(message.threadId).toMatch(/^[0-9a-f]{32}$/)
+  })
+
+  it('threads replies and groups conversations by counterparty', async () => {
+    const conversations = new ConversationClient(client)
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-01-05T00:00:00Z'))
+    const opening = await conversations.send({ recipient: alice, body: 'Lunch tomorrow?' })
+
+    receive('in-1', alice, 'Sure', 8, { 'thread-id': opening.threadId, 'in-reply-to': opening.messageId })
+    receive('in-2', bob, 'plain message', 7)
+    await conversations.sync()
+
+    const thread = await conversations.getThread(opening.threadId)
+    expect(thread.map(m => [m.messageId, m.direction])).toEqual([['sent-1', 'outgoing'], ['in-1', 'incoming']])
+    expect(thread[1].inReplyTo).toBe('sent-1')
+
+    now.mockReturnValue(Date.parse('2026-01-09T00:00:00Z'))
+    const reply = await conversations.reply(thread[1], 'Noon works')
+    now.mockRestore()
+    expect(sent[1]).toEqual(expect.objectContaining({
+      recipient: alice,
+      headers: expect.objectContaining({ 'thread-id': opening.threadId, 'in-reply-to': 'in-1' })
+    }))
+    expect(reply.threadId).toBe(opening.threadId)
+
+    const list = await conversations.listConversations()
+    expect(list.map(c => c.counterparty)).toEqual([alice, bob])
+    expect(list[0]).toEqual(expect.objectContaining({ threadIds: [opening.threadId], messageCount: 3 }))
+    expect(list[0].lastMessage.messageId).toBe(reply.messageId)
+
+    // Messages without thread headers form their own thread
+    expect(list[1].threadIds).toEqual(['in-2'])
+    expect(list[1].lastMessage.body).toBe('plain message')
+  })
+})
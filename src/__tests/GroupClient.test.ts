@@ -0,0 +1,206 @@
+/* eslint-env jest */
+import { jest } from '@jest/globals'
+import { WalletInterface } from '@bsv/sdk'
+import { GroupClient } from '../GroupClient.js'
+import type { MessageBoxClient } from '../MessageBoxClient.js'
+import { PeerMessage, SendMessageParams } from '../types.js'
+
+/**
+ * Group clients for several identities sharing one in-memory server.
+ */
+function createNetwork (): {
+  join: (identityKey: string) => GroupClient
+  sent: SendMessageParams[]
+  inbox: Map<string, PeerMessage[]>
+  signaturesValid: { value: boolean }
+} {
+  const inbox = new Map<string, PeerMessage[]>()
+  const sent: SendMessageParams[] = []
+  const signaturesValid = { value: true }
+  let counter = 0
+
+  const join = (identityKey: string): GroupClient => {
+    const walletClient = {
+      createSignature: async () => ({ signature: [1, 2, 3] }),
+      verifySignature: async () => ({ valid: signaturesValid.value })
+    } as unknown as WalletInterface
+    const client = {
+      getIdentityKey: async () => identityKey,
+      getWalletClient: () => walletClient,
+      getOriginator: () => undefined,
+      sendMessage: jest.fn(async (message: SendMessageParams) => {
+        sent.push(message)
+        const messageId = `m${++counter}`
+        const createdAt = new Date(Date.now() + counter).toISOString()
+        const messages = inbox.get(message.recipient) ?? []
+        messages.push({
+          messageId,
+          sender: identityKey,
+          body: message.body as PeerMessage['body'],
+          contentType: message.contentType,
+          headers: message.headers,
+          created_at: createdAt,
+          updated_at: createdAt
+        })
+        inbox.set(message.recipient, messages)
+        return { status: 'success', messageId }
+      }),
+      listMessages: async () => [...(inbox.get(identityKey) ?? [])],
+      acknowledgeMessage: async ({ messageIds }: { messageIds: string[] }) => {
+        inbox.set(identityKey, (inbox.get(identityKey) ?? []).filter(message => !messageIds.includes(message.messageId)))
+        return 'success'
+      }
+    } as unknown as MessageBoxClient
+    return new GroupClient(client)
+  }
+
+  return { join, sent, inbox, signaturesValid }
+}
+
+describe('GroupClient', () => {
+  it('creates a group, announces it and sends each member an encrypted copy', async () => {
+    const { join, sent } = createNetwork()
+    const alice = join('02alice')
+    const bob = join('02bob')
+    const carol = join('02carol')
+
+    const group = await alice.createGroup({ name: 'Team', members: ['02bob', '02carol', '02bob'] })
+    expect(group).toEqual(expect.objectContaining({ owner: '02alice', members: ['02alice', '02bob', '02carol'], version: 1 }))
+    expect(sent.map(message => message.recipient)).toEqual(['02bob', '02carol'])
+
+    await bob.sync()
+    expect(await bob.listGroups()).toEqual([expect.objectContaining({ groupId: group.groupId, name: 'Team', owner: '02alice' })])
+
+    const result = await alice.sendToGroup(group.groupId, 'Standup in 5')
+    expect(result.sent.map(s => s.recipient)).toEqual(['02bob', '02carol'])
+    expect(sent.slice(-2).every(message => message.skipEncryption == null && message.headers?.['group-id'] === group.groupId)).toBe(true)
+
+    expect(await bob.sync()).toEqual([expect.objectContaining({ groupId: group.groupId, sender: '02alice', body: 'Standup in 5' })])
+    expect(await carol.sync()).toHaveLength(1)
+    expect(await bob.sync()).toEqual([])
+  })
+
+  it('leaves messages for groups it does not know yet on the server', async () => {
+    const { join, inbox } = createNetwork()
+    const alice = join('02alice')
+    const bob = join('02bob')
+    const { groupId } = await alice.createGroup({ members: ['02bob'] })
+    await alice.sendToGroup(groupId, 'early')
+
+    // The announcement is delayed, so the message arrives first
+    const [announcement, early] = inbox.get('02bob') ?? []
+    inbox.set('02bob', [early])
+    expect(await bob.sync()).toEqual([])
+    expect(inbox.get('02bob')).toEqual([early])
+
+    inbox.set('02bob', [announcement, early])
+    expect(await bob.sync()).toEqual([expect.objectContaining({ groupId, body: 'early' })])
+    expect(inbox.get('02bob')).toEqual([])
+
+    // A group that is never announced does not keep its messages on the server forever
+    const stray = { ...early, messageId: 'stray', headers: { 'group-id': 'never-announced' } }
+    inbox.set('02bob', [stray])
+    await bob.sync()
+    expect(inbox.get('02bob')).toEqual([stray])
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.parse(stray.created_at) + 24 * 60 * 60 * 1000 + 1)
+    await bob.sync()
+    expect(inbox.get('02bob')).toEqual([])
+    nowSpy.mockRestore()
+  })
+
+  it('drops the traffic of groups it left or was removed from', async () => {
+    const { join, inbox } = createNetwork()
+    const alice = join('02alice')
+    const bob = join('02bob')
+    const carol = join('02carol')
+    const { groupId } = await alice.createGroup({ members: ['02bob', '02carol'] })
+    await bob.sync()
+    await carol.sync()
+
+    // Alice has not seen Bob leave yet, so her update and next message still go to him
+    await alice.removeMembers(groupId, ['02carol'])
+    await bob.leaveGroup(groupId)
+    await alice.sendToGroup(groupId, 'in flight')
+    expect(await bob.sync()).toEqual([])
+    expect(inbox.get('02bob')).toEqual([])
+
+    await carol.sync()
+    const late = { messageId: 'late', sender: '02alice', body: 'late', headers: { 'group-id': groupId }, created_at: '', updated_at: '' }
+    inbox.set('02carol', [late])
+    expect(await carol.sync()).toEqual([])
+    expect(inbox.get('02carol')).toEqual([])
+    expect(await bob.listGroups()).toEqual([])
+    await expect(bob.getGroupMembers(groupId)).rejects.toThrow('Unknown group')
+
+    // Being added back replaces the record
+    await alice.sync()
+    await alice.addMembers(groupId, ['02carol'])
+    await carol.sync()
+    expect(await carol.getGroupMembers(groupId)).toEqual(['02alice', '02carol'])
+  })
+
+  it('lets only the owner change membership and drops the group for removed members', async () => {
+    const { join, inbox } = createNetwork()
+    const alice = join('02alice')
+    const bob = join('02bob')
+    const carol = join('02carol')
+    const { groupId } = await alice.createGroup({ members: ['02bob', '02carol'] })
+    await bob.sync()
+    await carol.sync()
+
+    await expect(bob.addMembers(groupId, ['02mallory'])).rejects.toThrow('Only the group owner')
+
+    await alice.removeMembers(groupId, ['02carol'])
+    await bob.sync()
+    await carol.sync()
+    expect(await bob.getGroupMembers(groupId)).toEqual(['02alice', '02bob'])
+    expect(await carol.listGroups()).toEqual([])
+
+    // Carol can no longer reach the group
+    await expect(carol.sendToGroup(groupId, 'still here?')).rejects.toThrow('Unknown group')
+    inbox.set('02bob', [{
+      messageId: 'x',
+      sender: '02carol',
+      body: 'still here?',
+      headers: { 'group-id': groupId },
+      created_at: '',
+      updated_at: ''
+    }])
+    expect(await bob.sync()).toEqual([])
+  })
+
+  it('applies leaves and ignores stale, forged or badly signed updates', async () => {
+    const { join, inbox, signaturesValid } = createNetwork()
+    const alice = join('02alice')
+    const bob = join('02bob')
+    const carol = join('02carol')
+    const group = await alice.createGroup({ members: ['02bob', '02carol'] })
+    await bob.sync()
+    await carol.sync()
+
+    // Bob claims ownership of Alice's group; Carol keeps Alice's version
+    inbox.set('02carol', [{
+      messageId: 'forged',
+      sender: '02bob',
+      body: { ...group, action: 'add', owner: '02bob', members: [...group.members, '02mallory'], version: 9, timestamp: 1, signature: 'aa' },
+      contentType: 'application/vnd.messagebox.group-update+json',
+      created_at: '',
+      updated_at: ''
+    }])
+    await carol.sync()
+    expect(await carol.getGroupMembers(group.groupId)).toEqual(['02alice', '02bob', '02carol'])
+
+    signaturesValid.value = false
+    await alice.addMembers(group.groupId, ['02dave'])
+    await bob.sync()
+    expect(await bob.getGroupMembers(group.groupId)).toEqual(['02alice', '02bob', '02carol'])
+
+    signaturesValid.value = true
+    await carol.leaveGroup(group.groupId)
+    await alice.sync()
+    await bob.sync()
+    expect(await alice.getGroupMembers(group.groupId)).toEqual(['02alice', '02bob', '02dave'])
+    expect(await bob.getGroupMembers(group.groupId)).toEqual(['02alice', '02bob'])
+    expect(await carol.listGroups()).toEqual([])
+  })
+})
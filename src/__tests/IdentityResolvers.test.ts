@@ -0,0 +1,71 @@
+/* eslint-env jest */
+import { jest } from '@jest/globals'
+import { KNOWN_IDENTITY_TYPES, WalletInterface } from '@bsv/sdk'
+import { CachedIdentityResolver, CertificateIdentityResolver, StaticIdentityResolver } from '../IdentityResolvers.js'
+import { IdentityResolver, SenderIdentity } from '../types.js'
+
+const alice = `02${'a'.repeat(64)}`
+
+const certificate = (type: string, trust: number, decryptedFields: Record<string, string>): object => ({
+  type,
+  subject: alice,
+  decryptedFields,
+  certifierInfo: { name: trust > 5 ? 'IdentiCert' : 'SocialCert', iconUrl: 'https://certifier.example/icon.png', description: 'Certifier', trust }
+})
+
+describe('CertificateIdentityResolver', () => {
+  it('shows the most trusted certificate and the revealed email', async () => {
+    const discoverByIdentityKey = jest.fn(async () => ({
+      totalCertificates: 2,
+      certificates: [
+        certificate(KNOWN_IDENTITY_TYPES.emailCert, 4, { email: 'alice@example.com' }),
+        certificate(KNOWN_IDENTITY_TYPES.identiCert, 8, { firstName: 'Alice', lastName: 'Smith', profilePhoto: 'https://example.com/alice.png' })
+      ]
+    }))
+    const resolver = new CertificateIdentityResolver({ discoverByIdentityKey } as unknown as WalletInterface, 'app.example')
+
+    expect(await resolver.resolve(alice)).toEqual({
+      identityKey: alice,
+      name: 'Alice Smith',
+      avatarURL: 'https://example.com/alice.png',
+      email: 'alice@example.com',
+      certifier: 'IdentiCert',
+      badgeLabel: 'Government ID certified by IdentiCert',
+      badgeIconURL: 'https://certifier.example/icon.png'
+    })
+    expect(discoverByIdentityKey).toHaveBeenCalledWith({ identityKey: alice, limit: 10 }, 'app.example')
+  })
+
+  it('finds nothing for keys without revealed certificates', async () => {
+    const wallet = { discoverByIdentityKey: async () => ({ totalCertificates: 0, certificates: [] }) } as unknown as WalletInterface
+    expect(await new CertificateIdentityResolver(wallet).resolve(alice)).toBeUndefined()
+  })
+})
+
+describe('CachedIdentityResolver', () => {
+  it('shares and caches lookups until they expire, but not failures', async () => {
+    const identity: SenderIdentity = { identityKey: alice, name: 'Alice' }
+    const resolve = jest.fn<IdentityResolver['resolve']>()
+      .mockRejectedValueOnce(new Error('overlay down'))
+      .mockResolvedValue(identity)
+    const cached = new CachedIdentityResolver({ resolve }, 1000)
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0)
+
+    await expect(cached.resolve(alice)).rejects.toThrow('overlay down')
+    expect(await Promise.all([cached.resolve(alice), cached.resolve(alice)])).toEqual([identity, identity])
+    expect(resolve).toHaveBeenCalledTimes(2)
+
+    nowSpy.mockReturnValue(1000)
+    await cached.resolve(alice)
+    expect(resolve).toHaveBeenCalledTimes(3)
+    nowSpy.mockRestore()
+  })
+})
+
+describe('StaticIdentityResolver', () => {
+  it('answers from its list', async () => {
+    const resolver = new StaticIdentityResolver([{ identityKey: alice, name: 'Alice' }])
+    expect(await resolver.resolve(alice)).toEqual({ identityKey: alice, name: 'Alice' })
+    expect(await resolver.resolve('02unknown')).toBeUndefined()
+  })
+})
@@ -1,6 +1,10 @@
 /* eslint-env jest */
 import { MessageBoxClient } from '../MessageBoxClient.js'
-import { WalletClient, AuthFetch, Transaction, LockingScript, PushDrop, TopicBroadcaster, Beef } from '@bsv/sdk'
+import { MemoryReplayCache } from '../ReplayCaches.js'
+import { ContactBook } from '../ContactBook.js'
+import { StaticIdentityResolver } from '../IdentityResolvers.js'
+import { WalletClient, AuthFetch, Transaction, LockingScript, PushDrop, TopicBroadcaster, Beef, PrivateKey, ProtoWallet } from '@bsv/sdk'
+import { AuthSocketClient } from '@bsv/authsocket-client'
 
 // MOCK: WalletClient methods globally
 jest.spyOn(WalletClient.prototype, 'createHmac').mockResolvedValue({
@@ -93,6 +97,31 @@ class MockWebSocket {
 }
 global.WebSocket = MockWebSocket as unknown as typeof WebSocket
 
+// A socket double that keeps every handler, so events reach all registered listeners
+function createRecordingSocket (): any {
+  const handlers: Record<string, Array<(...args: any[]) => void>> = {}
+  return {
+    handlers,
+    on: jest.fn((event: string, callback: (...args: any[]) => void) => {
+      (handlers[event] ??= []).push(callback)
+    }),
+    emit: jest.fn(),
+    disconnect: jest.fn(),
+    connected: true,
+    fire: (event: string, data?: unknown) => {
+      for (const callback of handlers[event] ?? []) callback(data)
+    }
+  }
+}
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000): Promise<void> => {
+  const started = Date.now()
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('waitFor timed out')
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
 describe('MessageBoxClient', () => {
   let mockWalletClient: WalletClient
 
@@ -320,7 +349,829 @@ describe('MessageBoxClient', () => {
 
     const result = await messageBoxClient.listMessages({ messageBox: 'test_inbox' })
 
-    expect(result).toEqual(JSON.parse(VALID_LIST_AND_READ_RESULT.body).messages)
+    // Unsigned plaintext is delivered but not verified
+    expect(result).toEqual(JSON.parse(VALID_LIST_AND_READ_RESULT.body).messages.map((message: object) => ({ ...message, verified: false })))
+  })
+
+  it('Lists messages one page at a time and only decrypts the returned page', async () => {
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech'
+    })
+    await messageBoxClient.init()
+
+    const encrypted = JSON.stringify({ encryptedMessage: 'AQIDBAU=' })
+    const stored = [
+      { messageId: 'c', sender: '02bob', body: encrypted, created_at: '2026-01-03T00:00:00Z', updated_at: '2026-01-03T00:00:00Z' },
+      { messageId: 'a', sender: '02alice', body: encrypted, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' },
+      { messageId: 'd', sender: '02alice', body: encrypted, created_at: '2026-01-04T00:00:00Z', updated_at: '2026-01-04T00:00:00Z' },
+      { messageId: 'b', sender: '02alice', body: encrypted, created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' }
+    ]
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockImplementation(async () => ({
+      json: async () => ({ status: 'success', messages: stored.map(m => ({ ...m })) }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response))
+    fetchSpy.mockClear()
+    const decryptSpy = jest.spyOn(mockWalletClient, 'decrypt')
+    decryptSpy.mockClear()
+
+    const first = await messageBoxClient.listMessagesPage({
+      messageBox: 'test_inbox',
+      host: 'https://message-box-us-1.bsvb.tech',
+      limit: 3
+    })
+    expect(first.messages.map(m => m.messageId)).toEqual(['a', 'b', 'c'])
+    expect(first.nextCursor).toEqual(expect.any(String))
+    expect(decryptSpy).toHaveBeenCalledTimes(3)
+
+    // The rest of the chain is cut from the first download, without acknowledged messages
+    await messageBoxClient.acknowledgeMessage({ messageIds: ['d'], host: 'https://message-box-us-1.bsvb.tech' })
+    const second = await messageBoxClient.listMessagesPage({
+      messageBox: 'test_inbox',
+      host: 'https://message-box-us-1.bsvb.tech',
+      limit: 3,
+      cursor: first.nextCursor
+    })
+    expect(second.messages).toEqual([])
+    expect(fetchSpy.mock.calls.map(([url]) => url)).toEqual([
+      'https://message-box-us-1.bsvb.tech/listMessages',
+      'https://message-box-us-1.bsvb.tech/acknowledgeMessage'
+    ])
+
+    const fromAlice = await messageBoxClient.listMessagesPage({
+      messageBox: 'test_inbox',
+      host: 'https://message-box-us-1.bsvb.tech',
+      sender: '02alice',
+      limit: 2
+    })
+    expect(fromAlice.messages.map(m => m.messageId)).toEqual(['a', 'b'])
+    expect(fromAlice.nextCursor).toEqual(expect.any(String))
+
+    const recent = await messageBoxClient.listMessages({
+      messageBox: 'test_inbox',
+      host: 'https://message-box-us-1.bsvb.tech',
+      since: '2026-01-02T00:00:00Z',
+      until: new Date('2026-01-04T00:00:00Z')
+    })
+    expect(recent.map(m => m.messageId)).toEqual(['b', 'c'])
+
+    await expect(messageBoxClient.listMessagesPage({
+      messageBox: 'test_inbox',
+      host: 'https://message-box-us-1.bsvb.tech',
+      cursor: 'not-a-cursor'
+    })).rejects.toThrow('Invalid message cursor')
+  })
+
+  it('Sends opt-in envelopes and dispatches received bodies by content type', async () => {
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech',
+      outbox: false
+    })
+    await messageBoxClient.init()
+
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({ status: 'success' }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    await messageBoxClient.sendMessage({
+      recipient: '02bob',
+      messageBox: 'orders',
+      body: { sku: 'A1' },
+      contentType: 'application/vnd.shop.order+json',
+      schemaVersion: 2,
+      headers: { 'trace-id': 't1' },
+      skipEncryption: true
+    })
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'orders', body: 'legacy', skipEncryption: true })
+
+    const sentBodies = fetchSpy.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string).message.body)
+    expect(JSON.parse(sentBodies[0])).toEqual({
+      envelope: 'messagebox',
+      version: 1,
+      contentType: 'application/vnd.shop.order+json',
+      schemaVersion: 2,
+      headers: { 'trace-id': 't1' },
+      signature: '0102030405',
+      payload: { sku: 'A1' }
+    })
+    // Without envelope options the body is sent exactly as before, unsigned
+    expect(sentBodies[1]).toBe('legacy')
+
+    const envelope = JSON.stringify({ envelope: 'messagebox', version: 1, contentType: 'text/plain', payload: 'hi' })
+    jest.spyOn(mockWalletClient, 'decrypt').mockResolvedValueOnce({ plaintext: Array.from(new TextEncoder().encode(envelope)) })
+    const stored = [
+      { messageId: 'a', sender: '02alice', body: JSON.stringify({ encryptedMessage: 'AQIDBAU=' }), created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' },
+      { messageId: 'b', sender: '02alice', body: JSON.stringify({ message: sentBodies[0] }), created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' },
+      { messageId: 'c', sender: '02alice', body: '{"legacy":true}', created_at: '2026-01-03T00:00:00Z', updated_at: '2026-01-03T00:00:00Z' }
+    ]
+    fetchSpy.mockResolvedValue({
+      json: async () => ({ status: 'success', messages: stored }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    const [encrypted, paid, legacy] = await messageBoxClient.listMessages({
+      messageBox: 'orders',
+      host: 'https://message-box-us-1.bsvb.tech'
+    })
+    expect(encrypted).toEqual(expect.objectContaining({ body: 'hi', contentType: 'text/plain' }))
+    expect(paid).toEqual(expect.objectContaining({
+      body: { sku: 'A1' },
+      contentType: 'application/vnd.shop.order+json',
+      schemaVersion: 2,
+      headers: { 'trace-id': 't1' }
+    }))
+    expect(legacy.body).toEqual({ legacy: true })
+    expect(legacy.contentType).toBeUndefined()
+  })
+
+  it('Validates payloads of defined boxes and quarantines invalid received messages', async () => {
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech'
+    })
+    await messageBoxClient.init()
+
+    const orders = messageBoxClient.defineBox<{ sku: string }>(
+      'orders',
+      (payload: unknown): payload is { sku: string } => typeof (payload as { sku?: unknown })?.sku === 'string',
+      { onInvalid: 'quarantine' }
+    )
+
+    await expect(messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'orders', body: { sku: 7 } }))
+      .rejects.toThrow('Invalid payload for message box "orders"')
+
+    const stored = [
+      { messageId: 'good', sender: '02alice', body: '{"sku":"A1"}', created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' },
+      { messageId: 'bad', sender: '02alice', body: '{"sku":7}', created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' }
+    ]
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockImplementation(async (url) => ({
+      json: async () => String(url).endsWith('/listMessages')
+        ? { status: 'success', messages: stored.map(m => ({ ...m })) }
+        : { status: 'success' },
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response))
+
+    const received = await orders.list({ host: 'https://message-box-us-1.bsvb.tech' })
+    expect(received.map(m => m.body.sku)).toEqual(['A1'])
+
+    const quarantined = await orders.listQuarantined()
+    expect(quarantined.map(m => m.messageId)).toEqual(['bad'])
+    const ackCall = fetchSpy.mock.calls.find(([url]) => String(url).endsWith('/acknowledgeMessage'))
+    expect(JSON.parse((ackCall?.[1] as RequestInit).body as string).messageIds).toEqual(['bad'])
+  })
+
+  it('Validates a live message once and sends it enveloped when falling back to HTTP', async () => {
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech'
+    })
+    await messageBoxClient.init()
+    jest.spyOn(messageBoxClient, 'initializeConnection').mockImplementation(async () => { })
+    messageBoxClient.defineBox('orders', (payload: unknown): payload is { sku: string } => typeof (payload as { sku?: unknown })?.sku === 'string')
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({ status: 'success' }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    fetchSpy.mockClear()
+    const encryptSpy = jest.spyOn(mockWalletClient, 'encrypt')
+    encryptSpy.mockClear()
+
+    const result = await messageBoxClient.sendLiveMessage({
+      recipient: '02bob',
+      messageBox: 'orders',
+      body: { sku: 'A1' },
+      headers: { 'trace-id': 't1' }
+    })
+
+    expect(result.status).toBe('success')
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    const plaintext = JSON.parse(new TextDecoder().decode(new Uint8Array(encryptSpy.mock.calls[0][0].plaintext as number[])))
+    expect(plaintext).toEqual(expect.objectContaining({ envelope: 'messagebox', headers: { 'trace-id': 't1' }, payload: { sku: 'A1' } }))
+  })
+
+  it('Compresses large bodies and decompresses them transparently on receive', async () => {
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech',
+      compression: { minSize: 100 }
+    })
+    await messageBoxClient.init()
+
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({ status: 'success' }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    const large = { rows: new Array(100).fill({ status: 'delivered' }) }
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'reports', body: large, skipEncryption: true })
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'reports', body: 'short', skipEncryption: true })
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'reports', body: large, skipEncryption: true, compress: false })
+
+    const sentBodies = fetchSpy.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string).message.body as string)
+    const compressed = JSON.parse(sentBodies[0])
+    expect(compressed).toEqual(expect.objectContaining({ envelope: 'messagebox', contentEncoding: 'gzip', contentType: 'application/json' }))
+    expect(sentBodies[0].length).toBeLessThan(JSON.stringify(large).length)
+    expect(sentBodies[1]).toBe('short')
+    expect(JSON.parse(sentBodies[2])).toEqual(large)
+
+    fetchSpy.mockResolvedValue({
+      json: async () => ({
+        status: 'success',
+        messages: [{ messageId: 'z', sender: '02alice', body: sentBodies[0], created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' }]
+      }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    const [received] = await messageBoxClient.listMessages({ messageBox: 'reports', host: 'https://message-box-us-1.bsvb.tech' })
+    expect(received.body).toEqual(large)
+    expect(received.contentType).toBe('application/json')
+
+    // A client that accepts less treats the body as undecodable instead of inflating it
+    const strict = new MessageBoxClient({ walletClient: mockWalletClient, host: 'https://message-box-us-1.bsvb.tech', maxInflatedSize: 100 })
+    await strict.init()
+    jest.spyOn(strict.authFetch, 'fetch').mockImplementation(fetchSpy.getMockImplementation() as typeof fetch)
+    const [rejected] = await strict.listMessages({ messageBox: 'reports', host: 'https://message-box-us-1.bsvb.tech' })
+    expect(rejected).toEqual(expect.objectContaining({ decryptFailed: true, body: '[Error: Failed to decrypt or parse message]' }))
+  })
+
+  it('Pads outgoing bodies to bucket sizes and strips the padding on receive', async () => {
+    const host = 'https://message-box-us-1.bsvb.tech'
+    const messageBoxClient = new MessageBoxClient({ walletClient: mockWalletClient, host, padding: true })
+    await messageBoxClient.init()
+
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({ status: 'success' }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'inbox', body: 'ok', skipEncryption: true })
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'inbox', body: { request: 'pay', amount: 5000 }, headers: { 'thread-id': 't' }, skipEncryption: true })
+    const sentBodies = fetchSpy.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string).message.body as string)
+    expect(sentBodies.map(body => body.length)).toEqual([256, 256])
+
+    fetchSpy.mockResolvedValue({
+      json: async () => ({
+        status: 'success',
+        messages: [
+          { messageId: 'p1', sender: '02alice', body: sentBodies[0], created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' },
+          { messageId: 'p2', sender: '02alice', body: sentBodies[1], created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' }
+        ]
+      }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    const [short, long] = await messageBoxClient.listMessages({ messageBox: 'inbox', host })
+    expect(short.body).toBe('ok')
+    expect(long.body).toEqual({ request: 'pay', amount: 5000 })
+    expect(long.headers).toEqual({ 'thread-id': 't' })
+  })
+
+  it('Signs plaintext messages and verifies them on receive', async () => {
+    const host = 'https://message-box-us-1.bsvb.tech'
+    const aliceKey = PrivateKey.fromRandom()
+    const messageBoxClient = new MessageBoxClient({ walletClient: mockWalletClient, host })
+    await messageBoxClient.init()
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({ status: 'success' }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    fetchSpy.mockClear()
+    // Sign with a real key so the receiving side checks a real signature
+    jest.spyOn(mockWalletClient, 'createSignature').mockImplementationOnce(async args => await new ProtoWallet(aliceKey).createSignature(args))
+
+    const me = await messageBoxClient.getIdentityKey()
+    await messageBoxClient.sendMessage({ recipient: me, messageBox: 'notices', body: { notice: 'maintenance' }, skipEncryption: true, signPlaintext: true })
+    expect(WalletClient.prototype.createSignature).toHaveBeenCalledWith(
+      expect.objectContaining({ protocolID: [1, 'messagebox signature'], counterparty: 'anyone' }),
+      undefined
+    )
+    const { message: sent } = JSON.parse((fetchSpy.mock.calls[0][1] as RequestInit).body as string)
+    const tampered = JSON.stringify({ ...JSON.parse(sent.body), payload: { notice: 'send funds' } })
+
+    const sender = aliceKey.toPublicKey().toString()
+    fetchSpy.mockResolvedValue({
+      json: async () => ({
+        status: 'success',
+        messages: [
+          { messageId: sent.messageId, sender, body: sent.body, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' },
+          { messageId: 'forged', sender, body: sent.body, created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' },
+          { messageId: 'tampered', sender, body: tampered, created_at: '2026-01-03T00:00:00Z', updated_at: '2026-01-03T00:00:00Z' },
+          { messageId: 'secret', sender, body: JSON.stringify({ encryptedMessage: 'AQIDBAU=' }), created_at: '2026-01-04T00:00:00Z', updated_at: '2026-01-04T00:00:00Z' }
+        ]
+      }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    const [signed, replayed, altered, encrypted] = await messageBoxClient.listMessages({ messageBox: 'notices', host })
+    expect(signed).toEqual(expect.objectContaining({ body: { notice: 'maintenance' }, verified: true }))
+    // The signature is bound to the message ID, so it cannot vouch for a copy under another ID
+    expect(replayed.verified).toBe(false)
+    expect(altered).toEqual(expect.objectContaining({ body: { notice: 'send funds' }, verified: false }))
+    expect(encrypted.verified).toBe(true)
+
+    // The signature names the recipient and the box, so it does not verify once re-targeted
+    fetchSpy.mockResolvedValue({
+      json: async () => ({
+        status: 'success',
+        messages: [{ messageId: sent.messageId, sender, body: sent.body, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' }]
+      }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    const [otherBox] = await messageBoxClient.listMessages({ messageBox: 'alerts', host })
+    expect(otherBox.verified).toBe(false)
+    const identitySpy = jest.spyOn(messageBoxClient, 'getIdentityKey').mockResolvedValue(PrivateKey.fromRandom().toPublicKey().toString())
+    const [otherRecipient] = await messageBoxClient.listMessages({ messageBox: 'notices', host })
+    expect(otherRecipient.verified).toBe(false)
+    identitySpy.mockRestore()
+  })
+
+  it('Sends expiring messages and drops expired ones on receive', async () => {
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech'
+    })
+    await messageBoxClient.init()
+
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({ status: 'success' }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000)
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'offers', body: 'half price', skipEncryption: true, ttl: 60_000 })
+    const sent = JSON.parse(JSON.parse((fetchSpy.mock.calls[0][1] as RequestInit).body as string).message.body)
+    expect(sent).toEqual(expect.objectContaining({ envelope: 'messagebox', expiresAt: 1_060_000, payload: 'half price' }))
+
+    await expect(messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'offers', body: 'x', ttl: 0 }))
+      .rejects.toThrow('Message ttl must be a positive number of milliseconds')
+    await expect(messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'offers', body: 'x', expiresAt: 999_999 }))
+      .rejects.toThrow('Message has already expired')
+
+    const expiring = (messageId: string, expiresAt: number): any => ({
+      messageId,
+      sender: '02alice',
+      body: JSON.stringify({ ...sent, expiresAt }),
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z'
+    })
+    fetchSpy.mockClear()
+    fetchSpy.mockResolvedValue({
+      json: async () => ({ status: 'success', messages: [expiring('old', 999_000), expiring('fresh', 1_060_000)] }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    const received = await messageBoxClient.listMessages({ messageBox: 'offers', host: 'https://message-box-us-1.bsvb.tech' })
+    expect(received.map(message => message.messageId)).toEqual(['fresh'])
+    expect(received[0].expiresAt).toBe(1_060_000)
+
+    const ackCall = fetchSpy.mock.calls.find(([url]) => String(url).endsWith('/acknowledgeMessage'))
+    expect(JSON.parse((ackCall?.[1] as RequestInit).body as string)).toEqual({ messageIds: ['old'] })
+    nowSpy.mockRestore()
+  })
+
+  it('Stamps outgoing messages and never delivers an acknowledged message twice', async () => {
+    const host = 'https://message-box-us-1.bsvb.tech'
+    const cache = new MemoryReplayCache()
+    const messageBoxClient = new MessageBoxClient({ walletClient: mockWalletClient, host, replayProtection: { cache, maxAge: 60_000 } })
+    await messageBoxClient.init()
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({ status: 'success' }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    fetchSpy.mockClear()
+
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000)
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'payments', body: { amount: 5 }, skipEncryption: true })
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'payments', body: { amount: 5 }, skipEncryption: true })
+    const sent = fetchSpy.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string).message)
+    const first = JSON.parse(sent[0].body)
+    expect(first).toEqual(expect.objectContaining({ sentAt: 1_000_000, payload: { amount: 5 } }))
+    // The nonce makes repeated content a new message with its own ID
+    expect(first.nonce).toMatch(/^[0-9a-f]{32}$/)
+    expect(JSON.parse(sent[1].body).nonce).not.toBe(first.nonce)
+    // A body that is itself a stamped envelope is still only a payload
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'payments', body: first, skipEncryption: true })
+    const forwarded = JSON.parse(JSON.parse((fetchSpy.mock.calls[2][1] as RequestInit).body as string).message.body)
+    expect(forwarded.payload).toEqual(first)
+    expect(forwarded.nonce).not.toBe(first.nonce)
+
+    const stored = (messageId: string, body: object): any => ({
+      messageId,
+      sender: '02alice',
+      body: JSON.stringify(body),
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z'
+    })
+    const listing = (...messages: any[]): Response => ({
+      json: async () => ({ status: 'success', messages }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    const acknowledged = (): string[] => fetchSpy.mock.calls
+      .filter(([url]) => String(url).endsWith('/acknowledgeMessage'))
+      .flatMap(([, init]) => JSON.parse((init as RequestInit).body as string).messageIds)
+
+    fetchSpy.mockClear()
+    fetchSpy.mockResolvedValueOnce(listing(stored('pay-1', first), stored('stale', { ...first, nonce: 'aa', sentAt: 900_000 })))
+    const received = await messageBoxClient.listMessages({ messageBox: 'payments', host })
+    expect(received.map(message => message.messageId)).toEqual(['pay-1', 'stale'])
+    expect(received[0]).toEqual(expect.objectContaining({ nonce: first.nonce, sentAt: 1_000_000 }))
+    expect(received[0].stale).toBeUndefined()
+    // A message left unread past the freshness window is flagged, not dropped from the server
+    expect(received[1].stale).toBe(true)
+    expect(acknowledged()).toEqual([])
+
+    await messageBoxClient.acknowledgeMessage({ messageIds: ['pay-1'], host })
+    expect(await cache.has('pay-1')).toBe(true)
+    expect(await cache.has(`nonce:02alice:${String(first.nonce)}`)).toBe(true)
+
+    // Redelivered under its own ID or a new one, the processed payment is dropped again
+    fetchSpy.mockClear()
+    fetchSpy.mockResolvedValueOnce(listing(stored('pay-1', first), stored('pay-1-copy', first)))
+    expect(await messageBoxClient.listMessages({ messageBox: 'payments', host })).toEqual([])
+    expect(acknowledged()).toEqual(['pay-1', 'pay-1-copy'])
+
+    // A replayed message is dropped before the payment it carries is internalized
+    const internalizeSpy = jest.spyOn(mockWalletClient, 'internalizeAction').mockResolvedValue({ accepted: true })
+    const paid = (messageId: string, body: object): any => ({
+      ...stored(messageId, {}),
+      body: JSON.stringify({
+        message: JSON.stringify(body),
+        payment: { tx: [1, 2, 3], outputs: [{ outputIndex: 0, protocol: 'wallet payment' }], description: 'fee' }
+      })
+    })
+    fetchSpy.mockResolvedValueOnce(listing(paid('pay-1', first), paid('pay-2', { ...first, nonce: 'bb' }), paid('pay-3', { ...first, nonce: 'cc', sentAt: 900_000 })))
+    const paidOut = await messageBoxClient.listMessages({ messageBox: 'payments', host })
+    // A stale but unseen payment is still accepted
+    expect(paidOut.map(message => message.messageId)).toEqual(['pay-2', 'pay-3'])
+    expect(internalizeSpy).toHaveBeenCalledTimes(2)
+    expect(internalizeSpy).toHaveBeenCalledWith(expect.objectContaining({ tx: [1, 2, 3], description: 'fee' }), undefined)
+    internalizeSpy.mockRestore()
+    nowSpy.mockRestore()
+  })
+
+  it('Sends signed receipts for requested messages and tracks them on the sender', async () => {
+    const host = 'https://message-box-us-1.bsvb.tech'
+    const respond = (data: object): Response => ({
+      json: async () => data,
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    const stored = (messageId: string, sender: string, envelope: object): any => ({
+      messageId,
+      sender,
+      body: JSON.stringify({ envelope: 'messagebox', version: 1, ...envelope }),
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z'
+    })
+    const sentTo = (spy: any, messageBox: string): any[] => spy.mock.calls
+      .filter(([url]: [string]) => url.endsWith('/sendMessage'))
+      .map(([, init]: [string, RequestInit]) => JSON.parse(init.body as string).message)
+      .filter((message: any) => message.messageBox === messageBox)
+
+    // Alice asks for receipts
+    const alice = new MessageBoxClient({ walletClient: mockWalletClient, host })
+    await alice.init()
+    const fetchSpy = jest.spyOn(alice.authFetch, 'fetch').mockResolvedValue(respond({ status: 'success' }))
+    const { messageId } = await alice.sendMessage({ recipient: '02bob', messageBox: 'inbox', body: 'hi', requestReceipt: true, skipEncryption: true })
+    expect(JSON.parse(sentTo(fetchSpy, 'inbox')[0].body).headers).toEqual({ 'receipt-requested': 'true' })
+    expect(await alice.getDeliveryStatus(messageId)).toBe('sent')
+
+    // Bob has receipts enabled: acknowledging sends `delivered`, markRead sends `read`
+    const bob = new MessageBoxClient({ walletClient: mockWalletClient, host, receipts: true })
+    await bob.init()
+    fetchSpy.mockImplementation(async (url: string) => respond(
+      url.endsWith('/listMessages')
+        ? {
+            status: 'success',
+            messages: [
+              stored(messageId, '02alice', { contentType: 'text/plain', headers: { 'receipt-requested': 'true' }, payload: 'hi' }),
+              stored('other', '02carol', { contentType: 'text/plain', payload: 'no receipt wanted' })
+            ]
+          }
+        : { status: 'success' }
+    ))
+    const [requested, plain] = await bob.listMessages({ messageBox: 'inbox', host })
+    await bob.acknowledgeMessage({ messageIds: [requested.messageId, plain.messageId], host })
+    expect(sentTo(fetchSpy, 'receipts')).toEqual([expect.objectContaining({ recipient: '02alice' })])
+    expect(await bob.markRead(requested)).toBe(true)
+    expect(await bob.markRead(plain)).toBe(false)
+    expect(sentTo(fetchSpy, 'receipts')).toHaveLength(2)
+    expect(WalletClient.prototype.createSignature).toHaveBeenCalledWith(
+      expect.objectContaining({ protocolID: [1, 'messagebox receipt'], keyID: '1', counterparty: '02alice' }),
+      undefined
+    )
+
+    // Alice only accepts the receipt from the message's recipient
+    const verifySpy = jest.spyOn(WalletClient.prototype, 'verifySignature').mockResolvedValue({ valid: true })
+    const receipt = { messageId, status: 'read', timestamp: 1, signature: '0102030405' }
+    fetchSpy.mockClear()
+    fetchSpy.mockImplementation(async (url: string) => respond(
+      url.endsWith('/listMessages')
+        ? {
+            status: 'success',
+            messages: [
+              stored('r1', '02bob', { contentType: 'application/vnd.messagebox.receipt+json', payload: receipt }),
+              stored('r2', '02mallory', { contentType: 'application/vnd.messagebox.receipt+json', payload: { ...receipt, status: 'delivered' } })
+            ]
+          }
+        : { status: 'success' }
+    ))
+    const seen: string[] = []
+    alice.onReceipt(r => seen.push(`${r.from}:${r.status}`))
+
+    const received = await alice.syncReceipts(host)
+    expect(received).toEqual([{ ...receipt, from: '02bob' }])
+    expect(seen).toEqual(['02bob:read'])
+    expect(await alice.getDeliveryStatus(messageId)).toBe('read')
+    expect(verifySpy).toHaveBeenCalledWith(expect.objectContaining({ counterparty: '02bob', protocolID: [1, 'messagebox receipt'] }), undefined)
+
+    const ackCall = fetchSpy.mock.calls.find(([url]) => String(url).endsWith('/acknowledgeMessage'))
+    expect(JSON.parse((ackCall?.[1] as RequestInit).body as string)).toEqual({ messageIds: ['r1', 'r2'] })
+    verifySpy.mockRestore()
+  })
+
+  it('Encrypts under rotating key IDs and decrypts under the key ID a body names', async () => {
+    const host = 'https://message-box-us-1.bsvb.tech'
+    const messageBoxClient = new MessageBoxClient({ walletClient: mockWalletClient, host, keyRotation: true })
+    await messageBoxClient.init()
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({ status: 'success' }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    const encryptSpy = jest.spyOn(mockWalletClient, 'encrypt')
+    encryptSpy.mockClear()
+
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'inbox', body: 'one' })
+    await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'inbox', body: 'two' })
+    const keyIDs = encryptSpy.mock.calls.map(([args]) => args.keyID)
+    expect(keyIDs).toEqual([expect.stringMatching(/^message-[0-9a-f]{32}$/), expect.stringMatching(/^message-[0-9a-f]{32}$/)])
+    expect(keyIDs[0]).not.toBe(keyIDs[1])
+    const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    expect(JSON.parse(JSON.parse(init.body as string).message.body)).toEqual({ encryptedMessage: 'CQkJCQ==', keyID: keyIDs[0] })
+
+    fetchSpy.mockResolvedValue({
+      json: async () => ({
+        status: 'success',
+        messages: [
+          { messageId: 'new', sender: '02bob', body: JSON.stringify({ encryptedMessage: 'AQIDBAU=', keyID: 'epoch-5' }), created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' },
+          { messageId: 'legacy', sender: '02bob', body: JSON.stringify({ encryptedMessage: 'AQIDBAU=' }), created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' }
+        ]
+      }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    const decryptSpy = jest.spyOn(mockWalletClient, 'decrypt')
+    decryptSpy.mockClear()
+    await messageBoxClient.listMessages({ messageBox: 'inbox', host })
+    expect(decryptSpy.mock.calls.map(([args]) => args.keyID).sort()).toEqual(['1', 'epoch-5'])
+
+    expect(() => new MessageBoxClient({ walletClient: mockWalletClient, keyRotation: { mode: 'epoch', epochLength: 0 } }))
+      .toThrow('epochLength must be a positive number')
+  })
+
+  it('Hides the sender of sealed messages from the server and recovers it on receive', async () => {
+    const host = 'https://message-box-us-1.bsvb.tech'
+    const bobKey = PrivateKey.fromRandom().toPublicKey().toString()
+    const alice = new MessageBoxClient({ walletClient: mockWalletClient, host, sealedSender: true })
+    await alice.init()
+    const fetchSpy = jest.spyOn(alice.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({ status: 'success' }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    fetchSpy.mockClear()
+    const encryptSpy = jest.spyOn(mockWalletClient, 'encrypt')
+    encryptSpy.mockClear()
+
+    await alice.sendMessage({ recipient: bobKey, messageBox: 'inbox', body: 'whistle' })
+    expect(fetchSpy.mock.contexts[0]).toBeInstanceOf(AuthFetch)
+    expect(fetchSpy.mock.contexts[0]).not.toBe(alice.authFetch)
+    const sent = JSON.parse(JSON.parse((fetchSpy.mock.calls[0][1] as RequestInit).body as string).message.body)
+    expect(Object.keys(sent)).toEqual(['encryptedMessage'])
+    expect(encryptSpy).not.toHaveBeenCalled()
+    expect(WalletClient.prototype.createSignature).toHaveBeenCalledWith(
+      expect.objectContaining({ protocolID: [1, 'messagebox sealed sender'], counterparty: bobKey }),
+      undefined
+    )
+    await expect(alice.sendMessage({ recipient: bobKey, messageBox: 'inbox', body: 'x', skipEncryption: true }))
+      .rejects.toThrow('Sealed sender messages must be encrypted')
+
+    // Bob sees the one-time key as the server's sender and the verified sender inside
+    const verifySpy = jest.spyOn(WalletClient.prototype, 'verifySignature')
+      .mockResolvedValueOnce({ valid: true })
+      .mockRejectedValueOnce(new Error('Signature is not valid'))
+    const sealed = (body: string): number[] =>
+      Array.from(new TextEncoder().encode(JSON.stringify({ sealed: 'messagebox', sender: '02alice', signature: '0102', body })))
+    jest.spyOn(mockWalletClient, 'decrypt')
+      .mockResolvedValueOnce({ plaintext: sealed('whistle') })
+      .mockResolvedValueOnce({ plaintext: sealed('forged') })
+    const encrypted = JSON.stringify({ encryptedMessage: 'AQIDBAU=' })
+    fetchSpy.mockResolvedValue({
+      json: async () => ({
+        status: 'success',
+        messages: [
+          { messageId: 's1', sender: '03onetime', body: encrypted, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' },
+          { messageId: 's2', sender: '03other', body: encrypted, created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' }
+        ]
+      }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    const bob = new MessageBoxClient({ walletClient: mockWalletClient, host })
+    await bob.init()
+    const [genuine, forged] = await bob.listMessages({ messageBox: 'inbox', host })
+    expect(genuine).toEqual(expect.objectContaining({ sender: '02alice', sealedSender: true, body: 'whistle' }))
+    expect(forged).toEqual(expect.objectContaining({ sender: '03other', body: '[Error: Failed to decrypt or parse message]', decryptFailed: true }))
+    expect(verifySpy).toHaveBeenCalledWith(expect.objectContaining({ protocolID: [1, 'messagebox sealed sender'], counterparty: '02alice' }), undefined)
+
+    // The sender filter matches the unsealed sender, not the one-time key
+    verifySpy.mockResolvedValueOnce({ valid: true })
+    jest.spyOn(mockWalletClient, 'decrypt')
+      .mockResolvedValueOnce({ plaintext: sealed('again') })
+      .mockResolvedValueOnce({ plaintext: Array.from(new TextEncoder().encode('plain')) })
+    const fromAlice = await bob.listMessages({ messageBox: 'inbox', host, sender: '02alice' })
+    expect(fromAlice.map(message => message.messageId)).toEqual(['s1'])
+    verifySpy.mockRestore()
+  })
+
+  it('Keeps the one-time key of a sealed message out of the outbox store', async () => {
+    const host = 'https://message-box-us-1.bsvb.tech'
+    const bobKey = PrivateKey.fromRandom().toPublicKey().toString()
+    const alice = new MessageBoxClient({ walletClient: mockWalletClient, host, sealedSender: true, outbox: true })
+    await alice.init()
+    const store = alice.outbox?.store
+
+    const { messageId } = await alice.sendMessage({ recipient: bobKey, messageBox: 'inbox', body: 'later', deliverAt: Date.now() + 200 })
+    alice.outbox?.stop()
+    const entry = await store?.get(messageId)
+    expect(entry).toEqual(expect.objectContaining({ sealed: true, status: 'queued' }))
+    expect(entry).not.toHaveProperty('sealedBy')
+
+    // After a restart the key is gone, so the entry fails instead of going out under another identity
+    const restarted = new MessageBoxClient({ walletClient: mockWalletClient, host, outbox: { store } })
+    const fetchSpy = jest.spyOn(restarted.authFetch, 'fetch')
+    const statuses: string[] = []
+    restarted.outbox?.onStatusChange(entry => statuses.push(entry.status))
+    await restarted.init()
+    await waitFor(() => statuses.includes('failed'))
+    expect(await store?.get(messageId)).toEqual(expect.objectContaining({
+      status: 'failed',
+      lastError: 'Failed to send message: The one-time key of this sealed message did not survive a restart; send it again'
+    }))
+    expect(fetchSpy).not.toHaveBeenCalled()
+    restarted.outbox?.stop()
+  })
+
+  it('Sends signed edits and retractions and applies them only from the original sender', async () => {
+    const host = 'https://message-box-us-1.bsvb.tech'
+    const controlType = 'application/vnd.messagebox.control+json'
+    const respond = (data: object): Response => ({
+      json: async () => data,
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    const stored = (messageId: string, sender: string, contentType: string, payload: unknown): any => ({
+      messageId,
+      sender,
+      body: JSON.stringify({ envelope: 'messagebox', version: 1, contentType, payload }),
+      created_at: '2026-01-01T00:00:00Z',
+      updated_at: '2026-01-01T00:00:00Z'
+    })
+    const control = (action: string, target: string, body?: string): object =>
+      ({ action, target, ...(body != null && { body }), timestamp: 5, signature: '0102030405' })
+
+    // Alice edits a message she sent; the control goes to the original recipient and box
+    const alice = new MessageBoxClient({ walletClient: mockWalletClient, host })
+    await alice.init()
+    const fetchSpy = jest.spyOn(alice.authFetch, 'fetch').mockResolvedValue(respond({ status: 'success' }))
+    const { messageId } = await alice.sendMessage({ recipient: '02bob', messageBox: 'inbox', body: 'See you at 5', skipEncryption: true })
+    fetchSpy.mockClear()
+    await alice.editMessage(messageId, 'See you at 6')
+    const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    const sent = JSON.parse(init.body as string).message
+    expect(sent).toEqual(expect.objectContaining({ recipient: '02bob', messageBox: 'inbox' }))
+    expect(WalletClient.prototype.createSignature).toHaveBeenCalledWith(
+      expect.objectContaining({ protocolID: [1, 'messagebox control'], keyID: '1', counterparty: '02bob' }),
+      undefined
+    )
+    await expect(alice.retractMessage('unknown')).rejects.toThrow('pass its recipient and messageBox')
+
+    // Bob applies controls from the original sender and rejects the rest
+    const verifySpy = jest.spyOn(WalletClient.prototype, 'verifySignature').mockResolvedValue({ valid: true })
+    const bob = new MessageBoxClient({ walletClient: mockWalletClient, host })
+    await bob.init()
+    fetchSpy.mockClear()
+    fetchSpy.mockImplementation(async (url: string) => respond(
+      url.endsWith('/listMessages')
+        ? {
+            status: 'success',
+            messages: [
+              stored('m1', '02alice', 'text/plain', 'See you at 5'),
+              stored('m2', '02carol', 'text/plain', 'keep me'),
+              stored('m3', '02carol', 'text/plain', 'oops'),
+              stored('c1', '02alice', controlType, control('edit', 'm1', 'See you at 6')),
+              stored('c2', '02mallory', controlType, control('retract', 'm2')),
+              stored('c3', '02carol', controlType, control('retract', 'm3')),
+              stored('c4', '02alice', controlType, control('retract', 'earlier'))
+            ]
+          }
+        : { status: 'success' }
+    ))
+
+    const received = await bob.listMessages({ messageBox: 'inbox', host })
+    const byId = new Map(received.map(message => [message.messageId, message]))
+    expect(Array.from(byId.keys()).sort()).toEqual(['c4', 'm1', 'm2'])
+    expect(byId.get('m1')).toEqual(expect.objectContaining({ body: 'See you at 6', editedAt: 5 }))
+    expect(byId.get('c4')?.control).toEqual(expect.objectContaining({ action: 'retract', target: 'earlier' }))
+    expect(verifySpy).toHaveBeenCalledWith(expect.objectContaining({ counterparty: '02mallory', protocolID: [1, 'messagebox control'] }), undefined)
+
+    const acked = fetchSpy.mock.calls
+      .filter(([url]) => String(url).endsWith('/acknowledgeMessage'))
+      .flatMap(([, init]) => JSON.parse((init as RequestInit).body as string).messageIds)
+    expect(acked.sort()).toEqual(['c1', 'c2', 'c3', 'm3'])
+    verifySpy.mockRestore()
+  })
+
+  it('Merges messages from several hosts in a deterministic order', async () => {
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech'
+    })
+    await messageBoxClient.init()
+    jest.spyOn(messageBoxClient as any, 'queryAdvertisements')
+      .mockResolvedValue([{ host: 'https://other-host.example' }])
+
+    const at = (day: number): string => `2026-01-0${day}T00:00:00Z`
+    const byHost: Record<string, any[]> = {
+      'https://message-box-us-1.bsvb.tech': [
+        { messageId: 'm3', sender: '02abc', body: 'three', created_at: at(3), updated_at: at(3) },
+        { messageId: 'm1', sender: '02abc', body: 'one', created_at: at(1), updated_at: at(1) }
+      ],
+      'https://other-host.example': [
+        { messageId: 'm2b', sender: '02abc', body: 'two-b', created_at: at(2), updated_at: at(2) },
+        { messageId: 'm2a', sender: '02abc', body: 'two-a', created_at: at(2), updated_at: at(2) },
+        { messageId: 'm1', sender: '02abc', body: 'one', created_at: at(1), updated_at: at(1) }
+      ]
+    }
+    jest.spyOn(messageBoxClient.authFetch, 'fetch').mockImplementation(async (url: string) => {
+      const host = url.replace('/listMessages', '')
+      // The primary host answers last
+      await new Promise(resolve => setTimeout(resolve, host === 'https://other-host.example' ? 0 : 10))
+      return {
+        json: async () => ({ status: 'success', messages: byHost[host].map(m => ({ ...m })) }),
+        headers: new Headers(),
+        ok: true,
+        status: 200
+      } as unknown as Response
+    })
+
+    const oldestFirst = await messageBoxClient.listMessages({ messageBox: 'test_inbox' })
+    expect(oldestFirst.map(m => m.messageId)).toEqual(['m1', 'm2a', 'm2b', 'm3'])
+
+    const newestFirst = await messageBoxClient.listMessages({ messageBox: 'test_inbox', order: { direction: 'desc' } })
+    expect(newestFirst.map(m => m.messageId)).toEqual(['m3', 'm2b', 'm2a', 'm1'])
   })
 
   it('Acknowledges a message', async () => {
@@ -513,6 +1364,200 @@ describe('MessageBoxClient', () => {
     expect(mockSocket.on).toHaveBeenCalledWith('disconnect', expect.any(Function))
   }, 10000)
 
+  it('Reconnects after an unexpected disconnect and restores rooms and listeners', async () => {
+    const identityKey = '02b463b8ef7f03c47fba2679c7334d13e4939b8ca30dbb6bbd22e34ea3e9b1b0e4'
+    const firstSocket = createRecordingSocket()
+    const secondSocket = createRecordingSocket()
+    ;(AuthSocketClient as jest.Mock)
+      .mockImplementationOnce(() => firstSocket)
+      .mockImplementationOnce(() => secondSocket)
+
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech',
+      reconnect: { initialDelayMs: 10, jitter: 0 }
+    })
+    await messageBoxClient.init()
+
+    const states: string[] = []
+    messageBoxClient.onConnectionStateChange(state => states.push(state))
+
+    const connection = messageBoxClient.initializeConnection()
+    firstSocket.fire('authenticationSuccess', { status: 'ok' })
+    await connection
+
+    const onMessage = jest.fn()
+    await messageBoxClient.listenForLiveMessages({ messageBox: 'test_inbox', onMessage })
+
+    firstSocket.fire('disconnect', 'transport close')
+    expect(messageBoxClient.getConnectionState()).toBe('reconnecting')
+    expect(firstSocket.disconnect).toHaveBeenCalled()
+
+    await waitFor(() => (AuthSocketClient as jest.Mock).mock.calls.length === 2)
+    secondSocket.fire('authenticationSuccess', { status: 'ok' })
+    await waitFor(() => messageBoxClient.getConnectionState() === 'authenticated')
+
+    expect(secondSocket.emit).toHaveBeenCalledWith('joinRoom', `${identityKey}-test_inbox`)
+    expect(states).toEqual(['connecting', 'authenticated', 'reconnecting', 'authenticated'])
+
+    secondSocket.fire(`sendMessage-${identityKey}-test_inbox`, {
+      messageId: 'live-1',
+      sender: identityKey,
+      body: 'after reconnect'
+    })
+    expect(onMessage).toHaveBeenCalledTimes(1)
+    expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'live-1', body: 'after reconnect' }))
+  })
+
+  it('Does not reconnect after disconnectWebSocket()', async () => {
+    const socket = createRecordingSocket()
+    ;(AuthSocketClient as jest.Mock).mockImplementationOnce(() => socket)
+
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech',
+      reconnect: { initialDelayMs: 10, jitter: 0 }
+    })
+    await messageBoxClient.init()
+
+    const connection = messageBoxClient.initializeConnection()
+    socket.fire('authenticationSuccess', { status: 'ok' })
+    await connection
+
+    await messageBoxClient.disconnectWebSocket()
+    socket.fire('disconnect', 'io client disconnect')
+    await new Promise(resolve => setTimeout(resolve, 50))
+
+    expect(messageBoxClient.getConnectionState()).toBe('closed')
+    expect(AuthSocketClient).toHaveBeenCalledTimes(1)
+  })
+
+  it('Catches up on missed messages and merges them with the live stream', async () => {
+    const identityKey = '02b463b8ef7f03c47fba2679c7334d13e4939b8ca30dbb6bbd22e34ea3e9b1b0e4'
+    const socket = createRecordingSocket()
+    ;(AuthSocketClient as jest.Mock).mockImplementationOnce(() => socket)
+
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech'
+    })
+    await messageBoxClient.init()
+
+    const connection = messageBoxClient.initializeConnection()
+    socket.fire('authenticationSuccess', { status: 'ok' })
+    await connection
+
+    let releaseBacklog: () => void = () => {}
+    const backlogReady = new Promise<void>(resolve => { releaseBacklog = resolve })
+    jest.spyOn(messageBoxClient.authFetch, 'fetch').mockImplementation(async () => {
+      await backlogReady
+      return {
+        ok: true,
+        status: 200,
+        json: async () => ({
+          status: 'success',
+          messages: [
+            { messageId: 'm2', sender: identityKey, body: 'second', created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' },
+            { messageId: 'm1', sender: identityKey, body: 'first', created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' }
+          ]
+        })
+      } as unknown as Response
+    })
+
+    const received: string[] = []
+    const listening = messageBoxClient.listenForLiveMessages({
+      messageBox: 'test_inbox',
+      catchUp: true,
+      onMessage: message => received.push(message.messageId)
+    })
+
+    await waitFor(() => (messageBoxClient.authFetch.fetch as jest.Mock).mock.calls.length > 0)
+
+    // Arrives while the backlog is still being fetched: one duplicate, one new
+    socket.fire(`sendMessage-${identityKey}-test_inbox`, { messageId: 'm2', sender: identityKey, body: 'second' })
+    socket.fire(`sendMessage-${identityKey}-test_inbox`, { messageId: 'm3', sender: identityKey, body: 'third' })
+    expect(received).toEqual([])
+
+    releaseBacklog()
+    await listening
+
+    expect(received).toEqual(['m1', 'm2', 'm3'])
+  })
+
+  it('Subscribes to a message box as an async iterable and leaves the room when done', async () => {
+    const identityKey = '02b463b8ef7f03c47fba2679c7334d13e4939b8ca30dbb6bbd22e34ea3e9b1b0e4'
+    const socket = createRecordingSocket()
+    ;(AuthSocketClient as jest.Mock).mockImplementationOnce(() => socket)
+
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech'
+    })
+    await messageBoxClient.init()
+
+    const connection = messageBoxClient.initializeConnection()
+    socket.fire('authenticationSuccess', { status: 'ok' })
+    await connection
+
+    const subscription = messageBoxClient.subscribe('test_inbox')
+    await waitFor(() => socket.handlers[`sendMessage-${identityKey}-test_inbox`] != null)
+
+    socket.fire(`sendMessage-${identityKey}-test_inbox`, { messageId: 'm1', sender: identityKey, body: 'one' })
+    socket.fire(`sendMessage-${identityKey}-test_inbox`, { messageId: 'm2', sender: identityKey, body: 'two' })
+
+    const received: string[] = []
+    for await (const message of subscription) {
+      received.push(message.messageId)
+      if (received.length === 2) break
+    }
+
+    expect(received).toEqual(['m1', 'm2'])
+    expect(socket.emit).toHaveBeenCalledWith('leaveRoom', `${identityKey}-test_inbox`)
+    expect(messageBoxClient.getJoinedRooms().size).toBe(0)
+
+    // Messages after unsubscribing are ignored
+    socket.fire(`sendMessage-${identityKey}-test_inbox`, { messageId: 'm3', sender: identityKey, body: 'three' })
+    await expect(subscription.next()).resolves.toEqual({ value: undefined, done: true })
+  })
+
+  it('Relays ephemeral signals over the socket without storing them', async () => {
+    const identityKey = '02b463b8ef7f03c47fba2679c7334d13e4939b8ca30dbb6bbd22e34ea3e9b1b0e4'
+    const socket = createRecordingSocket()
+    ;(AuthSocketClient as jest.Mock).mockImplementationOnce(() => socket)
+
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech'
+    })
+    await messageBoxClient.init()
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch')
+
+    const connection = messageBoxClient.initializeConnection()
+    socket.fire('authenticationSuccess', { status: 'ok' })
+    await connection
+
+    const signals: any[] = []
+    const stop = await messageBoxClient.listenForEphemeral({ channel: 'typing', onSignal: signal => signals.push(signal) })
+    // Ephemeral rooms cannot collide with the room of a message box named `typing`
+    const roomId = `ephemeral:${identityKey}:typing`
+    expect(socket.emit).toHaveBeenCalledWith('joinRoom', roomId)
+
+    socket.fire(`sendEphemeral-${roomId}`, { sender: '02bob', body: { typing: true }, sentAt: 5 })
+    socket.fire(`sendEphemeral-${roomId}`, { sender: identityKey, body: { typing: true } })
+    socket.fire(`sendEphemeral-${roomId}`, { body: { typing: true } })
+    expect(signals).toEqual([{ sender: '02bob', channel: 'typing', body: { typing: true }, sentAt: 5 }])
+
+    expect(await messageBoxClient.sendEphemeral({ recipient: '02bob', channel: 'typing', body: { typing: false } })).toBe(true)
+    expect(socket.emit).toHaveBeenCalledWith('sendEphemeral', {
+      roomId: 'ephemeral:02bob:typing',
+      message: { body: { typing: false }, sentAt: expect.any(Number) }
+    })
+    expect(fetchSpy).not.toHaveBeenCalled()
+
+    await stop()
+    expect(socket.emit).toHaveBeenCalledWith('leaveRoom', roomId)
+  })
+
   it('throws an error when recipient is empty in sendLiveMessage', async () => {
     const messageBoxClient = new MessageBoxClient({
       walletClient: mockWalletClient,
@@ -542,6 +1587,113 @@ describe('MessageBoxClient', () => {
     })).rejects.toThrow('[MB CLIENT ERROR] Recipient identity key is required')
   })
 
+  it('Queues a message in the outbox when the host is unreachable and retries it', async () => {
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech',
+      outbox: { retry: { initialDelayMs: 5, jitter: 0 } }
+    })
+    await messageBoxClient.init()
+
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch')
+      .mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'))
+      .mockResolvedValue(defaultMockResponse as Response)
+
+    const statuses: string[] = []
+    messageBoxClient.outbox?.onStatusChange(entry => statuses.push(entry.status))
+
+    const result = await messageBoxClient.sendMessage({
+      recipient: '02b463b8ef7f03c47fba2679c7334d13e4939b8ca30dbb6bbd22e34ea3e9b1b0e4',
+      messageBox: 'test_inbox',
+      body: 'Test message'
+    }, 'https://message-box-us-1.bsvb.tech')
+
+    expect(result).toEqual({ status: 'queued', messageId: '010203' })
+
+    await waitFor(() => statuses.includes('sent'))
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+    expect(statuses).toEqual(['queued', 'sending', 'queued', 'sending', 'sent'])
+
+    // Both attempts carried the same prepared envelope
+    expect(fetchSpy.mock.calls[0][1]?.body).toEqual(fetchSpy.mock.calls[1][1]?.body)
+    messageBoxClient.outbox?.stop()
+  })
+
+  it('Stamps a scheduled message with its delivery time under replay protection', async () => {
+    const host = 'https://message-box-us-1.bsvb.tech'
+    const messageBoxClient = new MessageBoxClient({ walletClient: mockWalletClient, host, outbox: true, replayProtection: { maxAge: 60_000 } })
+    await messageBoxClient.init()
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue(defaultMockResponse as Response)
+
+    const deliverAt = Date.now() + 10 * 60_000
+    const { messageId } = await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'reminders', body: 'Invoice due', skipEncryption: true, deliverAt })
+    messageBoxClient.outbox?.stop()
+    const queued = await messageBoxClient.outbox?.store.get(messageId)
+    expect(JSON.parse(queued?.body as string).sentAt).toBe(deliverAt)
+
+    // Arriving just after its delivery time, it is fresh although it was queued long before
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(deliverAt + 1000)
+    fetchSpy.mockResolvedValueOnce({
+      json: async () => ({
+        status: 'success',
+        messages: [{ messageId, sender: '02alice', body: queued?.body, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' }]
+      }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+    const [received] = await messageBoxClient.listMessages({ messageBox: 'reminders', host })
+    expect(received).toEqual(expect.objectContaining({ body: 'Invoice due', sentAt: deliverAt }))
+    expect(received.stale).toBeUndefined()
+    nowSpy.mockRestore()
+  })
+
+  it('Cancels a queued message on retraction without telling the recipient', async () => {
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech',
+      outbox: true
+    })
+    await messageBoxClient.init()
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue(defaultMockResponse as Response)
+
+    const { messageId } = await messageBoxClient.sendMessage({ recipient: '02bob', messageBox: 'reminders', body: 'Invoice due', deliverAt: Date.now() + 60_000 })
+    expect(await messageBoxClient.retractMessage(messageId)).toEqual({ status: 'cancelled', messageId })
+    expect(await messageBoxClient.outbox?.getStatus(messageId)).toBeUndefined()
+    expect(fetchSpy).not.toHaveBeenCalled()
+    messageBoxClient.outbox?.stop()
+  })
+
+  it('Holds a scheduled message in the outbox until its delivery time', async () => {
+    const messageBoxClient = new MessageBoxClient({
+      walletClient: mockWalletClient,
+      host: 'https://message-box-us-1.bsvb.tech',
+      outbox: true
+    })
+    await messageBoxClient.init()
+
+    const fetchSpy = jest.spyOn(messageBoxClient.authFetch, 'fetch').mockResolvedValue(defaultMockResponse as Response)
+    const statuses: string[] = []
+    messageBoxClient.outbox?.onStatusChange(entry => statuses.push(entry.status))
+    const message = { recipient: '02bob', messageBox: 'reminders', body: 'Invoice due' }
+
+    const result = await messageBoxClient.sendLiveMessage({ ...message, deliverAt: Date.now() + 50 }, 'https://message-box-us-1.bsvb.tech')
+    expect(result).toEqual({ status: 'queued', messageId: '010203' })
+    expect(fetchSpy).not.toHaveBeenCalled()
+
+    await waitFor(() => statuses.includes('sent'))
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    messageBoxClient.outbox?.stop()
+
+    await expect(messageBoxClient.sendMessage({ ...message, deliverAt: Date.now() + 1000, ttl: 500 }))
+      .rejects.toThrow('Message would expire before its scheduled delivery')
+
+    const withoutOutbox = new MessageBoxClient({ walletClient: mockWalletClient, host: 'https://message-box-us-1.bsvb.tech' })
+    await withoutOutbox.init()
+    await expect(withoutOutbox.sendMessage({ ...message, deliverAt: Date.now() + 1000 }))
+      .rejects.toThrow('Scheduled delivery requires the outbox option')
+  })
+
   it('throws an error when recipient is missing in sendMessage', async () => {
     const messageBoxClient = new MessageBoxClient({
       walletClient: mockWalletClient,
@@ -736,6 +1888,59 @@ describe('MessageBoxClient', () => {
     expect(result).toBe('https://default.box')
   })
 
+  it('Routes to a contact\'s preferred host and tags received messages with their contact', async () => {
+    const contacts = new ContactBook()
+    await contacts.addContact({ identityKey: '02bob', petname: 'bob', preferredHost: 'https://bob.box' })
+    const client = new MessageBoxClient({ walletClient: mockWalletClient, host: 'https://default.box', contacts })
+    await client.init()
+    expect(await client.resolveHostForRecipient('02bob')).toBe('https://bob.box')
+
+    jest.spyOn(client.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({
+        status: 'success',
+        messages: [
+          { messageId: 'm1', sender: '02bob', body: 'hi', created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' },
+          { messageId: 'm2', sender: '02stranger', body: 'hello', created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' }
+        ]
+      }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    const [fromBob, fromStranger] = await client.listMessages({ messageBox: 'inbox', host: 'https://default.box' })
+    expect(fromBob).toEqual(expect.objectContaining({ unknownSender: false, contact: expect.objectContaining({ petname: 'bob' }) }))
+    expect(fromStranger.unknownSender).toBe(true)
+    expect(await contacts.getContact('02stranger')).toEqual(expect.objectContaining({ known: false }))
+  })
+
+  it('Resolves each sender\'s certified identity once and attaches it to their messages', async () => {
+    const resolver = new StaticIdentityResolver([{ identityKey: '02alice', name: 'Alice', email: 'alice@example.com' }])
+    const resolveSpy = jest.spyOn(resolver, 'resolve')
+    const client = new MessageBoxClient({ walletClient: mockWalletClient, host: 'https://default.box', identities: { resolver } })
+    await client.init()
+    await expect(new MessageBoxClient({ walletClient: mockWalletClient }).resolveIdentity('02alice')).rejects.toThrow('Identity resolution is not enabled')
+
+    jest.spyOn(client.authFetch, 'fetch').mockResolvedValue({
+      json: async () => ({
+        status: 'success',
+        messages: [
+          { messageId: 'm1', sender: '02alice', body: 'hi', created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-01T00:00:00Z' },
+          { messageId: 'm2', sender: '02alice', body: 'again', created_at: '2026-01-02T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' },
+          { messageId: 'm3', sender: '02nobody', body: 'hey', created_at: '2026-01-03T00:00:00Z', updated_at: '2026-01-03T00:00:00Z' }
+        ]
+      }),
+      headers: new Headers(),
+      ok: true,
+      status: 200
+    } as unknown as Response)
+
+    const messages = await client.listMessages({ messageBox: 'inbox', host: 'https://default.box' })
+    expect(messages.map(message => message.senderIdentity?.name)).toEqual(['Alice', 'Alice', undefined])
+    expect(await client.resolveIdentity('02alice')).toEqual(expect.objectContaining({ email: 'alice@example.com' }))
+    expect(resolveSpy).toHaveBeenCalledTimes(2)
+  })
+
   it('anointHost queries advertisements for existing host records', async () => {
     const anointMock = MessageBoxClient.prototype.anointHost as unknown as jest.Mock
     anointMock.mockRestore()
@@ -0,0 +1,35 @@
+/* eslint-env jest */
+import { MessageBoxRegistry } from '../MessageBoxRegistry.js'
+
+interface OrderEvent { sku: string, quantity: number }
+
+const isOrderEvent = (payload: unknown): payload is OrderEvent =>
+  typeof (payload as OrderEvent)?.sku === 'string' && typeof (payload as OrderEvent)?.quantity === 'number'
+
+describe('MessageBoxRegistry', () => {
+  it('accepts anything for boxes without a validator', () => {
+    const registry = new MessageBoxRegistry()
+    expect(registry.has('inbox')).toBe(false)
+    expect(registry.isValid('inbox', 'whatever')).toBe(true)
+    expect(registry.policyFor('inbox')).toBe('reject')
+  })
+
+  it('validates parsed objects and JSON strings alike', () => {
+    const registry = new MessageBoxRegistry()
+    registry.define('orders', isOrderEvent, { onInvalid: 'quarantine' })
+
+    expect(registry.isValid('orders', { sku: 'A1', quantity: 2 })).toBe(true)
+    expect(registry.isValid('orders', JSON.stringify({ sku: 'A1', quantity: 2 }))).toBe(true)
+    expect(registry.isValid('orders', { sku: 'A1' })).toBe(false)
+    expect(registry.isValid('orders', 'not json')).toBe(false)
+    expect(registry.policyFor('orders')).toBe('quarantine')
+    expect(() => registry.assertValid('orders', { sku: 1 })).toThrow('Invalid payload for message box "orders"')
+  })
+
+  it('treats a throwing validator as a failure', () => {
+    const registry = new MessageBoxRegistry()
+    registry.define('strict', (payload: unknown): payload is never => { throw new Error(`bad ${String(payload)}`) })
+    expect(registry.isValid('strict', {})).toBe(false)
+    expect(() => registry.define(' ', isOrderEvent)).toThrow('You must provide a messageBox name to define!')
+  })
+})
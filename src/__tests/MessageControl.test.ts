@@ -0,0 +1,41 @@
+/* eslint-env jest */
+import { applyControlToStore, isMessageControl } from '../MessageControl.js'
+import { MemoryMessageStore } from '../MessageStore.js'
+import { MessageControl, PeerMessage } from '../types.js'
+
+const message = (messageId: string, sender: string, body: PeerMessage['body'] = 'hi'): PeerMessage =>
+  ({ messageId, sender, body, created_at: '', updated_at: '' })
+
+const controlFrom = (sender: string, control: Omit<MessageControl, 'signature' | 'timestamp'>, timestamp = 7): PeerMessage & { control: MessageControl } =>
+  ({ ...message('c', sender, ''), control: { ...control, timestamp, signature: 'aa' } })
+
+describe('MessageControl', () => {
+  it('recognizes control bodies', () => {
+    expect(isMessageControl({ action: 'retract', target: 'm1', timestamp: 1, signature: 'aa' })).toBe(true)
+    expect(isMessageControl({ action: 'edit', target: 'm1', body: 'new', timestamp: 1, signature: 'aa' })).toBe(true)
+    expect(isMessageControl({ action: 'edit', target: 'm1', timestamp: 1, signature: 'aa' })).toBe(false)
+    expect(isMessageControl({ action: 'delete', target: 'm1', timestamp: 1, signature: 'aa' })).toBe(false)
+  })
+
+  it('applies edits and retractions from the original sender to a store', async () => {
+    const store = new MemoryMessageStore()
+    await store.put('inbox', [message('m1', '02alice'), message('m2', '02alice')])
+
+    expect(await applyControlToStore(store, controlFrom('02alice', { action: 'edit', target: 'm1', body: 'edited' }))).toBe(true)
+    expect(await store.get('m1')).toEqual(expect.objectContaining({ body: 'edited', editedAt: 7, messageBox: 'inbox' }))
+
+    expect(await applyControlToStore(store, controlFrom('02mallory', { action: 'retract', target: 'm2' }))).toBe(false)
+    expect(await applyControlToStore(store, controlFrom('02alice', { action: 'retract', target: 'm2' }))).toBe(true)
+    expect(await store.get('m2')).toBeUndefined()
+    expect(await applyControlToStore(store, controlFrom('02alice', { action: 'retract', target: 'missing' }))).toBe(false)
+  })
+
+  it('keeps the newer edit when an older one arrives later', async () => {
+    const store = new MemoryMessageStore()
+    await store.put('inbox', [message('m1', '02alice')])
+
+    expect(await applyControlToStore(store, controlFrom('02alice', { action: 'edit', target: 'm1', body: 'second' }, 9))).toBe(true)
+    expect(await applyControlToStore(store, controlFrom('02alice', { action: 'edit', target: 'm1', body: 'first' }, 8))).toBe(false)
+    expect(await store.get('m1')).toEqual(expect.objectContaining({ body: 'second', editedAt: 9 }))
+  })
+})
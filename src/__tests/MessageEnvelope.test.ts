@@ -0,0 +1,67 @@
+/* eslint-env jest */
+import { applyEnvelope, compressEnvelope, createEnvelope, decodeEnvelope, encodeEnvelope, inflateEnvelope, isMessageExpired, openEnvelope } from '../MessageEnvelope.js'
+import { PeerMessage } from '../types.js'
+
+describe('MessageEnvelope', () => {
+  it('infers the content type and omits empty metadata', () => {
+    expect(createEnvelope('hello')).toEqual({ envelope: 'messagebox', version: 1, contentType: 'text/plain', payload: 'hello' })
+    expect(createEnvelope({ a: 1 }, { headers: {} })).toEqual({ envelope: 'messagebox', version: 1, contentType: 'application/json', payload: { a: 1 } })
+  })
+
+  it('round-trips through encode and decode', () => {
+    const envelope = createEnvelope({ sku: 'A1' }, { contentType: 'application/vnd.shop.order+json', schemaVersion: 3, headers: { k: 'v' } })
+    expect(decodeEnvelope(encodeEnvelope(envelope))).toEqual(envelope)
+    expect(decodeEnvelope(envelope)).toEqual(envelope)
+  })
+
+  it('rejects bodies that are not envelopes', () => {
+    expect(decodeEnvelope('plain text')).toBeUndefined()
+    expect(decodeEnvelope({ encryptedMessage: 'abc' })).toBeUndefined()
+    expect(decodeEnvelope({ envelope: 'messagebox', version: 2, contentType: 'text/plain', payload: 'x' })).toBeUndefined()
+    expect(decodeEnvelope({ envelope: 'messagebox', version: 1, contentType: 'text/plain' })).toBeUndefined()
+  })
+
+  it('opens legacy bodies with an inferred content type', () => {
+    expect(openEnvelope('hello')).toEqual({ contentType: 'text/plain', headers: {}, payload: 'hello', enveloped: false })
+    expect(openEnvelope({ a: 1 })).toEqual({ contentType: 'application/json', headers: {}, payload: { a: 1 }, enveloped: false })
+    expect(openEnvelope(encodeEnvelope(createEnvelope('hi', { schemaVersion: 1 })))).toEqual({
+      contentType: 'text/plain', schemaVersion: 1, headers: {}, payload: 'hi', enveloped: true
+    })
+  })
+
+  it('applies envelope metadata to received messages', () => {
+    const envelope = createEnvelope({ a: 1 }, { headers: { k: 'v' } })
+    const message: PeerMessage = { messageId: '1', sender: '02a', body: encodeEnvelope(envelope), created_at: '', updated_at: '' }
+
+    applyEnvelope(message, message.body, true)
+    expect(message).toEqual(expect.objectContaining({ body: '{"a":1}', contentType: 'application/json', headers: { k: 'v' } }))
+
+    const legacy: PeerMessage = { messageId: '2', sender: '02a', body: 'hello', created_at: '', updated_at: '' }
+    applyEnvelope(legacy, legacy.body)
+    expect(legacy).toEqual({ messageId: '2', sender: '02a', body: 'hello', created_at: '', updated_at: '' })
+  })
+
+  it('compresses the payload and restores it', async () => {
+    const envelope = createEnvelope({ items: new Array(50).fill('same') }, { headers: { k: 'v' } })
+    const compressed = await compressEnvelope(envelope, 'deflate')
+
+    expect(compressed).toEqual(expect.objectContaining({ contentEncoding: 'deflate', headers: { k: 'v' }, payload: expect.any(String) }))
+    expect(decodeEnvelope(encodeEnvelope(compressed))).toEqual(compressed)
+    expect(await inflateEnvelope(encodeEnvelope(compressed))).toEqual(envelope)
+    expect(await inflateEnvelope('plain')).toBe('plain')
+    expect(decodeEnvelope({ ...compressed, contentEncoding: 'br' })).toBeUndefined()
+  })
+
+  it('carries an expiry and applies it to received messages', () => {
+    const envelope = createEnvelope('soon gone', { expiresAt: 1000 })
+    expect(decodeEnvelope(encodeEnvelope(envelope))?.expiresAt).toBe(1000)
+    expect(decodeEnvelope({ ...envelope, expiresAt: 'tomorrow' })).toBeUndefined()
+
+    const message: PeerMessage = { messageId: '1', sender: '02a', body: encodeEnvelope(envelope), created_at: '', updated_at: '' }
+    applyEnvelope(message, message.body)
+    expect(message.expiresAt).toBe(1000)
+    expect(isMessageExpired(message, 999)).toBe(false)
+    expect(isMessageExpired(message, 1000)).toBe(true)
+    expect(isMessageExpired({}, 1000)).toBe(false)
+  })
+})
@@ -0,0 +1,45 @@
+/* eslint-env jest */
+import { compareMessages, sortMessages } from '../MessageOrdering.js'
+import { PeerMessage } from '../types.js'
+
+const message = (messageId: string, createdAt: string, updatedAt = createdAt): PeerMessage => ({
+  messageId,
+  body: '',
+  sender: '02abc',
+  created_at: createdAt,
+  updated_at: updatedAt
+})
+
+describe('MessageOrdering', () => {
+  const messages = [
+    message('b', '2026-01-02T00:00:00Z', '2026-01-05T00:00:00Z'),
+    message('c', '2026-01-01T00:00:00Z'),
+    message('a', '2026-01-02T00:00:00Z'),
+    message('z', 'not a date')
+  ]
+
+  it('sorts oldest-first by created_at and breaks ties by messageId by default', () => {
+    expect(sortMessages(messages).map(m => m.messageId)).toEqual(['z', 'c', 'a', 'b'])
+  })
+
+  it('reverses both the key and the tie-break for descending order', () => {
+    expect(sortMessages(messages, { direction: 'desc' }).map(m => m.messageId)).toEqual(['b', 'a', 'c', 'z'])
+  })
+
+  it('sorts by updated_at when configured', () => {
+    expect(sortMessages(messages, { by: 'updated_at' }).map(m => m.messageId)).toEqual(['z', 'c', 'a', 'b'])
+    expect(sortMessages(messages, { by: 'updated_at', direction: 'desc' })[0].messageId).toBe('b')
+  })
+
+  it('does not depend on the input order', () => {
+    const reversed = [...messages].reverse()
+    expect(sortMessages(reversed)).toEqual(sortMessages(messages))
+    expect(messages[0].messageId).toBe('b') // input is not mutated
+  })
+
+  it('compares numeric messageIds as strings', () => {
+    const a = { ...message('42', ''), messageId: 42 as unknown as string }
+    const b = { ...message('43', ''), messageId: 43 as unknown as string }
+    expect(compareMessages(a, b)).toBeLessThan(0)
+  })
+})
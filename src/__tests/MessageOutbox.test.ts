@@ -0,0 +1,172 @@
+/* eslint-env jest */
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { MessageOutbox, OutboxSubmission } from '../MessageOutbox.js'
+import { FileOutboxStore, MemoryOutboxStore } from '../OutboxStores.js'
+import { OutboxEntry, OutboxStatus } from '../types.js'
+
+const submission: OutboxSubmission = {
+  messageId: 'abc123',
+  recipient: '02abc',
+  messageBox: 'inbox',
+  body: '{"encryptedMessage":"AAAA"}'
+}
+
+const retry = { initialDelayMs: 5, jitter: 0 }
+
+const waitForStatus = async (outbox: MessageOutbox, messageId: string, status: OutboxStatus): Promise<void> => {
+  const started = Date.now()
+  while (await outbox.getStatus(messageId) !== status) {
+    if (Date.now() - started > 2000) throw new Error(`Timed out waiting for ${status}`)
+    await new Promise(resolve => setTimeout(resolve, 5))
+  }
+}
+
+describe('MessageOutbox', () => {
+  it('marks a message sent when the first attempt succeeds', async () => {
+    const sender = jest.fn(async (entry: OutboxEntry) => ({ status: 'success', messageId: entry.messageId }))
+    const outbox = new MessageOutbox(sender)
+
+    const statuses: OutboxStatus[] = []
+    outbox.onStatusChange(entry => statuses.push(entry.status))
+
+    const entry = await outbox.submit(submission)
+
+    expect(entry.status).toBe('sent')
+    expect(entry.attempts).toBe(1)
+    expect(statuses).toEqual(['queued', 'sending', 'sent'])
+    expect(sender).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'abc123', body: submission.body }))
+  })
+
+  it('keeps a message queued after a transient failure and retries it with backoff', async () => {
+    const sender = jest.fn()
+      .mockRejectedValueOnce(new Error('fetch failed'))
+      .mockResolvedValue({ status: 'success', messageId: 'abc123' })
+    const outbox = new MessageOutbox(sender, { retry })
+    await outbox.start()
+
+    const entry = await outbox.submit(submission)
+    expect(entry.status).toBe('queued')
+    expect(entry.lastError).toBe('fetch failed')
+
+    await waitForStatus(outbox, 'abc123', 'sent')
+    expect(sender).toHaveBeenCalledTimes(2)
+    outbox.stop()
+  })
+
+  it('fails immediately on a permanent error', async () => {
+    const sender = jest.fn().mockRejectedValue(Object.assign(new Error('HTTP 403'), { permanent: true }))
+    const outbox = new MessageOutbox(sender, { retry })
+    await outbox.start()
+
+    const entry = await outbox.submit(submission)
+
+    expect(entry.status).toBe('failed')
+    expect(sender).toHaveBeenCalledTimes(1)
+    outbox.stop()
+  })
+
+  it('fails once the attempt budget is spent', async () => {
+    const sender = jest.fn().mockRejectedValue(new Error('fetch failed'))
+    const outbox = new MessageOutbox(sender, { retry: { ...retry, maxAttempts: 3 } })
+    await outbox.start()
+
+    await outbox.submit(submission)
+    await waitForStatus(outbox, 'abc123', 'failed')
+
+    expect(sender).toHaveBeenCalledTimes(3)
+    outbox.stop()
+  })
+
+  it('does not send a messageId again while it is still queued', async () => {
+    const sender = jest.fn().mockRejectedValue(new Error('fetch failed'))
+    const outbox = new MessageOutbox(sender)
+
+    await outbox.submit(submission)
+    const again = await outbox.submit(submission)
+
+    expect(again.status).toBe('queued')
+    expect(sender).toHaveBeenCalledTimes(1)
+  })
+
+  it('delivers the same body to the same recipient again once the first copy was sent', async () => {
+    const sender = jest.fn(async () => ({ status: 'success', messageId: 'abc123' }))
+    const outbox = new MessageOutbox(sender)
+
+    await outbox.submit(submission)
+    const again = await outbox.submit(submission)
+
+    expect(again).toEqual(expect.objectContaining({ status: 'sent', attempts: 1 }))
+    expect(sender).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops retrying a message once it has expired', async () => {
+    const sender = jest.fn().mockRejectedValue(new Error('fetch failed'))
+    const outbox = new MessageOutbox(sender, { retry })
+    await outbox.start()
+
+    await outbox.submit({ ...submission, expiresAt: Date.now() + 20 })
+    await waitForStatus(outbox, 'abc123', 'failed')
+
+    expect((await outbox.store.get('abc123'))?.lastError).toBe('Message expired before it could be delivered')
+    outbox.stop()
+  })
+
+  it('holds a scheduled message until deliverAt, across restarts', async () => {
+    const store = new MemoryOutboxStore()
+    const sender = jest.fn(async () => ({ status: 'success', messageId: 'abc123' }))
+    const first = new MessageOutbox(sender, { store })
+
+    const entry = await first.submit({ ...submission, deliverAt: Date.now() + 30 })
+    expect(entry.status).toBe('queued')
+    expect(sender).not.toHaveBeenCalled()
+
+    const second = new MessageOutbox(sender, { store })
+    await second.start()
+    await waitForStatus(second, 'abc123', 'sent')
+    expect(sender).toHaveBeenCalledTimes(1)
+    expect(Date.now()).toBeGreaterThanOrEqual(entry.nextAttemptAt)
+    second.stop()
+  })
+
+  it('resumes entries left in the store, including interrupted sends', async () => {
+    const store = new MemoryOutboxStore()
+    await store.put({ ...submission, status: 'sending', attempts: 1, createdAt: 0, updatedAt: 0, nextAttemptAt: 0 })
+
+    const sender = jest.fn(async () => ({ status: 'success', messageId: 'abc123' }))
+    const outbox = new MessageOutbox(sender, { store })
+    await outbox.start()
+
+    await waitForStatus(outbox, 'abc123', 'sent')
+    expect(sender).toHaveBeenCalledTimes(1)
+    outbox.stop()
+  })
+})
+
+describe('FileOutboxStore', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'outbox-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('persists entries across instances', async () => {
+    const path = join(directory, 'outbox.json')
+    const entry: OutboxEntry = { ...submission, status: 'queued', attempts: 0, createdAt: 1, updatedAt: 1, nextAttemptAt: 1 }
+
+    const first = new FileOutboxStore(path)
+    expect(await first.list()).toEqual([])
+    await first.put(entry)
+    await first.put({ ...entry, messageId: 'def456' })
+    await first.delete('def456')
+
+    const second = new FileOutboxStore(path)
+    expect(await second.list()).toEqual([entry])
+    expect(await second.get('abc123')).toEqual(entry)
+  })
+})
@@ -0,0 +1,44 @@
+/* eslint-env jest */
+import { ReceiptTracker, isMessageReceipt, requestsReceipt } from '../MessageReceipts.js'
+import { PeerMessage, ReceivedReceipt } from '../types.js'
+
+const receipt = (status: 'delivered' | 'read', from = '02bob'): ReceivedReceipt =>
+  ({ messageId: 'm1', status, timestamp: 1, signature: 'aa', from })
+
+describe('ReceiptTracker', () => {
+  it('only moves a tracked message forward, and only on receipts from its recipient', () => {
+    const tracker = new ReceiptTracker()
+    const seen: string[] = []
+    tracker.onReceipt(r => seen.push(r.status))
+    tracker.track('m1', '02bob')
+    expect(tracker.isTracked('m1')).toBe(true)
+    expect(tracker.statusOf('m1')).toBeUndefined()
+
+    expect(tracker.record(receipt('read'))).toBe(true)
+    expect(tracker.record(receipt('delivered'))).toBe(true)
+    expect(tracker.record(receipt('read', '02mallory'))).toBe(false)
+    expect(tracker.record({ ...receipt('read'), messageId: 'untracked' })).toBe(false)
+
+    expect(tracker.statusOf('m1')).toBe('read')
+    expect(seen).toEqual(['read', 'delivered'])
+  })
+
+  it('hands out each owed delivery receipt once', () => {
+    const tracker = new ReceiptTracker()
+    const message = (messageId: string, headers?: Record<string, string>): PeerMessage =>
+      ({ messageId, sender: '02alice', body: 'hi', created_at: '', updated_at: '', headers })
+
+    tracker.expect(message('a', { 'receipt-requested': 'true' }))
+    tracker.expect(message('b'))
+
+    expect(tracker.takeAcknowledged(['a', 'b'])).toEqual([{ messageId: 'a', sender: '02alice' }])
+    expect(tracker.takeAcknowledged(['a'])).toEqual([])
+  })
+
+  it('recognizes receipt bodies and requests', () => {
+    expect(isMessageReceipt({ messageId: 'm1', status: 'read', timestamp: 1, signature: 'aa' })).toBe(true)
+    expect(isMessageReceipt({ messageId: 'm1', status: 'seen', timestamp: 1, signature: 'aa' })).toBe(false)
+    expect(requestsReceipt({ headers: { 'receipt-requested': 'true' } })).toBe(true)
+    expect(requestsReceipt({})).toBe(false)
+  })
+})
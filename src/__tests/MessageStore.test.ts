@@ -0,0 +1,73 @@
+/* eslint-env jest */
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { FileMessageStore, MemoryMessageStore } from '../MessageStore.js'
+import { PeerMessage } from '../types.js'
+
+const message = (messageId: string, day: number): PeerMessage => ({
+  messageId,
+  body: { text: `hello ${messageId}` },
+  sender: '02abc',
+  created_at: `2026-01-0${day}T00:00:00Z`,
+  updated_at: `2026-01-0${day}T00:00:00Z`
+})
+
+describe('MemoryMessageStore', () => {
+  it('upserts messages without losing their acknowledged flag', async () => {
+    const store = new MemoryMessageStore()
+    await store.put('inbox', [message('b', 2), message('a', 1)])
+    await store.markAcknowledged(['a'])
+    await store.put('inbox', [{ ...message('a', 1), body: 'edited' }])
+
+    const stored = await store.get('a')
+    expect(stored).toEqual(expect.objectContaining({ messageBox: 'inbox', body: 'edited', acknowledged: true }))
+  })
+
+  it('lists a box in order with acknowledgement filters and limits', async () => {
+    const store = new MemoryMessageStore()
+    await store.put('inbox', [message('c', 3), message('a', 1), message('b', 2)])
+    await store.put('other', [message('x', 1)])
+    await store.markAcknowledged(['a', 'b'])
+
+    expect((await store.list('inbox')).map(m => m.messageId)).toEqual(['a', 'b', 'c'])
+    expect((await store.list('inbox', { acknowledged: true, order: { direction: 'desc' } })).map(m => m.messageId)).toEqual(['b', 'a'])
+    expect((await store.list('inbox', { limit: 1 })).map(m => m.messageId)).toEqual(['a'])
+
+    await store.delete(['a'])
+    expect((await store.list('inbox')).map(m => m.messageId)).toEqual(['b', 'c'])
+  })
+
+  it('keeps a high-water mark per box', async () => {
+    const store = new MemoryMessageStore()
+    await store.setHighWaterMark('inbox', { created_at: '2026-01-01T00:00:00Z', messageId: 'a' })
+
+    expect(await store.getHighWaterMark('inbox')).toEqual({ created_at: '2026-01-01T00:00:00Z', messageId: 'a' })
+    expect(await store.getHighWaterMark('other')).toBeUndefined()
+  })
+})
+
+describe('FileMessageStore', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'message-store-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('persists messages and high-water marks across instances', async () => {
+    const path = join(directory, 'messages.json')
+    const first = new FileMessageStore(path)
+    await first.put('inbox', [message('a', 1), message('b', 2)])
+    await first.markAcknowledged(['a'])
+    await first.setHighWaterMark('inbox', { created_at: '2026-01-01T00:00:00Z', messageId: 'a' })
+
+    const second = new FileMessageStore(path)
+    expect((await second.list('inbox', { acknowledged: true })).map(m => m.messageId)).toEqual(['a'])
+    expect((await second.get('b'))?.body).toEqual({ text: 'hello b' })
+    expect(await second.getHighWaterMark('inbox')).toEqual({ created_at: '2026-01-01T00:00:00Z', messageId: 'a' })
+  })
+})
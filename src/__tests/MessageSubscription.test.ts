@@ -0,0 +1,118 @@
+/* eslint-env jest */
+import { MessageSubscription } from '../MessageSubscription.js'
+import { PeerMessage, SubscribeOptions } from '../types.js'
+
+const message = (messageId: string): PeerMessage => ({
+  messageId,
+  body: `body-${messageId}`,
+  sender: '02abc',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z'
+})
+
+function createSubscription (options: Pick<SubscribeOptions, 'signal' | 'bufferSize' | 'overflow'> = {}): {
+  subscription: MessageSubscription
+  push: (message: PeerMessage) => void
+  stop: jest.Mock
+} {
+  let push: (message: PeerMessage) => void = () => {}
+  const stop = jest.fn(async () => {})
+  const subscription = new MessageSubscription('inbox', async (feed) => {
+    push = feed
+    return stop
+  }, options)
+  return { subscription, push: (m) => push(m), stop }
+}
+
+describe('MessageSubscription', () => {
+  it('yields pushed messages in order through for await', async () => {
+    const { subscription, push, stop } = createSubscription()
+    await Promise.resolve()
+
+    push(message('a'))
+    push(message('b'))
+
+    const received: string[] = []
+    for await (const msg of subscription) {
+      received.push(msg.messageId)
+      if (received.length === 2) break
+    }
+
+    expect(received).toEqual(['a', 'b'])
+    expect(stop).toHaveBeenCalledTimes(1)
+    expect(subscription.closed).toBe(true)
+  })
+
+  it('resolves a waiting read when a message arrives and ends on unsubscribe', async () => {
+    const { subscription, push, stop } = createSubscription()
+    await Promise.resolve()
+
+    const first = subscription.next()
+    push(message('a'))
+    await expect(first).resolves.toEqual({ value: message('a'), done: false })
+
+    const second = subscription.next()
+    await subscription.unsubscribe()
+    await subscription.unsubscribe()
+    await expect(second).resolves.toEqual({ value: undefined, done: true })
+    expect(stop).toHaveBeenCalledTimes(1)
+  })
+
+  it('drops the oldest buffered message by default when the buffer is full', async () => {
+    const { subscription, push } = createSubscription({ bufferSize: 2 })
+    await Promise.resolve()
+
+    push(message('a'))
+    push(message('b'))
+    push(message('c'))
+
+    expect((await subscription.next()).value?.messageId).toBe('b')
+    expect((await subscription.next()).value?.messageId).toBe('c')
+  })
+
+  it('fails after draining the buffer when overflow is "error"', async () => {
+    const { subscription, push, stop } = createSubscription({ bufferSize: 1, overflow: 'error' })
+    await Promise.resolve()
+
+    push(message('a'))
+    push(message('b'))
+
+    expect((await subscription.next()).value?.messageId).toBe('a')
+    await expect(subscription.next()).rejects.toThrow('overflowed')
+    await Promise.resolve()
+    expect(stop).toHaveBeenCalledTimes(1)
+  })
+
+  it('surfaces start-up failures to the consumer', async () => {
+    const subscription = new MessageSubscription('inbox', async () => {
+      throw new Error('join failed')
+    })
+
+    await expect(subscription.next()).rejects.toThrow('join failed')
+  })
+
+  it('stops when the AbortSignal aborts', async () => {
+    const controller = new AbortController()
+    const { subscription, stop } = createSubscription({ signal: controller.signal })
+
+    const pending = subscription.next()
+    controller.abort()
+
+    await expect(pending).resolves.toEqual({ value: undefined, done: true })
+    await subscription.unsubscribe()
+    expect(stop).toHaveBeenCalledTimes(1)
+  })
+
+  it('exposes the messages as a ReadableStream and unsubscribes on cancel', async () => {
+    const { subscription, push, stop } = createSubscription()
+    await Promise.resolve()
+
+    push(message('a'))
+    const reader = subscription.readable.getReader()
+    const first = await reader.read()
+    expect(first.value?.messageId).toBe('a')
+
+    await reader.cancel()
+    expect(stop).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,147 @@
+/* eslint-env jest */
+import { jest } from '@jest/globals'
+import { MessageSyncEngine } from '../MessageSyncEngine.js'
+import { MemoryMessageStore } from '../MessageStore.js'
+import { selectMessagePage } from '../Utils/messagePaging.js'
+import type { MessageBoxClient } from '../MessageBoxClient.js'
+import { AcknowledgeMessageParams, ListMessagesParams, MessagePage, PeerMessage } from '../types.js'
+
+const message = (messageId: string, day: number): PeerMessage => ({
+  messageId,
+  body: `hello ${messageId}`,
+  sender: '02abc',
+  created_at: `2026-01-0${day}T00:00:00Z`,
+  updated_at: `2026-01-0${day}T00:00:00Z`
+})
+
+/**
+ * A client double whose server deletes messages when they are acknowledged.
+ */
+function createClient (initial: PeerMessage[]): { client: MessageBoxClient, server: Map<string, PeerMessage> } {
+  const server = new Map(initial.map(m => [m.messageId, m]))
+  const client = {
+    listMessagesPage: jest.fn(async (params: ListMessagesParams): Promise<MessagePage> =>
+      selectMessagePage(Array.from(server.values(), m => ({ ...m })), params)),
+    acknowledgeMessage: jest.fn(async ({ messageIds }: AcknowledgeMessageParams): Promise<string> => {
+      messageIds.forEach(id => server.delete(id))
+      return 'success'
+    })
+  } as unknown as MessageBoxClient
+  return { client, server }
+}
+
+describe('MessageSyncEngine', () => {
+  it('stores, acknowledges and advances the high-water mark page by page', async () => {
+    const { client, server } = createClient([message('c', 3), message('a', 1), message('b', 2)])
+    const store = new MemoryMessageStore()
+    const engine = new MessageSyncEngine(client, store, { batchSize: 2 })
+
+    const result = await engine.sync('inbox')
+
+    expect(result).toEqual({
+      messageBox: 'inbox',
+      stored: 3,
+      acknowledged: 3,
+      undecryptable: 0,
+      highWaterMark: { created_at: '2026-01-03T00:00:00Z', messageId: 'c' }
+    })
+    expect(server.size).toBe(0)
+    expect(client.listMessagesPage).toHaveBeenCalledTimes(2)
+
+    const history = await engine.getHistory('inbox')
+    expect(history.map(m => m.messageId)).toEqual(['a', 'b', 'c'])
+    expect(history.every(m => m.acknowledged)).toBe(true)
+  })
+
+  it('only fetches messages from the high-water mark onwards on the next sync', async () => {
+    const { client, server } = createClient([message('a', 1)])
+    const engine = new MessageSyncEngine(client, new MemoryMessageStore())
+    await engine.sync('inbox')
+
+    server.set('d', message('d', 4))
+    const result = await engine.sync('inbox')
+
+    expect(result.stored).toBe(1)
+    expect(client.listMessagesPage).toHaveBeenLastCalledWith(expect.objectContaining({ since: '2026-01-01T00:00:00Z' }))
+    expect((await engine.getHistory('inbox')).map(m => m.messageId)).toEqual(['a', 'd'])
+  })
+
+  it('keeps messages unacknowledged and the mark unchanged when acknowledging fails', async () => {
+    const { client } = createClient([message('a', 1)])
+    ;(client.acknowledgeMessage as jest.Mock<any>).mockRejectedValueOnce(new Error('offline'))
+    const store = new MemoryMessageStore()
+    const engine = new MessageSyncEngine(client, store)
+
+    await expect(engine.sync('inbox')).rejects.toThrow('offline')
+    expect((await store.get('a'))?.acknowledged).toBe(false)
+    expect(await store.getHighWaterMark('inbox')).toBeUndefined()
+
+    await engine.sync('inbox')
+    expect((await store.get('a'))?.acknowledged).toBe(true)
+  })
+
+  it('neither stores nor acknowledges messages that could not be decrypted', async () => {
+    const { client, server } = createClient([
+      message('a', 1),
+      { ...message('b', 2), body: '[Error: Failed to decrypt or parse message]', decryptFailed: true },
+      message('c', 3)
+    ])
+    const engine = new MessageSyncEngine(client, new MemoryMessageStore())
+
+    const result = await engine.sync('inbox')
+
+    expect(result).toEqual(expect.objectContaining({ stored: 2, acknowledged: 2, undecryptable: 1 }))
+    expect(Array.from(server.keys())).toEqual(['b'])
+    expect((await engine.getHistory('inbox')).map(m => m.messageId)).toEqual(['a', 'c'])
+    // The mark stays below the failed message, so the next sync tries it again
+    expect(result.highWaterMark).toEqual({ created_at: '2026-01-01T00:00:00Z', messageId: 'a' })
+
+    server.set('b', message('b', 2))
+    expect(await engine.sync('inbox')).toEqual(expect.objectContaining({
+      stored: 1,
+      highWaterMark: { created_at: '2026-01-02T00:00:00Z', messageId: 'b' }
+    }))
+  })
+
+  it('keeps paging past a page that was filtered out entirely', async () => {
+    const { client } = createClient([message('a', 1), message('b', 2), message('c', 3)])
+    const listPage = client.listMessagesPage as jest.Mock<MessageBoxClient['listMessagesPage']>
+    const unfiltered = listPage.getMockImplementation()
+    listPage.mockImplementationOnce(async params => ({ ...await (unfiltered as MessageBoxClient['listMessagesPage'])(params), messages: [] }))
+    const engine = new MessageSyncEngine(client, new MemoryMessageStore(), { batchSize: 2 })
+
+    const result = await engine.sync('inbox')
+
+    expect(result).toEqual(expect.objectContaining({ stored: 1, highWaterMark: { created_at: '2026-01-03T00:00:00Z', messageId: 'c' } }))
+    expect(listPage).toHaveBeenCalledTimes(2)
+  })
+
+  it('shares a single run between concurrent syncs of the same box', async () => {
+    const { client } = createClient([message('a', 1)])
+    const engine = new MessageSyncEngine(client, new MemoryMessageStore())
+
+    const [first, second] = await Promise.all([engine.sync('inbox'), engine.sync('inbox')])
+
+    expect(first).toBe(second)
+    expect(client.listMessagesPage).toHaveBeenCalledTimes(1)
+  })
+
+  it('applies edits of earlier messages to the store instead of storing them', async () => {
+    const { client, server } = createClient([message('a', 1)])
+    const store = new MemoryMessageStore()
+    const engine = new MessageSyncEngine(client, store)
+    await engine.sync('inbox')
+
+    server.set('e', {
+      ...message('e', 2),
+      control: { action: 'edit', target: 'a', body: 'hello again', timestamp: 9, signature: 'aa' }
+    })
+    const result = await engine.sync('inbox')
+
+    expect(result).toEqual(expect.objectContaining({ stored: 0, acknowledged: 1 }))
+    expect(server.size).toBe(0)
+    expect(await engine.getHistory('inbox')).toEqual([
+      expect.objectContaining({ messageId: 'a', body: 'hello again', editedAt: 9 })
+    ])
+  })
+})
@@ -0,0 +1,35 @@
+/* eslint-env jest */
+import { Utils } from '@bsv/sdk'
+import { createEnvelope, openEnvelope } from '../MessageEnvelope.js'
+import { padBody, resolvePadding } from '../Utils/padding.js'
+
+const byteLength = (value: unknown): number => Utils.toArray(JSON.stringify(value), 'utf8').length
+
+describe('padding', () => {
+  it('pads bodies up to the next bucket, or a multiple of the largest', () => {
+    const policy = resolvePadding({ mode: 'buckets', sizes: [512, 128] })
+    expect(byteLength(padBody('hi', policy))).toBe(128)
+    expect(byteLength(padBody({ note: 'ü'.repeat(100) }, policy))).toBe(512)
+    expect(byteLength(padBody('x'.repeat(600), policy))).toBe(1024)
+  })
+
+  it('keeps the envelope of an enveloped body and strips the padding when opened', () => {
+    const envelope = createEnvelope({ amount: 5 }, { contentType: 'application/json', headers: { 'thread-id': 't' } })
+    const padded = padBody(JSON.stringify(envelope), resolvePadding(true))
+    expect(byteLength(padded)).toBe(256)
+    expect(openEnvelope(padded)).toEqual({ ...openEnvelope(envelope) })
+    expect(openEnvelope(padded)).not.toHaveProperty('padding')
+  })
+
+  it('adds up to max random bytes and rejects invalid policies', () => {
+    const policy = resolvePadding({ mode: 'random', max: 16 })
+    const unpadded = byteLength({ ...createEnvelope('hi'), padding: '' })
+    for (let i = 0; i < 20; i++) {
+      const extra = byteLength(padBody('hi', policy)) - unpadded
+      expect(extra).toBeGreaterThanOrEqual(0)
+      expect(extra).toBeLessThanOrEqual(16)
+    }
+    expect(() => resolvePadding({ mode: 'buckets', sizes: [0] })).toThrow('positive integers')
+    expect(() => resolvePadding({ mode: 'random', max: -1 })).toThrow('positive integer')
+  })
+})
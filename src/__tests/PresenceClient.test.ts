@@ -0,0 +1,81 @@
+/* eslint-env jest */
+import { jest } from '@jest/globals'
+import { PresenceClient } from '../PresenceClient.js'
+import type { MessageBoxClient } from '../MessageBoxClient.js'
+import { EphemeralSignal, PeerPresence } from '../types.js'
+
+const bob = '03bob'
+
+describe('PresenceClient', () => {
+  let sent: Array<{ recipient: string, channel: string, body: unknown }>
+  let handlers: Record<string, (signal: EphemeralSignal) => void>
+  let stopped: string[]
+  let presence: PresenceClient
+
+  const signal = (channel: string, body: unknown, sender = bob): void =>
+    handlers[channel]({ sender, channel, body, sentAt: Date.now() })
+
+  beforeEach(async () => {
+    jest.useFakeTimers()
+    sent = []
+    handlers = {}
+    stopped = []
+    const client = {
+      sendEphemeral: jest.fn(async (params: { recipient: string, channel: string, body: unknown }) => {
+        sent.push(params)
+        return true
+      }),
+      listenForEphemeral: jest.fn(async ({ channel, onSignal }: { channel: string, onSignal: (signal: EphemeralSignal) => void }) => {
+        handlers[channel] = onSignal
+        return async () => { stopped.push(channel) }
+      })
+    } as unknown as MessageBoxClient
+    presence = new PresenceClient(client, { heartbeatInterval: 1000, typingTimeout: 300 })
+    await presence.start()
+  })
+
+  afterEach(async () => {
+    await presence.stop()
+    jest.useRealTimers()
+  })
+
+  it('heartbeats presence until going offline', async () => {
+    await presence.setPresence('online', [bob])
+    expect(sent).toEqual([{ recipient: bob, channel: 'presence', body: { status: 'online', ttl: 2000 } }])
+
+    await jest.advanceTimersByTimeAsync(2500)
+    expect(sent).toHaveLength(3)
+
+    await presence.setPresence('offline', [bob])
+    await jest.advanceTimersByTimeAsync(5000)
+    expect(sent.map(s => (s.body as { status: string }).status)).toEqual(['online', 'online', 'online', 'offline'])
+  })
+
+  it('tracks a watched peer and expires stale presence and typing', async () => {
+    const updates: PeerPresence[] = []
+    presence.watch(bob, p => updates.push(p))
+
+    signal('presence', { status: 'online', ttl: 2000 })
+    signal('typing', { typing: true, ttl: 300 })
+    expect(presence.getPresence(bob)).toEqual(expect.objectContaining({ status: 'online', typing: true }))
+
+    await jest.advanceTimersByTimeAsync(300)
+    expect(updates[updates.length - 1]).toEqual(expect.objectContaining({ status: 'online', typing: false }))
+
+    await jest.advanceTimersByTimeAsync(1700)
+    expect(updates[updates.length - 1]).toEqual(expect.objectContaining({ status: 'offline', typing: false }))
+    expect(presence.getPresence(bob).lastSeen).toBeDefined()
+  })
+
+  it('ignores malformed signals, caps ttls and stops its listeners', async () => {
+    signal('presence', { status: 'invisible' })
+    expect(presence.getPresence(bob)).toEqual({ identityKey: bob, status: 'offline', typing: false })
+
+    signal('presence', { status: 'away', ttl: Number.MAX_SAFE_INTEGER })
+    await jest.advanceTimersByTimeAsync(10 * 60 * 1000)
+    expect(presence.getPresence(bob).status).toBe('offline')
+
+    await presence.stop()
+    expect(stopped).toEqual(['presence', 'typing'])
+  })
+})
@@ -0,0 +1,62 @@
+/* eslint-env jest */
+import { ReconnectionManager } from '../ReconnectionManager.js'
+
+describe('ReconnectionManager', () => {
+  it('grows the delay exponentially up to the configured ceiling', () => {
+    const manager = new ReconnectionManager({ initialDelayMs: 100, maxDelayMs: 1000, multiplier: 2, jitter: 0 })
+
+    expect(manager.delayFor(0)).toBe(100)
+    expect(manager.delayFor(1)).toBe(200)
+    expect(manager.delayFor(3)).toBe(800)
+    expect(manager.delayFor(10)).toBe(1000)
+  })
+
+  it('keeps jittered delays within the configured spread', () => {
+    const manager = new ReconnectionManager({ initialDelayMs: 1000, jitter: 0.5 })
+
+    for (let i = 0; i < 20; i++) {
+      const delay = manager.delayFor(0)
+      expect(delay).toBeGreaterThanOrEqual(500)
+      expect(delay).toBeLessThanOrEqual(1000)
+    }
+  })
+
+  it('retries until an attempt succeeds and then resets', async () => {
+    const manager = new ReconnectionManager({ initialDelayMs: 1, jitter: 0 })
+    let calls = 0
+
+    await new Promise<void>((resolve, reject) => {
+      manager.start(async () => {
+        calls++
+        if (calls < 3) throw new Error('still offline')
+        resolve()
+      }, () => reject(new Error('should not give up')))
+    })
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(calls).toBe(3)
+    expect(manager.attemptCount).toBe(0)
+    expect(manager.isActive).toBe(false)
+  })
+
+  it('gives up after maxAttempts failures', async () => {
+    const manager = new ReconnectionManager({ initialDelayMs: 1, jitter: 0, maxAttempts: 2 })
+    const attempt = jest.fn(async () => { throw new Error('offline') })
+
+    await new Promise<void>(resolve => manager.start(attempt, resolve))
+
+    expect(attempt).toHaveBeenCalledTimes(2)
+  })
+
+  it('cancel() stops a pending attempt', async () => {
+    const manager = new ReconnectionManager({ initialDelayMs: 20, jitter: 0 })
+    const attempt = jest.fn(async () => {})
+
+    manager.start(attempt, () => {})
+    manager.cancel()
+    await new Promise(resolve => setTimeout(resolve, 40))
+
+    expect(attempt).not.toHaveBeenCalled()
+    expect(manager.isActive).toBe(false)
+  })
+})
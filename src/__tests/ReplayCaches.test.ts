@@ -0,0 +1,42 @@
+/* eslint-env jest */
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { FileReplayCache, MemoryReplayCache } from '../ReplayCaches.js'
+
+describe('MemoryReplayCache', () => {
+  it('forgets the oldest keys beyond its limit', async () => {
+    const cache = new MemoryReplayCache(2)
+    await cache.add(['a', 'b'])
+    // Re-adding `a` makes `b` the oldest
+    await cache.add(['a', 'c'])
+
+    expect(await cache.has('a')).toBe(true)
+    expect(await cache.has('b')).toBe(false)
+    expect(cache.list()).toEqual(['a', 'c'])
+  })
+})
+
+describe('FileReplayCache', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'replay-cache-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('persists keys across instances', async () => {
+    const path = join(directory, 'replay.json')
+    const first = new FileReplayCache(path)
+    expect(await first.has('m1')).toBe(false)
+    await first.add(['m1', 'nonce:02alice:aa'])
+
+    const second = new FileReplayCache(path)
+    expect(await second.has('m1')).toBe(true)
+    expect(await second.has('nonce:02alice:aa')).toBe(true)
+    expect(await second.has('m2')).toBe(false)
+  })
+})
@@ -1,4 +1,5 @@
 import { AtomicBEEF, Base64String, BasketStringUnder300Bytes, BEEF, BooleanDefaultTrue, DescriptionString5to50Bytes, HexString, LabelStringUnder300Bytes, LockingScript, OutputTagStringUnder300Bytes, PositiveIntegerOrZero, PubKeyHex, WalletInterface } from '@bsv/sdk'
+import type { ContactBook } from './ContactBook.js'
 
 /**
  * Configuration options for initializing a MessageBoxClient.
@@ -32,6 +33,345 @@ export interface MessageBoxClientOptions {
    * Originator of the message box client.
    */
   originator?: string
+
+  /**
+   * Automatic WebSocket reconnection. Pass `true` to use the default backoff
+   * settings, or a `ReconnectOptions` object to tune them.
+   * @default false
+   */
+  reconnect?: boolean | ReconnectOptions
+
+  /**
+   * Persistent outbox for `sendMessage()` / `sendLiveMessage()`. Pass `true` for an in-memory
+   * outbox with default retry settings, or an `OutboxOptions` object to choose the store.
+   * @default false
+   */
+  outbox?: boolean | OutboxOptions
+
+  /**
+   * Where messages quarantined by a box defined with `onInvalid: 'quarantine'` are kept.
+   * @default A `MemoryMessageStore`
+   */
+  quarantineStore?: MessageStore
+
+  /**
+   * Compresses message bodies by default. Pass `true` to gzip bodies of 1 KiB or more,
+   * or a `CompressionOptions` object. A per-message `compress` flag takes precedence.
+   * @default false
+   */
+  compression?: boolean | CompressionOptions
+  /**
+   * Largest size in bytes a received compressed body may inflate to. Decompression stops once it
+   * is passed and the message is treated as undecodable, like one that fails to decrypt.
+   * @default 16777216 (16 MiB)
+   */
+  maxInflatedSize?: number
+  /**
+   * Sends signed receipts for received messages that requested one: `delivered` when they are
+   * acknowledged and `read` when `markRead()` is called. Off by default, so nothing about
+   * reading habits is disclosed unless the recipient opts in.
+   * @default false
+   */
+  receipts?: boolean
+  /**
+   * Encrypts with a fresh key ID per message or per epoch instead of the fixed key ID `'1'`.
+   * Pass `true` for per-message key IDs, or a `KeyRotationOptions` object. Messages with any
+   * key ID are always decrypted, but recipients on older versions can only read the fixed one.
+   * @default false
+   */
+  keyRotation?: boolean | KeyRotationOptions
+  /**
+   * Pads every outgoing body so its length no longer reveals the payload size. Pass `true` to
+   * pad to size buckets, or a `PaddingOptions` object. Padded bodies are always sent in a
+   * `MessageEnvelope`; receivers strip the padding whatever their own setting.
+   * @default false
+   */
+  padding?: boolean | PaddingOptions
+  /**
+   * Sends every message with a hidden sender (see `SendMessageParams.sealedSender`). Recipients
+   * must accept messages from unknown senders in the box, since the server cannot tell who sent it.
+   * @default false
+   */
+  sealedSender?: boolean
+  /**
+   * Signs every plaintext (`skipEncryption`) message (see `SendMessageParams.signPlaintext`).
+   * @default false
+   */
+  signPlaintext?: boolean
+  /**
+   * Stops a message from being handled twice. Pass `true` for an in-memory cache, or a
+   * `ReplayProtectionOptions` object. Acknowledged messages are remembered and dropped if they show
+   * up again, and outgoing messages carry a nonce and send time that receivers check for freshness.
+   * @default false
+   */
+  replayProtection?: boolean | ReplayProtectionOptions
+  /**
+   * Annotates received messages with the sender's `contact` and sends to contacts through their
+   * preferred host.
+   */
+  contacts?: ContactBook
+  /**
+   * Sets `senderIdentity` on received messages. Pass `true` to resolve identity certificates through
+   * the wallet, or an `IdentityResolutionOptions` object.
+   * @default false
+   */
+  identities?: boolean | IdentityResolutionOptions
+}
+
+export interface IdentityResolutionOptions {
+  /** Looks identities up. @default new CertificateIdentityResolver(walletClient) */
+  resolver?: IdentityResolver
+  /** How long (ms) a resolved identity, or the lack of one, is cached. @default 3600000 (one hour) */
+  cacheTtl?: number
+}
+
+/**
+ * Certified attributes of an identity key, for showing who a message is from.
+ */
+export interface SenderIdentity {
+  identityKey: string
+  name: string
+  avatarURL?: string
+  /** Email address revealed in an email certificate. */
+  email?: string
+  /** Name of the certifier that vouches for `name`. */
+  certifier?: string
+  /** Describes the certification, e.g. "Email certified by SocialCert". */
+  badgeLabel?: string
+  badgeIconURL?: string
+}
+
+/**
+ * Resolves identity keys to certified attributes. `CertificateIdentityResolver` uses the wallet's
+ * certificate discovery; `StaticIdentityResolver` is a local stand-in.
+ */
+export interface IdentityResolver {
+  resolve: (identityKey: string) => Promise<SenderIdentity | undefined>
+}
+
+export interface ReplayProtectionOptions {
+  /** Where processed messages are remembered; use a `FileReplayCache` to survive restarts. @default new MemoryReplayCache() */
+  cache?: ReplayCache
+  /**
+   * How old (ms) a message with a send time may be when it arrives before it is flagged `stale`.
+   * Stale messages are still delivered. @default 604800000 (one week)
+   */
+  maxAge?: number
+  /** How far (ms) a message's send time may be ahead of the local clock before it is flagged `stale`. @default 300000 (five minutes) */
+  maxClockSkew?: number
+}
+
+/**
+ * Remembers which messages were already processed, keyed by message ID and by sender nonce.
+ */
+export interface ReplayCache {
+  has: (key: string) => Promise<boolean>
+  add: (keys: string[]) => Promise<void>
+}
+
+/**
+ * How outgoing bodies are padded before encryption.
+ *
+ * - `buckets`: up to the smallest of `sizes` (bytes) that fits, or a multiple of the largest.
+ * - `random`: by a random number of bytes between 0 and `max`.
+ */
+export type PaddingOptions =
+  | { mode: 'buckets', sizes?: number[] }
+  | { mode: 'random', max?: number }
+
+export interface KeyRotationOptions {
+  /** Derive a new key for every message, or one per epoch of `epochLength` ms. @default 'message' */
+  mode?: 'message' | 'epoch'
+  /** Length of an epoch in ms. @default 86400000 (one day) */
+  epochLength?: number
+}
+
+/**
+ * Payload compression formats, as understood by `CompressionStream`.
+ */
+export type CompressionFormat = 'gzip' | 'deflate'
+
+export interface CompressionOptions {
+  /** @default 'gzip' */
+  format?: CompressionFormat
+  /** Bodies shorter than this many characters once serialized are sent uncompressed. @default 1024 */
+  minSize?: number
+}
+
+/**
+ * Lifecycle states reported for the live WebSocket connection.
+ *
+ * - `connecting`: a socket is being opened and authenticated for the first time.
+ * - `authenticated`: the socket is connected and authenticated; rooms are joined.
+ * - `reconnecting`: the socket dropped unexpectedly and is being rebuilt.
+ * - `closed`: there is no live connection (never opened, closed by the caller, or reconnection gave up).
+ */
+export type ConnectionState = 'connecting' | 'authenticated' | 'reconnecting' | 'closed'
+
+/**
+ * Exponential backoff settings for automatic WebSocket reconnection.
+ */
+export interface ReconnectOptions {
+  /** Delay before the first reconnection attempt, in milliseconds. Default: 1000. */
+  initialDelayMs?: number
+  /** Upper bound for any single reconnection delay, in milliseconds. Default: 30000. */
+  maxDelayMs?: number
+  /** Factor applied to the delay after each failed attempt. Default: 2. */
+  multiplier?: number
+  /** Fraction (0–1) of each delay that is randomized to avoid thundering herds. Default: 0.5. */
+  jitter?: number
+  /** Attempts to make before giving up and reporting `closed`. Default: unlimited. */
+  maxAttempts?: number
+}
+
+/**
+ * Delivery status of a message held in the outbox.
+ *
+ * - `queued`: waiting for its first or next delivery attempt.
+ * - `sending`: a delivery attempt is in progress.
+ * - `sent`: the server acknowledged the message.
+ * - `failed`: the server rejected the message, or the retry budget was spent.
+ */
+export type OutboxStatus = 'queued' | 'sending' | 'sent' | 'failed'
+
+/**
+ * A message persisted by the outbox. The body is stored exactly as it goes on the wire
+ * (already encrypted unless `skipEncryption` was set), so retries never touch the wallet.
+ */
+export interface OutboxEntry {
+  /** Deterministic HMAC message ID; the server uses it to de-duplicate retries. */
+  messageId: string
+  recipient: string
+  messageBox: string
+  /** Prepared message body as sent to the server. */
+  body: string
+  /** Payment attached when `checkPermissions` required one. */
+  payment?: Payment
+  /** Host override given to `sendMessage()`; otherwise the host is resolved on every attempt. */
+  host?: string
+  status: OutboxStatus
+  /** Number of delivery attempts made so far. */
+  attempts: number
+  /** Unix timestamps (ms). */
+  createdAt: number
+  updatedAt: number
+  /** Earliest time the next attempt may run. */
+  nextAttemptAt: number
+  /** Scheduled delivery time; no attempt is made before it. */
+  deliverAt?: number
+  /** The message's expiry; the outbox stops trying to deliver it after this time. */
+  expiresAt?: number
+  /** Error message from the most recent failed attempt. */
+  lastError?: string
+  /**
+   * True for sealed-sender messages, which are posted as a one-time identity. Its key is kept in
+   * memory only, so a sealed entry left in a persistent store by an earlier run fails permanently.
+   */
+  sealed?: boolean
+}
+
+/**
+ * Storage backend for the outbox. Implementations must persist entries by `messageId`.
+ * `MemoryOutboxStore`, `FileOutboxStore` and `IndexedDBOutboxStore` ship with the client.
+ */
+export interface OutboxStore {
+  get: (messageId: string) => Promise<OutboxEntry | undefined>
+  put: (entry: OutboxEntry) => Promise<void>
+  delete: (messageId: string) => Promise<void>
+  list: () => Promise<OutboxEntry[]>
+}
+
+/**
+ * Receipt a recipient can send back for a message: `delivered` once acknowledged, `read` once marked read.
+ */
+export type ReceiptStatus = 'delivered' | 'read'
+
+/**
+ * What `getDeliveryStatus()` reports: a receipt status once one arrived, otherwise the outbox
+ * status, or `sent` for messages the server accepted.
+ */
+export type DeliveryStatus = OutboxStatus | ReceiptStatus
+
+/**
+ * Signed receipt body, sent to the original sender's `receipts` box.
+ */
+export interface MessageReceipt {
+  /** ID of the message being acknowledged. */
+  messageId: string
+  status: ReceiptStatus
+  /** Unix timestamp (ms) at which the recipient acknowledged or read the message. */
+  timestamp: number
+  /** Hex DER signature by the recipient over `messageId`, `status` and `timestamp`. */
+  signature: string
+}
+
+/**
+ * A verified receipt, as passed to `onReceipt()` listeners.
+ */
+export interface ReceivedReceipt extends MessageReceipt {
+  /** Identity key of the recipient who sent the receipt. */
+  from: string
+}
+
+/**
+ * A short-lived signal relayed over the WebSocket and never stored, such as a presence
+ * heartbeat or a typing indicator.
+ */
+export interface EphemeralSignal {
+  /** Identity key of the sender, as authenticated by the server. */
+  sender: string
+  channel: string
+  body: unknown
+  /** Sender's clock (ms) when the signal was emitted. */
+  sentAt: number
+}
+
+export type PresenceStatus = 'online' | 'away' | 'offline'
+
+/**
+ * What is currently known about a counterparty's presence. Stale presence reads as `offline`
+ * and a stale typing indicator as `false`.
+ */
+export interface PeerPresence {
+  identityKey: string
+  status: PresenceStatus
+  typing: boolean
+  /** When the last presence or typing signal arrived (ms), if any has. */
+  lastSeen?: number
+}
+
+/**
+ * Configuration for the persistent outbox.
+ */
+export interface OutboxOptions {
+  /** Where entries are persisted. Default: a `MemoryOutboxStore`. */
+  store?: OutboxStore
+  /** Backoff between delivery attempts. Same shape as `ReconnectOptions`; `maxAttempts` defaults to 10. */
+  retry?: ReconnectOptions
+}
+
+/**
+ * Options for `MessageBoxClient.subscribe()`.
+ */
+export interface SubscribeOptions {
+  /** Host to connect to when no WebSocket is open yet. */
+  overrideHost?: string
+  /** Also deliver messages stored on the server while the socket was down (see `listenForLiveMessages`). */
+  catchUp?: boolean
+  /** Ends the subscription (and leaves the room) when aborted. */
+  signal?: AbortSignal
+  /** Maximum number of messages held while the consumer is busy. Default: 1000. */
+  bufferSize?: number
+  /**
+   * What to do when a message arrives and the buffer is full. Default: `'drop-oldest'`.
+   *
+   * - `drop-oldest`: discard the oldest buffered message.
+   * - `drop-newest`: discard the incoming message.
+   * - `error`: fail the subscription; the consumer sees the error after draining the buffer.
+   *
+   * Dropped messages are not acknowledged, so they remain available through `listMessages()`.
+   */
+  overflow?: 'drop-oldest' | 'drop-newest' | 'error'
 }
 
 /**
@@ -47,6 +387,255 @@ export interface PeerMessage {
   created_at: string
   updated_at: string
   acknowledged?: boolean
+  /** Declared payload type; set when the message was sent in a `MessageEnvelope`. */
+  contentType?: string
+  /** Application schema version; set when the envelope declared one. */
+  schemaVersion?: number
+  /** Envelope headers; set when the envelope carried any. */
+  headers?: Record<string, string>
+  /** Unix time (ms) after which the sender considers the message worthless. */
+  expiresAt?: number
+  /** Random value the sender attached against replays; set when the envelope carried one. */
+  nonce?: string
+  /** Unix time (ms) at which the sender sent the message; set when the envelope carried one. */
+  sentAt?: number
+  /**
+   * Set under `replayProtection` when `sentAt` lies outside the freshness window. The message was
+   * not seen before and is still delivered, but it may be a replay older than the cache remembers.
+   */
+  stale?: boolean
+  /** Set when the sender edited the message: the time of the edit (ms). `body` is the edited body. */
+  editedAt?: number
+  /**
+   * True when the message was sent sealed: `sender` was recovered from inside the ciphertext and
+   * its signature verified, while the server only saw a one-time key.
+   */
+  sealedSender?: boolean
+  /**
+   * True when `sender` is proven to have written the body: it decrypted under the key shared with
+   * them, or it was sent in plaintext with a valid signature from them. False for plaintext
+   * messages that are unsigned (e.g. from older clients) or whose signature does not verify.
+   */
+  verified?: boolean
+  /**
+   * True when the body could not be decrypted or parsed. `body` is then an error placeholder, so
+   * such messages are not quarantined as invalid and `MessageSyncEngine` leaves them on the server.
+   */
+  decryptFailed?: boolean
+  /** The sender's entry in the client's `ContactBook`, when one is configured. */
+  contact?: Contact
+  /** True when a `ContactBook` is configured and the sender is not a saved contact in it. */
+  unknownSender?: boolean
+  /** Certified attributes of the sender, when identity resolution is enabled and found any. */
+  senderIdentity?: SenderIdentity
+  /**
+   * Set on a verified edit or retract whose original message was not part of the same listing.
+   * `MessageSyncEngine` applies these to its store; other callers apply them to their own view.
+   */
+  control?: MessageControl
+}
+
+/**
+ * Plaintext of a sealed-sender message: the real sender and their signature, encrypted together
+ * with the body by the one-time key the message is posted as.
+ */
+export interface SealedSenderPayload {
+  sealed: 'messagebox'
+  /** Identity key of the real sender. */
+  sender: string
+  /** Hex DER signature by the sender over themselves, the recipient, the one-time key and `body`. */
+  signature: string
+  /** The serialized message body. */
+  body: string
+}
+
+export type ControlAction = 'edit' | 'retract'
+
+/**
+ * Signed instruction from a sender to edit or retract one of their earlier messages.
+ * Sent to the original message's box and honoured only from the original sender.
+ */
+export interface MessageControl {
+  action: ControlAction
+  /** HMAC `messageId` of the message being edited or retracted. */
+  target: string
+  /** The replacement body; set for `edit`. */
+  body?: string | Record<string, any>
+  /** Unix timestamp (ms) of the edit or retraction. */
+  timestamp: number
+  /** Hex DER signature by the sender over `action`, `target`, `body` and `timestamp`. */
+  signature: string
+}
+
+/**
+ * A group as known to this client.
+ */
+export interface Group {
+  groupId: string
+  name?: string
+  /** Identity key of the creator, the only member who may add or remove others. */
+  owner: string
+  /** Identity keys of the current members, including the owner and this client. */
+  members: string[]
+  /** Incremented by every membership change the owner makes. */
+  version: number
+  /** Unix time (ms) of the last membership change. */
+  updatedAt: number
+  /**
+   * Set on the record kept once this client left the group or was removed from it, so later
+   * traffic for the group is acknowledged and dropped. Such groups are not listed.
+   */
+  left?: boolean
+}
+
+export type GroupAction = 'create' | 'add' | 'remove' | 'leave'
+
+/**
+ * Signed membership change, sent to every member affected by it.
+ */
+export interface GroupUpdate {
+  groupId: string
+  action: GroupAction
+  name?: string
+  owner: string
+  /** The full membership after the change. For `leave`, the membership without the sender. */
+  members: string[]
+  version: number
+  /** Unix timestamp (ms) of the change. */
+  timestamp: number
+  /** Hex DER signature by the sender over all other fields. */
+  signature: string
+}
+
+/**
+ * A message received in a group.
+ */
+export interface GroupMessage {
+  groupId: string
+  messageId: string
+  sender: string
+  body: string | Record<string, any>
+  created_at: string
+}
+
+/**
+ * Per-member outcome of sending to a group.
+ */
+export interface GroupSendResult {
+  sent: Array<{ recipient: string, messageId: string }>
+  failed: Array<{ recipient: string, error: string }>
+}
+
+/**
+ * Storage backend for `GroupClient`. `MemoryGroupStore` and `FileGroupStore` ship with the client.
+ */
+export interface GroupStore {
+  get: (groupId: string) => Promise<Group | undefined>
+  put: (group: Group) => Promise<void>
+  delete: (groupId: string) => Promise<void>
+  list: () => Promise<Group[]>
+}
+
+/**
+ * An identity in a `ContactBook`: either a saved contact, or a sender that was only seen.
+ */
+export interface Contact {
+  identityKey: string
+  /** True once the identity was saved with `addContact()`; false if it was only seen. */
+  known: boolean
+  /** The local name for the identity, unique within the book. */
+  petname?: string
+  tags: string[]
+  /** Host used to reach the contact instead of the one its advertisements name. */
+  preferredHost?: string
+  /** Application settings kept for the contact. */
+  settings: Record<string, unknown>
+  /** Unix time (ms) the identity was first seen or saved. */
+  firstSeenAt: number
+  /** Unix time (ms) of the last message seen from the identity. */
+  lastSeenAt?: number
+}
+
+/**
+ * Storage backend for `ContactBook`. `MemoryContactStore` and `FileContactStore` ship with the client.
+ */
+export interface ContactStore {
+  get: (identityKey: string) => Promise<Contact | undefined>
+  put: (contact: Contact) => Promise<void>
+  delete: (identityKey: string) => Promise<void>
+  list: () => Promise<Contact[]>
+}
+
+/**
+ * A message kept in a local `MessageStore`.
+ */
+export interface StoredMessage extends PeerMessage {
+  messageBox: string
+  /** True once the message has been acknowledged (and therefore deleted) on the server. */
+  acknowledged: boolean
+  /** Unix time (ms) when the message was first stored. */
+  storedAt: number
+  /** Set for messages this client sent rather than received. */
+  recipient?: string
+}
+
+/**
+ * Position of the newest message a `MessageSyncEngine` has stored and acknowledged for a box.
+ */
+export interface MessageHighWaterMark {
+  created_at: string
+  messageId: string
+}
+
+/**
+ * Query options for `MessageStore.list()`.
+ */
+export interface StoredMessageQuery {
+  /** Only acknowledged (`true`) or unacknowledged (`false`) messages. */
+  acknowledged?: boolean
+  /** Default: oldest-first by `created_at`. */
+  order?: MessageOrder
+  limit?: number
+}
+
+/**
+ * Local persistence for decrypted messages. `MemoryMessageStore`, `FileMessageStore` and
+ * `SqliteMessageStore` ship with the client.
+ */
+export interface MessageStore {
+  /** Inserts or updates messages. An existing record keeps its `acknowledged` flag and `storedAt`. */
+  put: (messageBox: string, messages: Array<PeerMessage & { recipient?: string }>) => Promise<void>
+  get: (messageId: string) => Promise<StoredMessage | undefined>
+  list: (messageBox: string, query?: StoredMessageQuery) => Promise<StoredMessage[]>
+  markAcknowledged: (messageIds: string[]) => Promise<void>
+  delete: (messageIds: string[]) => Promise<void>
+  getHighWaterMark: (messageBox: string) => Promise<MessageHighWaterMark | undefined>
+  setHighWaterMark: (messageBox: string, mark: MessageHighWaterMark) => Promise<void>
+}
+
+/**
+ * A message within a conversation, incoming or outgoing.
+ */
+export interface ConversationMessage {
+  messageId: string
+  threadId: string
+  inReplyTo?: string
+  /** The peer on the other side of the conversation. */
+  counterparty: string
+  direction: 'incoming' | 'outgoing'
+  body: string | Record<string, any>
+  created_at: string
+}
+
+/**
+ * Summary of all threads with one counterparty.
+ */
+export interface Conversation {
+  counterparty: string
+  /** Thread IDs, most recently active first. */
+  threadIds: string[]
+  lastMessage: ConversationMessage
+  messageCount: number
 }
 
 /**
@@ -66,9 +655,52 @@ export interface SendMessageParams {
   messageBox: string
   body: string | object
   messageId?: string
+  /**
+   * Sends the body unencrypted. Bodies that are sent as a `MessageEnvelope` anyway (for expiry,
+   * compression, receipts and the like) are signed by the sender, which receivers check to set
+   * `PeerMessage.verified`. Other bodies go out as they are unless `signPlaintext` is set.
+   */
   skipEncryption?: boolean
   /** Optional: Enable permission and fee checking (default: false for backwards compatibility) */
   checkPermissions?: boolean
+  /** Sends the body in a `MessageEnvelope` with this content type. */
+  contentType?: string
+  /** Sends the body in a `MessageEnvelope` declaring this schema version. */
+  schemaVersion?: number
+  /** Sends the body in a `MessageEnvelope` with these headers. */
+  headers?: Record<string, string>
+  /**
+   * Compresses the body before encryption (`true` means `'gzip'`); it is then always sent in a
+   * `MessageEnvelope`. Overrides the client's `compression` option; `false` disables it.
+   */
+  compress?: boolean | CompressionFormat
+  /**
+   * Unix time (ms) after which the message is worthless. It is carried in the `MessageEnvelope`;
+   * receivers drop and acknowledge the message once it has passed.
+   */
+  expiresAt?: number
+  /** Time to live in ms; shorthand for `expiresAt: Date.now() + ttl`. Ignored when `expiresAt` is set. */
+  ttl?: number
+  /**
+   * Unix time (ms) to deliver the message at. The prepared message is held in the client's
+   * outbox until then, so this requires the `outbox` option (use a persistent store to
+   * survive restarts).
+   */
+  deliverAt?: number
+  /** Ask the recipient for delivery and read receipts (see `MessageBoxClient.onReceipt()`). */
+  requestReceipt?: boolean
+  /**
+   * Hides the sender from the server: the message is posted and encrypted by a one-time key,
+   * and the signed sender identity travels inside the ciphertext. Overrides the client's
+   * `sealedSender` option. Cannot be combined with `skipEncryption` or `checkPermissions`.
+   */
+  sealedSender?: boolean
+  /**
+   * Wraps a `skipEncryption` body in a signed `MessageEnvelope` even when it would otherwise be
+   * sent bare. Recipients on versions without envelope support see the envelope JSON instead of
+   * the body. Overrides the client's `signPlaintext` option.
+   */
+  signPlaintext?: boolean
 }
 
 /**
@@ -99,11 +731,47 @@ export interface AcknowledgeMessageParams {
  *
  * @property messageBox - The identifier of the message box to retrieve messages from.
  * @property host - (Optional) The host URL to connect to for retrieving messages.
+ *
+ * Filters and paging are applied after the hosts' results are merged, and before any message is
+ * decrypted or has its payment internalized, so only the returned page pays that cost.
  */
 export interface ListMessagesParams {
   messageBox: string
   host?: string
   acceptPayments?: boolean
+  /** Maximum number of messages to return. */
+  limit?: number
+  /** Opaque `nextCursor` from a previous page; returns the messages after it. */
+  cursor?: string
+  /** Only messages created at or after this time (ISO string, Unix ms or `Date`). */
+  since?: string | number | Date
+  /** Only messages created before this time (ISO string, Unix ms or `Date`). */
+  until?: string | number | Date
+  /** Only messages from this sender identity key (or any of these keys). Sealed messages match their unsealed sender. */
+  sender?: string | string[]
+  /** Result order. Default: oldest-first by `created_at`. */
+  order?: MessageOrder
+}
+
+/**
+ * Sort order for listed messages. Messages are compared by the chosen timestamp and then by
+ * `messageId`, both in the chosen direction, so every order is total and does not depend on
+ * which host answered first. Missing or unparsable timestamps sort as the Unix epoch.
+ */
+export interface MessageOrder {
+  /** Timestamp to sort by. Default: `'created_at'`. */
+  by?: 'created_at' | 'updated_at'
+  /** `'asc'` for oldest-first, `'desc'` for newest-first. Default: `'asc'`. */
+  direction?: 'asc' | 'desc'
+}
+
+/**
+ * One page of messages returned by `listMessagesPage()`.
+ */
+export interface MessagePage {
+  messages: PeerMessage[]
+  /** Pass as `cursor` to fetch the next page. Absent when there are no more messages. */
+  nextCursor?: string
 }
 
 /**
@@ -113,6 +781,8 @@ export interface ListMessagesParams {
  */
 export interface EncryptedMessage {
   encryptedMessage: Base64String
+  /** Key ID the body was encrypted under; absent means the legacy `'1'`. */
+  keyID?: string
 }
 
 export interface AdvertisementToken {
@@ -282,3 +952,90 @@ export interface PaymentRequestLimits {
   /** Maximum satoshis to accept in a request. Requests above this are discarded. Default: 10000000. */
   maxAmount?: number
 }
+
+/**
+ * Checks a message payload at runtime. Type guards can be passed as-is.
+ */
+export type PayloadValidator<T> = (payload: unknown) => payload is T
+
+/**
+ * What happens to received messages whose payload fails their box's validator.
+ *
+ * - `reject`: the message is acknowledged on the server and dropped.
+ * - `quarantine`: the message is copied to the client's quarantine store, then acknowledged and dropped.
+ */
+export type InvalidMessagePolicy = 'reject' | 'quarantine'
+
+export interface BoxDefinitionOptions {
+  /** @default 'reject' */
+  onInvalid?: InvalidMessagePolicy
+}
+
+/**
+ * A received message whose payload passed its box's validator.
+ */
+export type TypedMessage<T> = Omit<PeerMessage, 'body'> & { body: T }
+
+/**
+ * Describes a chunked attachment. Sent before its chunks.
+ */
+export interface AttachmentManifest {
+  attachmentId: string
+  name?: string
+  mimeType?: string
+  /** Total size in bytes. */
+  size: number
+  chunkSize: number
+  chunkCount: number
+  /** Hex SHA-256 of the whole payload. */
+  hash: string
+  /** Hex SHA-256 of each chunk, by index. */
+  chunkHashes: string[]
+}
+
+/**
+ * One piece of a chunked attachment.
+ */
+export interface AttachmentChunk {
+  attachmentId: string
+  index: number
+  /** Base64 chunk bytes. */
+  data: string
+}
+
+export interface AttachmentProgress {
+  attachmentId: string
+  completedChunks: number
+  totalChunks: number
+  completedBytes: number
+  totalBytes: number
+}
+
+/**
+ * Sender-side state of an attachment transfer. Pass it back as `resume` to continue
+ * an interrupted transfer without re-sending what already went out.
+ */
+export interface AttachmentTransfer {
+  attachmentId: string
+  recipient: string
+  chunkCount: number
+  manifestMessageId?: string
+  /** Indexes of the chunks already sent. */
+  sentChunks: number[]
+}
+
+/**
+ * Receiver-side state of an attachment.
+ */
+export interface AttachmentStatus {
+  manifest: AttachmentManifest
+  sender: string
+  receivedChunks: number
+  complete: boolean
+}
+
+export interface ReceivedAttachment {
+  manifest: AttachmentManifest
+  sender: string
+  data: Uint8Array
+}
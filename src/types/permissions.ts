@@ -3,6 +3,7 @@
  */
 
 import { PubKeyHex } from '@bsv/sdk'
+import { CompressionFormat } from '../types.js'
 
 /**
  * Parameters for setting message box permissions
@@ -84,6 +85,18 @@ export interface SendListParams {
   messageBox: string
   body: string | object
   skipEncryption?: boolean
+  /** Sends the body in a `MessageEnvelope` with this content type. */
+  contentType?: string
+  /** Sends the body in a `MessageEnvelope` declaring this schema version. */
+  schemaVersion?: number
+  /** Sends the body in a `MessageEnvelope` with these headers. */
+  headers?: Record<string, string>
+  /** Compresses the body before sending (`true` means `'gzip'`). */
+  compress?: boolean | CompressionFormat
+  /** Unix time (ms) after which receivers drop the message. */
+  expiresAt?: number
+  /** Time to live in ms; shorthand for `expiresAt`. */
+  ttl?: number
 }
 
 export interface SendListResult {